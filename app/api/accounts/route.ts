@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import Account from '@/models/account';
+import Transaction from '@/models/transactions';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { apiError, handleRouteError, invalid, notFound, readBody } from '@/lib/api';
+import { getMemberKeys } from '@/lib/household';
+import { getAccountBalances } from '@/lib/accounts';
+import { JOINT_BUDGET } from '@/lib/budgets';
+import { accountSchema, accountUpdateSchema } from '@/lib/request-schemas';
+
+const isValidOwner = async (owner: string | undefined, householdId: Parameters<typeof getMemberKeys>[0]) =>
+    owner === undefined || owner === JOINT_BUDGET || (await getMemberKeys(householdId)).includes(owner);
+
+const badOwner = () => {
+    const message = 'Owner must be a member of the household or joint';
+    return invalid(message, { owner: message });
+};
+
+// Each account with its current balance
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        return NextResponse.json({ success: true, data: await getAccountBalances(auth.householdId) });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function POST(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const body = await readBody(req, accountSchema);
+        if (!(await isValidOwner(body.owner, auth.householdId))) return badOwner();
+        const account = await Account.create({ ...body, householdId: auth.householdId });
+        return NextResponse.json({ success: true, data: account });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function PUT(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const { _id, ...fields } = await readBody(req, accountUpdateSchema);
+        if (!(await isValidOwner(fields.owner, auth.householdId))) return badOwner();
+
+        const account = await Account.findOneAndUpdate(
+            { _id, householdId: auth.householdId },
+            fields,
+            { new: true, runValidators: true }
+        );
+        if (!account) return notFound('Account');
+        return NextResponse.json({ success: true, data: account });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+// Accounts with transactions recorded against them stay, or their history would stop adding up
+export async function DELETE(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+
+    if (!id) return invalid('ID required');
+
+    try {
+        // Entries in the trash count, since restoring one would bring the reference back
+        const inUse = await Transaction.exists({ householdId: auth.householdId, $or: [{ accountId: id }, { toAccountId: id }] })
+            .setOptions({ withDeleted: true });
+        if (inUse) {
+            return apiError(409, 'This account has transactions (including any in the trash) and cannot be deleted');
+        }
+        await Account.findOneAndDelete({ _id: id, householdId: auth.householdId });
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
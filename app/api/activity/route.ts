@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import AuditLog from '@/models/audit-log';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid } from '@/lib/api';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// The household's audit trail, newest first (see lib/audit.ts).
+// ?entityId= narrows it to one transaction, budget or todo; ?before=<entry id> continues from the
+// previous page's `nextCursor`.
+export async function GET(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const entityId = searchParams.get('entityId');
+    const before = searchParams.get('before');
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_PAGE_SIZE);
+
+    if (entityId !== null && !mongoose.isValidObjectId(entityId)) return invalid('Invalid entityId');
+    if (before !== null && !mongoose.isValidObjectId(before)) return invalid('Invalid cursor');
+    if (!Number.isInteger(limit) || limit < 1) return invalid('`limit` must be a positive integer');
+
+    try {
+        const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+        const entries = await AuditLog.find({
+            householdId: auth.householdId,
+            ...(entityId && { entityId }),
+            ...(before && { _id: { $lt: before } })
+        }).sort({ _id: -1 }).limit(pageSize + 1);
+
+        // One extra row tells whether another page exists
+        let nextCursor: string | null = null;
+        if (entries.length > pageSize) {
+            entries.pop();
+            nextCursor = entries[entries.length - 1]._id.toString();
+        }
+
+        return NextResponse.json({ success: true, data: entries, nextCursor });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import User from '@/models/user';
+import Household from '@/models/household';
+import { createSession, verifyPassword } from '@/lib/auth';
+import { apiError, handleRouteError, readBody } from '@/lib/api';
+import { loginSchema } from '@/lib/request-schemas';
+
+// POST /api/auth/login — body: { email, password }
+export async function POST(req: Request) {
+    await dbConnect();
+    try {
+        const { email, password } = await readBody(req, loginSchema);
+        const user = await User.findOne({ email: email.toLowerCase() });
+        // Same message either way so the form doesn't reveal which emails have accounts
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+            return apiError(401, 'Incorrect email or password');
+        }
+
+        const household = await Household.findById(user.householdId);
+        const member = household?.members.find((m: { userId: unknown }) => String(m.userId) === String(user._id));
+        if (!member) return apiError(409, 'Account is not part of a household');
+
+        await createSession(user, member.key);
+        return NextResponse.json({ success: true, data: { name: user.name, member: member.key } });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
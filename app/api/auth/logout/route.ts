@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { destroySession } from '@/lib/auth';
+import { handleRouteError } from '@/lib/api';
+
+export async function POST() {
+    await dbConnect();
+    try {
+        await destroySession();
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import User from '@/models/user';
+import Household from '@/models/household';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError } from '@/lib/api';
+import { resolveMember } from '@/lib/members';
+import { DEFAULT_CURRENCY } from '@/lib/money';
+import { CategorySplit, HouseholdMember, Owner } from '@/types';
+
+// GET /api/auth/me — the signed-in user and their household (401 when signed out)
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
+    try {
+        const household = await Household.findById(auth.householdId).lean<{
+            name: string;
+            inviteCode: string;
+            members: (Partial<HouseholdMember> & { userId: string; key: Owner })[];
+            categorySplits?: CategorySplit[];
+            baseCurrency?: string;
+        }>();
+        if (!household) return unauthorized();
+
+        const users = await User.find({ _id: { $in: household.members.map(m => m.userId) } }, 'name email').lean<{ _id: string; name: string; email: string }[]>();
+        const byId = new Map(users.map(u => [String(u._id), u]));
+        const me = byId.get(String(auth.userId));
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                name: me?.name,
+                email: me?.email,
+                member: auth.member,
+                household: {
+                    _id: auth.householdId.toString(),
+                    name: household.name,
+                    inviteCode: household.inviteCode,
+                    // Households from before profiles existed fall back to the account name
+                    members: household.members.map(m => resolveMember(m.key, { ...m, name: m.name || byId.get(String(m.userId))?.name })),
+                    categorySplits: household.categorySplits ?? [],
+                    baseCurrency: household.baseCurrency || DEFAULT_CURRENCY
+                }
+            }
+        });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import User from '@/models/user';
+import Household from '@/models/household';
+import { createSession, hashPassword } from '@/lib/auth';
+import { apiError, handleRouteError, invalid, readBody } from '@/lib/api';
+import { registerSchema } from '@/lib/request-schemas';
+import { MAX_MEMBERS, MEMBER_PALETTE, newMemberKey, resolveMember } from '@/lib/members';
+import { HouseholdMember, Owner } from '@/types';
+
+// Unambiguous characters only, since the code is read out to a partner
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const generateInviteCode = () =>
+    Array.from(crypto.randomBytes(8), b => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join('');
+
+// POST /api/auth/register — body: { name, email, password, inviteCode? }
+// Without an invite code a new household is created; with one, the caller joins it as a new member.
+export async function POST(req: Request) {
+    await dbConnect();
+    try {
+        const { name, email, password, inviteCode } = await readBody(req, registerSchema);
+        if (await User.exists({ email: email.toLowerCase() })) {
+            return apiError(409, 'An account with that email already exists');
+        }
+
+        const userId = new mongoose.Types.ObjectId();
+        let householdId: mongoose.Types.ObjectId;
+        let member: Owner;
+
+        if (inviteCode) {
+            const existing = await Household.findOne({ inviteCode: inviteCode.toUpperCase() });
+            if (!existing || existing.members.length >= MAX_MEMBERS) {
+                const message = 'Invite code is invalid or the household is full';
+                return invalid(message, { inviteCode: message });
+            }
+
+            const keys = existing.members.map((m: HouseholdMember) => m.key);
+            member = newMemberKey(keys);
+            const color = MEMBER_PALETTE[keys.length % MEMBER_PALETTE.length];
+            // Only push if the member list is unchanged since we read it, so two sign-ups can't overfill it
+            const household = await Household.findOneAndUpdate(
+                { _id: existing._id, members: { $size: keys.length } },
+                { $push: { members: { userId, ...resolveMember(member, { name, color }) } } },
+                { new: true }
+            );
+            if (!household) {
+                return apiError(409, 'Someone else joined at the same moment, please try again');
+            }
+            householdId = household._id;
+        } else {
+            member = newMemberKey([]);
+            const household = await Household.create({
+                name: `${name}'s Household`,
+                members: [{ userId, ...resolveMember(member, { name, color: MEMBER_PALETTE[0] }) }],
+                inviteCode: generateInviteCode()
+            });
+            householdId = household._id;
+        }
+
+        const user = await User.create({ _id: userId, name, email, passwordHash: await hashPassword(password), householdId });
+        await createSession(user, member);
+        return NextResponse.json({ success: true, data: { name: user.name, member } });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
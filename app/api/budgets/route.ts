@@ -1,31 +1,72 @@
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import Budget from '@/models/budget';
+import { getBudgetsForMonth, syncCurrentSnapshot } from '@/lib/budget-snapshots';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid, readBody } from '@/lib/api';
+import { getMemberKeys } from '@/lib/household';
+import { JOINT_BUDGET } from '@/lib/budgets';
+import { budgetSchema } from '@/lib/request-schemas';
+import { recordAudit } from '@/lib/audit';
+import { VersionConflictError, versionFilter } from '@/lib/versioning';
 
-export async function GET() {
+const MONTH_KEY = /^\d{4}-\d{2}$/;
+
+export async function GET(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const month = searchParams.get('month');
+    if (month && !MONTH_KEY.test(month)) {
+        return invalid('`month` must be YYYY-MM', { month: 'Month must be YYYY-MM' });
+    }
+
     try {
-        // Return an ARRAY of budgets, not a Map/Object
-        const budgets = await Budget.find({});
+        // Return an ARRAY of budgets, not a Map/Object.
+        // With ?month= the limits are the ones that applied that month, plus any rollover carried in.
+        const budgets = month
+            ? await getBudgetsForMonth(auth.householdId, month)
+            : await Budget.find({ householdId: auth.householdId });
         return NextResponse.json({ success: true, data: budgets });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
 }
 
 export async function POST(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
     try {
-        const body = await req.json();
+        const body = await readBody(req, budgetSchema);
+        if (body.owner !== JOINT_BUDGET && !(await getMemberKeys(auth.householdId)).includes(body.owner)) {
+            const message = 'Owner must be a member of the household or joint';
+            return invalid(message, { owner: message });
+        }
         // Update or Insert based on BOTH category AND owner
         // This allows "Me" to have a Food budget and "Her" to have a separate Food budget
-        await Budget.findOneAndUpdate(
-            { category: body.category, owner: body.owner },
-            { amount: body.amount },
-            { upsert: true, new: true }
+        const filter = { householdId: auth.householdId, category: body.category, owner: body.owner };
+        const before = await Budget.findOne(filter).lean();
+        // An edit names the version it was based on and only applies if that is still the stored one,
+        // so a late or concurrent write can't bring back an older limit. Without one it creates or overwrites.
+        const budget = await Budget.findOneAndUpdate(
+            { ...filter, ...(body.version !== undefined && versionFilter(body.version)) },
+            {
+                $set: {
+                    amount: body.amount,
+                    ...(body.period && { period: body.period }),
+                    ...(body.rollover !== undefined && { rollover: body.rollover })
+                },
+                $inc: { version: 1 }
+            },
+            { upsert: body.version === undefined, new: true, runValidators: true }
         );
-        return NextResponse.json({ success: true });
+        if (!budget) throw new VersionConflictError('This budget');
+        await syncCurrentSnapshot(auth.householdId, budget, before);
+        await recordAudit(auth, [{ entity: 'budget', action: before ? 'update' : 'create', entityId: budget._id, before, after: budget }]);
+        return NextResponse.json({ success: true, data: budget });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
 }
\ No newline at end of file
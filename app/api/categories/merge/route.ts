@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, readBody } from '@/lib/api';
+import { mergeCategories } from '@/lib/household-categories';
+import { categoryMergeSchema } from '@/lib/request-schemas';
+
+// POST /api/categories/merge
+// Moves every transaction, budget, recurring template and default split from the source category
+// to the target, then deletes the source. Responds with how many transactions moved.
+export async function POST(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const { sourceId, targetId } = await readBody(req, categoryMergeSchema);
+        const moved = await mergeCategories(auth.householdId, sourceId, targetId);
+        return NextResponse.json({ success: true, data: { moved } });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import Category from '@/models/category';
+import Transaction from '@/models/transactions';
+import RecurringTransaction from '@/models/recurring-transaction';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { apiError, handleRouteError, invalid, notFound, readBody } from '@/lib/api';
+import { checkParent, getCategories, reassignCategory } from '@/lib/household-categories';
+import { categorySchema, categoryUpdateSchema } from '@/lib/request-schemas';
+import { CategoryUpdate } from '@/types';
+
+// An empty parentId moves the category to the top level
+const withParent = <T extends Omit<CategoryUpdate, '_id'>>({ parentId, ...fields }: T) => ({
+    ...fields,
+    ...(parentId !== undefined && { parentId: parentId || null })
+});
+
+const nameTaken = (name: string | undefined) =>
+    apiError(409, `There is already a category called "${name}"; merge the two instead`);
+
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        return NextResponse.json({ success: true, data: await getCategories(auth.householdId) });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function POST(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const fields = withParent(await readBody(req, categorySchema));
+        if (await Category.exists({ householdId: auth.householdId, name: fields.name })) return nameTaken(fields.name);
+        await checkParent(auth.householdId, fields, fields.parentId);
+
+        const category = await Category.create({ ...fields, householdId: auth.householdId });
+        return NextResponse.json({ success: true, data: category });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+// Renaming also renames the category on every transaction, budget, recurring template and default split
+export async function PUT(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const { _id, ...update } = await readBody(req, categoryUpdateSchema);
+        const category = await Category.findOne({ _id, householdId: auth.householdId });
+        if (!category) return notFound('Category');
+
+        const fields = withParent(update);
+        const oldName = category.name;
+        const renamed = fields.name !== undefined && fields.name !== oldName;
+        if (renamed && await Category.exists({ householdId: auth.householdId, name: fields.name })) return nameTaken(fields.name);
+        if (fields.parentId !== undefined) await checkParent(auth.householdId, category, fields.parentId);
+
+        category.set(fields);
+        await category.save();
+        if (renamed) await reassignCategory(auth.householdId, oldName, category.name);
+        return NextResponse.json({ success: true, data: category });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+// Categories still in use are merged rather than deleted, so no transaction is left pointing at nothing
+export async function DELETE(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+
+    if (!id) return invalid('ID required');
+
+    try {
+        const category = await Category.findOne({ _id: id, householdId: auth.householdId });
+        if (!category) return NextResponse.json({ success: true, data: {} });
+
+        const [hasChildren, inUse, scheduled] = await Promise.all([
+            Category.exists({ householdId: auth.householdId, parentId: category._id }),
+            // Entries in the trash still name it and could be restored
+            Transaction.exists({ householdId: auth.householdId, category: category.name }).setOptions({ withDeleted: true }),
+            RecurringTransaction.exists({ householdId: auth.householdId, 'template.category': category.name })
+        ]);
+        if (hasChildren) {
+            return apiError(409, 'Move or delete its subcategories first');
+        }
+        if (inUse || scheduled) {
+            return apiError(409, 'This category is in use; merge it into another instead');
+        }
+
+        await category.deleteOne();
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import ExchangeRate from '@/models/exchange-rate';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid } from '@/lib/api';
+import { getBaseCurrency } from '@/lib/exchange-rates';
+import { array, parse } from '@/lib/validation';
+import { rateSchema } from '@/lib/request-schemas';
+
+const MAX_BATCH_SIZE = 5000;
+
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const rates = await ExchangeRate.find({ householdId: auth.householdId }).sort({ currency: 1, date: -1 });
+        return NextResponse.json({ success: true, data: rates });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+// Body: { currency, date, rate } or an array of them (file import). A rate for a currency and date
+// that already has one replaces it. Every row is validated before anything is written; field errors
+// of an import are keyed by row index ('3.rate').
+// Transactions already recorded keep the base amount they were saved with.
+export async function POST(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const body = await req.json();
+        if (Array.isArray(body) && body.length > MAX_BATCH_SIZE) {
+            return invalid(`At most ${MAX_BATCH_SIZE} rates per import`);
+        }
+        const rows = Array.isArray(body) ? parse(array(rateSchema), body) : [parse(rateSchema, body)];
+
+        const base = await getBaseCurrency(auth.householdId);
+        const docs = rows.map(row => new ExchangeRate({ currency: row.currency, date: row.date, rate: row.rate, householdId: auth.householdId }));
+        for (const [i, doc] of docs.entries()) {
+            const error = doc.validateSync();
+            if (error) return invalid(`Row ${i + 1}: ${error.message}`);
+            if (doc.currency === base) {
+                return invalid(`Row ${i + 1}: ${base} is the base currency`, { [`${i}.currency`]: `${base} is the base currency` });
+            }
+        }
+
+        const result = await ExchangeRate.bulkWrite(docs.map(doc => ({
+            updateOne: {
+                filter: { householdId: auth.householdId, currency: doc.currency, date: doc.date },
+                update: { $set: { rate: doc.rate } },
+                upsert: true
+            }
+        })));
+        return NextResponse.json({ success: true, data: { saved: result.upsertedCount + result.modifiedCount } });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function DELETE(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+
+    if (!id) return invalid('ID required');
+
+    try {
+        await ExchangeRate.findOneAndDelete({ _id: id, householdId: auth.householdId });
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
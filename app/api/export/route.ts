@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { ARCHIVE_COLLECTIONS, ArchiveCollection, buildArchive, buildCollectionCsv } from '@/lib/archive';
+import { toDateKey } from '@/lib/dates';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid } from '@/lib/api';
+
+// GET /api/export — full JSON archive
+// GET /api/export?format=csv&collection=transactions|budgets|todos — one collection as CSV
+export async function GET(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const stamp = toDateKey(new Date());
+
+    try {
+        if (searchParams.get('format') === 'csv') {
+            const collection = searchParams.get('collection') as ArchiveCollection;
+            if (!ARCHIVE_COLLECTIONS.includes(collection)) {
+                return invalid(`collection must be one of ${ARCHIVE_COLLECTIONS.join(', ')}`);
+            }
+            return new NextResponse(await buildCollectionCsv(auth.householdId, collection), {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="duo-finance-${collection}-${stamp}.csv"`,
+                },
+            });
+        }
+
+        return new NextResponse(JSON.stringify(await buildArchive(auth.householdId), null, 2), {
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Disposition': `attachment; filename="duo-finance-${stamp}.json"`,
+            },
+        });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
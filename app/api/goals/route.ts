@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import Goal from '@/models/goal';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid, notFound, readBody } from '@/lib/api';
+import { getMemberKeys } from '@/lib/household';
+import { getGoalProgress, unlinkGoal } from '@/lib/goals';
+import { recordReset } from '@/lib/change-feed';
+import { JOINT_BUDGET } from '@/lib/budgets';
+import { goalSchema, goalUpdateSchema } from '@/lib/request-schemas';
+
+const isValidOwner = async (owner: string | undefined, householdId: Parameters<typeof getMemberKeys>[0]) =>
+    owner === undefined || owner === JOINT_BUDGET || (await getMemberKeys(householdId)).includes(owner);
+
+const badOwner = () => {
+    const message = 'Owner must be a member of the household or joint';
+    return invalid(message, { owner: message });
+};
+
+// Each goal with what has been saved towards it, by whom, and what is still needed per month
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        return NextResponse.json({ success: true, data: await getGoalProgress(auth.householdId) });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function POST(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const body = await readBody(req, goalSchema);
+        if (!(await isValidOwner(body.owner, auth.householdId))) return badOwner();
+        const goal = await Goal.create({ ...body, householdId: auth.householdId });
+        return NextResponse.json({ success: true, data: goal });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function PUT(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const { _id, ...fields } = await readBody(req, goalUpdateSchema);
+        if (!(await isValidOwner(fields.owner, auth.householdId))) return badOwner();
+
+        const goal = await Goal.findOneAndUpdate(
+            { _id, householdId: auth.householdId },
+            fields,
+            { new: true, runValidators: true }
+        );
+        if (!goal) return notFound('Goal');
+        return NextResponse.json({ success: true, data: goal });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+// The contributions themselves are kept; they just stop counting towards a goal
+export async function DELETE(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+
+    if (!id) return invalid('ID required');
+
+    try {
+        const goal = await Goal.findOneAndDelete({ _id: id, householdId: auth.householdId });
+        if (!goal) return notFound('Goal');
+        if (await unlinkGoal(auth.householdId, id) > 0) await recordReset(auth.householdId, 'transactions');
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import Household from '@/models/household';
+import Transaction from '@/models/transactions';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { apiError, handleRouteError, notFound, readBody } from '@/lib/api';
+import { MemberError } from '@/lib/household';
+import { splitError } from '@/lib/splits';
+import { householdUpdateSchema } from '@/lib/request-schemas';
+import { HouseholdMember } from '@/types';
+
+// PUT /api/household — body: { name?, members?: [{ key, name, initials, color }], categorySplits?: [{ category, mode, values }], baseCurrency? }
+// Any member may edit the whole profile. Keys and account links can't be changed here.
+// categorySplits replaces the list of default splits wholesale. The base currency can only change
+// while there are no transactions, since their stored base amounts would all be in the old one.
+export async function PUT(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
+    try {
+        const { name, members, categorySplits, baseCurrency } = await readBody(req, householdUpdateSchema);
+        const household = await Household.findById(auth.householdId);
+        if (!household) return notFound('Household');
+
+        if (name !== undefined) household.name = name;
+        members?.forEach(profile => {
+            const member = household.members.find((m: HouseholdMember) => m.key === profile.key);
+            if (!member) return;
+            member.name = profile.name;
+            member.initials = profile.initials;
+            member.color = profile.color;
+        });
+
+        if (categorySplits) {
+            const keys = household.members.map((m: HouseholdMember) => m.key);
+            categorySplits.forEach(({ category, mode, values }) => {
+                if (!values.every(v => keys.includes(v.member))) {
+                    throw new MemberError(`${category}: splits may only list members of the household`);
+                }
+                const error = splitError(mode, values);
+                if (error) throw new MemberError(`${category}: ${error}`);
+            });
+            household.categorySplits = categorySplits;
+        }
+
+        if (baseCurrency !== undefined && baseCurrency.toUpperCase() !== household.baseCurrency) {
+            // Including the trash: a restored entry's baseAmount would be in the old currency
+            if (await Transaction.exists({ householdId: auth.householdId }).setOptions({ withDeleted: true })) {
+                return apiError(409, 'The base currency can\'t be changed once transactions are recorded');
+            }
+            household.baseCurrency = baseCurrency;
+        }
+
+        // save() runs the MemberSchema validators (initials length, colour format)
+        await household.save();
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
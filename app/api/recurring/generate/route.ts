@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import Household from '@/models/household';
+import { toDateKey } from '@/lib/dates';
+import { generateDueTransactions } from '@/lib/recurring-generator';
+import { getAuth, isCronRequest, unauthorized } from '@/lib/auth';
+import { handleRouteError } from '@/lib/api';
+
+// POST /api/recurring/generate — idempotent; called on page load for the caller's household, and
+// safe for a cron job, which authenticates with CRON_SECRET (see isCronRequest) and covers every household
+export async function POST(req: Request) {
+    await dbConnect();
+    const today = toDateKey(new Date());
+
+    if (isCronRequest(req)) {
+        try {
+            const households = await Household.find({}, '_id').lean<{ _id: mongoose.Types.ObjectId }[]>();
+            let created = 0;
+            for (const household of households) created += await generateDueTransactions(household._id, today);
+            return NextResponse.json({ success: true, data: { created, households: households.length } });
+        } catch (error) {
+            return handleRouteError(error);
+        }
+    }
+
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const created = await generateDueTransactions(auth.householdId, today);
+        return NextResponse.json({ success: true, data: { created } });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
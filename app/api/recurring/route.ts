@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import RecurringTransaction from '@/models/recurring-transaction';
+import { toDateKey } from '@/lib/dates';
+import { occurrenceOnOrAfter } from '@/lib/recurring';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid, notFound, readBody } from '@/lib/api';
+import { getSplitSettings, resolveMemberFields } from '@/lib/household';
+import { recurringSchema, recurringUpdateSchema } from '@/lib/request-schemas';
+
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const rules = await RecurringTransaction.find({ householdId: auth.householdId }).sort({ paused: 1, nextDate: 1 });
+        return NextResponse.json({ success: true, data: rules });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function POST(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const { template, ...schedule } = await readBody(req, recurringSchema);
+        const startDate = schedule.startDate || toDateKey(new Date());
+        const { keys, categorySplits } = await getSplitSettings(auth.householdId);
+        const rule = new RecurringTransaction({
+            ...schedule,
+            householdId: auth.householdId,
+            // Like a one-off entry, a schedule is paid by whoever sets it up
+            template: { ...resolveMemberFields(template, keys, categorySplits), owner: auth.member },
+            startDate,
+            nextDate: startDate
+        });
+        // Defaults are applied on construction, so the schedule is complete here
+        rule.nextDate = occurrenceOnOrAfter(rule, startDate);
+        await rule.save();
+        return NextResponse.json({ success: true, data: rule });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function PUT(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const { _id, paused, skipDate, unskipDate } = await readBody(req, recurringUpdateSchema);
+        const rule = await RecurringTransaction.findOne({ _id, householdId: auth.householdId });
+        if (!rule) return notFound('Recurring transaction');
+
+        if (paused !== undefined) {
+            // Resuming continues from today instead of back-filling everything missed while paused
+            if (rule.paused && !paused) {
+                const today = toDateKey(new Date());
+                if (rule.nextDate < today) rule.nextDate = occurrenceOnOrAfter(rule, today);
+            }
+            rule.paused = paused;
+        }
+        if (skipDate && !rule.skipDates.includes(skipDate)) rule.skipDates.push(skipDate);
+        if (unskipDate) rule.skipDates.pull(unskipDate);
+
+        await rule.save();
+        return NextResponse.json({ success: true, data: rule });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+export async function DELETE(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+    if (!id) return invalid('ID required');
+
+    try {
+        // Transactions already generated stay; they are real history
+        await RecurringTransaction.findOneAndDelete({ _id: id, householdId: auth.householdId });
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
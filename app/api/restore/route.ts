@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { restoreArchive } from '@/lib/archive';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, readBody } from '@/lib/api';
+import { restoreSchema } from '@/lib/request-schemas';
+
+// POST /api/restore — body: { mode: 'merge' | 'replace', archive }
+export async function POST(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    try {
+        const { mode, archive } = await readBody(req, restoreSchema);
+        const restored = await restoreArchive(auth.householdId, archive, mode);
+        return NextResponse.json({ success: true, data: restored });
+    } catch (error) {
+        // ArchiveError: the archive references members, accounts or goals this household doesn't have,
+        // or holds documents another household still has
+        // RateError: a foreign-currency entry predates every exchange rate entered for it
+        return handleRouteError(error);
+    }
+}
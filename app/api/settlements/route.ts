@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getSettlementLedger } from '@/lib/settlements';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError } from '@/lib/api';
+
+// GET /api/settlements — every settlement with the balance it left behind. Settlements are
+// recorded and undone through /api/transactions like any other entry.
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
+    try {
+        const ledger = await getSettlementLedger(auth.householdId);
+        return NextResponse.json({ success: true, data: ledger });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
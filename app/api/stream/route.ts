@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { watchChanges } from '@/lib/change-feed';
+import { getAuth, unauthorized } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const RETRY_MS = 3000;
+// Comment lines keep proxies from closing a quiet connection
+const HEARTBEAT_MS = 25000;
+
+// GET /api/stream — Server-Sent Events with every transaction, budget and todo written in the caller's
+// household. EventSource resends the last id it saw on reconnect, and the stream resumes from there.
+export async function GET(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+
+    const stream = new ReadableStream({
+        start(controller) {
+            let open = true;
+            const send = (text: string) => {
+                if (open) controller.enqueue(encoder.encode(text));
+            };
+
+            const unwatch = watchChanges(auth.householdId, req.headers.get('last-event-id'), change => {
+                send(`id: ${change.id}\nevent: change\ndata: ${JSON.stringify(change)}\n\n`);
+            });
+            const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+            stop = () => {
+                if (!open) return;
+                open = false;
+                clearInterval(heartbeat);
+                unwatch();
+            };
+            req.signal.addEventListener('abort', () => {
+                if (!open) return;
+                stop();
+                controller.close();
+            });
+
+            send(`retry: ${RETRY_MS}\n\n`);
+        },
+        cancel() {
+            stop();
+        }
+    });
+
+    return new NextResponse(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
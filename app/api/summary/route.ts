@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getSummary } from '@/lib/summary';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError } from '@/lib/api';
+import { buildDateFilter } from '@/lib/transaction-filters';
+
+// GET /api/summary?from=YYYY-MM-DD&to=YYYY-MM-DD
+export async function GET(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+
+    try {
+        const summary = await getSummary(auth.householdId, buildDateFilter(searchParams));
+        return NextResponse.json({ success: true, data: summary });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getTagTotals } from '@/lib/summary';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError } from '@/lib/api';
+import { buildDateFilter } from '@/lib/transaction-filters';
+
+// GET /api/tags?from=YYYY-MM-DD&to=YYYY-MM-DD — totals per tag; both bounds are optional
+export async function GET(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+
+    try {
+        const totals = await getTagTotals(auth.householdId, buildDateFilter(searchParams));
+        return NextResponse.json({ success: true, data: totals });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
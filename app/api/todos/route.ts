@@ -1,51 +1,84 @@
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import Todo from '@/models/todo';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid, notFound, readBody } from '@/lib/api';
+import { todoSchema, todoUpdateSchema } from '@/lib/request-schemas';
+import { moveToTrash } from '@/lib/trash';
+import { recordAudit } from '@/lib/audit';
+import { checkVersion } from '@/lib/versioning';
 
 export async function GET() {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
     try {
         // Sort by completion (pending first) then by date (newest first)
-        const todos = await Todo.find({}).sort({ completed: 1, createdAt: -1 });
+        const todos = await Todo.find({ householdId: auth.householdId }).sort({ completed: 1, createdAt: -1 });
         return NextResponse.json({ success: true, data: todos });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
 }
 
 export async function POST(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
     try {
-        const body = await req.json();
-        const todo = await Todo.create(body);
+        const body = await readBody(req, todoSchema);
+        // Todos added offline are resent with the same client-chosen _id until a response gets back,
+        // which may be after the first attempt's todo was deleted
+        if (body._id) {
+            const existing = await Todo.findOne({ _id: body._id, householdId: auth.householdId }).setOptions({ withDeleted: true });
+            if (existing) return NextResponse.json({ success: true, data: existing });
+        }
+        const todo = await Todo.create({ ...body, householdId: auth.householdId, createdBy: auth.member });
+        await recordAudit(auth, [{ entity: 'todo', action: 'create', entityId: todo._id, after: todo }]);
         return NextResponse.json({ success: true, data: todo });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
 }
 
 export async function PUT(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
     try {
-        const body = await req.json();
-        const { _id, ...updateData } = body;
-        const todo = await Todo.findByIdAndUpdate(_id, updateData, { new: true });
+        const { _id, version, ...updateData } = await readBody(req, todoUpdateSchema);
+        const todo = await Todo.findOne({ _id, householdId: auth.householdId });
+        if (!todo) return notFound('Todo');
+        // Two members ticking the same todo at once: the second sees the first's change instead of undoing it
+        checkVersion(todo, version, 'This todo');
+        const before = todo.toObject();
+        todo.set(updateData);
+        await todo.save();
+        await recordAudit(auth, [{ entity: 'todo', action: 'update', entityId: todo._id, before, after: todo }]);
         return NextResponse.json({ success: true, data: todo });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
 }
 
 export async function DELETE(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
     const { searchParams } = new URL(req.url);
     const id = searchParams.get('id');
-    if (!id) return NextResponse.json({ success: false }, { status: 400 });
+    if (!id) return invalid('ID required');
 
     try {
-        await Todo.findByIdAndDelete(id);
-        return NextResponse.json({ success: true, data: {} });
+        // Kept in the trash (GET /api/trash) so it can be restored
+        const deleted = await moveToTrash(Todo, auth.householdId, id, auth.member);
+        if (!deleted) return notFound('Todo');
+        await recordAudit(auth, [{ entity: 'todo', action: 'delete', entityId: deleted._id, before: deleted }]);
+        return NextResponse.json({ success: true, data: deleted });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
 }
@@ -1,39 +1,168 @@
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import Transaction from '@/models/transactions';
+import { AuthContext, getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid, notFound, readBody } from '@/lib/api';
+import { getSplitSettings, resolveMemberFields, SplitSettings } from '@/lib/household';
+import { withBaseAmounts } from '@/lib/exchange-rates';
+import { getAccountIds, resolveAccountFields } from '@/lib/accounts';
+import { getGoalIds, resolveGoalField } from '@/lib/goals';
+import { moveToTrash } from '@/lib/trash';
+import { recordAudit } from '@/lib/audit';
+import { checkVersion } from '@/lib/versioning';
+import { buildTransactionFilter, encodeCursor, parseLimit } from '@/lib/transaction-filters';
+import { array, checkRules, parse } from '@/lib/validation';
+import { transactionRules, transactionSchema, transactionUpdateSchema } from '@/lib/request-schemas';
+import { TransactionInput } from '@/types';
 
-export async function GET() {
+const MAX_BATCH_SIZE = 1000;
+
+// The payer is whoever is signed in. Settlements are the exception: they record a payment
+// between two members, so the payer is the settlement's `from`.
+const withAuthorship = (body: TransactionInput, auth: AuthContext, { keys, categorySplits }: SplitSettings, accountIds: string[], goalIds: string[]) => ({
+    ...resolveMemberFields(resolveGoalField(resolveAccountFields(body, accountIds), goalIds), keys, categorySplits),
+    householdId: auth.householdId,
+    owner: body.type === 'settlement' ? body.from : auth.member
+});
+
+export async function GET(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+
     try {
-        const transactions = await Transaction.find({}).sort({ date: -1, createdAt: -1 });
-        return NextResponse.json({ success: true, data: transactions });
+        const filter = { ...buildTransactionFilter(searchParams), householdId: auth.householdId };
+        const limit = parseLimit(searchParams);
+
+        // _id breaks ties within a day so the cursor is stable
+        const query = Transaction.find(filter).sort({ date: -1, _id: -1 });
+        // Fetch one extra row to know whether another page exists
+        if (limit) query.limit(limit + 1);
+        const transactions = await query;
+
+        let nextCursor: string | null = null;
+        if (limit && transactions.length > limit) {
+            transactions.pop();
+            const last = transactions[transactions.length - 1];
+            nextCursor = encodeCursor({ date: last.date, id: last._id.toString() });
+        }
+
+        return NextResponse.json({ success: true, data: transactions, nextCursor });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
 }
 
 export async function POST(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
     try {
-        const body = await req.json();
-        const transaction = await Transaction.create(body);
+        const raw = await req.json();
+        const [settings, accountIds, goalIds] = await Promise.all([
+            getSplitSettings(auth.householdId),
+            getAccountIds(auth.householdId),
+            getGoalIds(auth.householdId)
+        ]);
+
+        // An array body is a batch insert (CSV import). Every row is validated before anything is written;
+        // field errors are keyed by row index ('3.amount').
+        if (Array.isArray(raw)) {
+            if (raw.length > MAX_BATCH_SIZE) return invalid(`At most ${MAX_BATCH_SIZE} rows per batch`);
+            const body = parse(array(transactionSchema), raw);
+            const rows = await withBaseAmounts(auth.householdId, body.map(row => withAuthorship(row, auth, settings, accountIds, goalIds)));
+            const transactions = await Transaction.insertMany(rows);
+            await recordAudit(auth, transactions.map(t => ({ entity: 'transaction', action: 'create', entityId: t._id, after: t })));
+            return NextResponse.json({ success: true, data: transactions });
+        }
+
+        const body = parse(transactionSchema, raw);
+        // Entries made offline carry an _id chosen by the client and are resent until a response gets
+        // back, so one may already be stored from an attempt whose response was lost, and trashed since
+        if (body._id) {
+            const existing = await Transaction.findOne({ _id: body._id, householdId: auth.householdId }).setOptions({ withDeleted: true });
+            if (existing) return NextResponse.json({ success: true, data: existing });
+        }
+
+        const [fields] = await withBaseAmounts(auth.householdId, [withAuthorship(body, auth, settings, accountIds, goalIds)]);
+        const transaction = await Transaction.create(fields);
+        await recordAudit(auth, [{ entity: 'transaction', action: 'create', entityId: transaction._id, after: transaction }]);
         return NextResponse.json({ success: true, data: transaction });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
+    }
+}
+
+export async function PUT(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
+    try {
+        // Who paid and which household it belongs to can't be changed, so the schema leaves them out
+        const { _id, version, ...updateData } = await readBody(req, transactionUpdateSchema);
+
+        const transaction = await Transaction.findOne({ _id, householdId: auth.householdId });
+        if (!transaction) return notFound('Transaction');
+        checkVersion(transaction, version, 'This transaction');
+
+        // Load, change and save (rather than findOneAndUpdate) so the validators and the hook
+        // that recomputes shares see the whole document
+        // Category defaults only apply to new entries; an edit keeps the split it was saved with
+        const [{ keys }, accountIds, goalIds] = await Promise.all([
+            getSplitSettings(auth.householdId),
+            getAccountIds(auth.householdId),
+            getGoalIds(auth.householdId)
+        ]);
+        const stored = transaction.toObject();
+        const merged = resolveGoalField(resolveAccountFields({
+            ...stored,
+            accountId: stored.accountId?.toString(),
+            toAccountId: stored.toAccountId?.toString(),
+            goalId: stored.goalId?.toString(),
+            ...updateData
+        }, accountIds), goalIds);
+        checkRules(transactionRules, merged);
+        // Set from the resolved fields instead, so "no account" or "no goal" ('') clears the reference
+        delete updateData.accountId;
+        delete updateData.toAccountId;
+        delete updateData.goalId;
+        transaction.set(updateData);
+        transaction.set({ accountId: merged.accountId, toAccountId: merged.toAccountId, goalId: merged.goalId, category: merged.category });
+        if (merged.split === 'shared') {
+            const { splitAmong, splitMode, splitValues } = resolveMemberFields(merged, keys);
+            transaction.set({ splitAmong, splitMode, splitValues });
+        }
+        // Re-converted on every edit, since the amount, currency or date may have changed
+        const [{ currency, baseAmount }] = await withBaseAmounts(auth.householdId, [merged]);
+        transaction.set({ currency, baseAmount });
+        await transaction.save();
+        await recordAudit(auth, [{ entity: 'transaction', action: 'update', entityId: transaction._id, before: stored, after: transaction }]);
+
+        return NextResponse.json({ success: true, data: transaction });
+    } catch (error) {
+        return handleRouteError(error);
     }
 }
 
 export async function DELETE(req: Request) {
     await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
     const { searchParams } = new URL(req.url);
     const id = searchParams.get('id');
 
-    if (!id) return NextResponse.json({ success: false, message: 'ID required' }, { status: 400 });
+    if (!id) return invalid('ID required');
 
     try {
-        await Transaction.findByIdAndDelete(id);
-        return NextResponse.json({ success: true, data: {} });
+        // Kept in the trash (GET /api/trash) so it can be restored
+        const deleted = await moveToTrash(Transaction, auth.householdId, id, auth.member);
+        if (!deleted) return notFound('Transaction');
+        await recordAudit(auth, [{ entity: 'transaction', action: 'delete', entityId: deleted._id, before: deleted }]);
+        return NextResponse.json({ success: true, data: deleted });
     } catch (error) {
-        return NextResponse.json({ success: false, error }, { status: 400 });
+        return handleRouteError(error);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import Transaction from '@/models/transactions';
+import Todo from '@/models/todo';
+import { getAuth, unauthorized } from '@/lib/auth';
+import { handleRouteError, invalid, notFound, readBody } from '@/lib/api';
+import { listTrash, purgeFromTrash, restoreFromTrash, TRASH_COLLECTIONS, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { trashItemSchema } from '@/lib/request-schemas';
+import { recordAudit } from '@/lib/audit';
+import { AuditEntity, TrashCollection } from '@/types';
+
+const MODELS: Record<TrashCollection, typeof Transaction> = {
+    transactions: Transaction,
+    todos: Todo,
+};
+
+const NAMES: Record<TrashCollection, string> = {
+    transactions: 'Transaction',
+    todos: 'Todo',
+};
+
+const ENTITIES: Record<TrashCollection, AuditEntity> = {
+    transactions: 'transaction',
+    todos: 'todo',
+};
+
+// Deleted transactions and todos, most recently deleted first
+export async function GET() {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
+    try {
+        const [transactions, todos] = await Promise.all(TRASH_COLLECTIONS.map(name => listTrash(MODELS[name], auth.householdId)));
+        return NextResponse.json({ success: true, data: { transactions, todos, retentionDays: TRASH_RETENTION_DAYS } });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+// Restores a deleted item; it counts towards totals and balances again
+export async function PUT(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+
+    try {
+        const { collection, _id } = await readBody(req, trashItemSchema);
+        const restored = await restoreFromTrash(MODELS[collection], auth.householdId, _id);
+        if (!restored) return notFound(`Deleted ${NAMES[collection].toLowerCase()}`);
+        await recordAudit(auth, [{ entity: ENTITIES[collection], action: 'restore', entityId: restored._id, after: restored }]);
+        return NextResponse.json({ success: true, data: restored });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
+
+// Removes a deleted item for good, before the retention period is up
+export async function DELETE(req: Request) {
+    await dbConnect();
+    const auth = await getAuth();
+    if (!auth) return unauthorized();
+    const { searchParams } = new URL(req.url);
+    const collection = searchParams.get('collection') as TrashCollection;
+    const id = searchParams.get('id');
+    if (!TRASH_COLLECTIONS.includes(collection)) return invalid(`Collection must be one of ${TRASH_COLLECTIONS.join(', ')}`);
+    if (!id) return invalid('ID required');
+
+    try {
+        const purged = await purgeFromTrash(MODELS[collection], auth.householdId, id);
+        if (!purged) return notFound(`Deleted ${NAMES[collection].toLowerCase()}`);
+        await recordAudit(auth, [{ entity: ENTITIES[collection], action: 'purge', entityId: purged._id, before: purged }]);
+        return NextResponse.json({ success: true, data: {} });
+    } catch (error) {
+        return handleRouteError(error);
+    }
+}
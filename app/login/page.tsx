@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Wallet } from 'lucide-react';
+
+type Mode = 'login' | 'register';
+
+export default function LoginPage() {
+    const router = useRouter();
+    const [mode, setMode] = useState<Mode>('login');
+    const [form, setForm] = useState({ name: '', email: '', password: '', inviteCode: '' });
+    const [error, setError] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setError('');
+
+        const res = await fetch(`/api/auth/${mode}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(mode === 'login' ? { email: form.email, password: form.password } : form)
+        });
+        const json = await res.json();
+        if (json.success) {
+            router.replace('/');
+            return;
+        }
+        setError(json.message || 'Something went wrong');
+        setSubmitting(false);
+    };
+
+    const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+    return (
+        <div className="min-h-screen bg-slate-50 text-slate-900 font-sans flex items-center justify-center p-6">
+            <div className="w-full max-w-sm">
+                <div className="flex items-center justify-center gap-2 mb-8">
+                    <div className="w-10 h-10 rounded-xl bg-slate-900 text-white flex items-center justify-center">
+                        <Wallet size={20} />
+                    </div>
+                    <h1 className="text-2xl font-black text-slate-800">DuoFinance</h1>
+                </div>
+
+                <div className="bg-slate-100 p-1 rounded-xl flex mb-6">
+                    {(['login', 'register'] as Mode[]).map(m => (
+                        <button key={m} type="button" onClick={() => { setMode(m); setError(''); }}
+                                className={`flex-1 py-2 rounded-lg font-bold text-sm transition-all ${mode === m ? 'bg-white shadow text-slate-800' : 'text-slate-400'}`}>
+                            {m === 'login' ? 'Sign In' : 'Create Account'}
+                        </button>
+                    ))}
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    {mode === 'register' && (
+                        <input type="text" placeholder="Your name" required value={form.name}
+                               onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} />
+                    )}
+                    <input type="email" placeholder="Email" required autoComplete="email" value={form.email}
+                           onChange={e => setForm({ ...form, email: e.target.value })} className={inputClass} />
+                    <input type="password" placeholder="Password" required
+                           autoComplete={mode === 'login' ? 'current-password' : 'new-password'} value={form.password}
+                           onChange={e => setForm({ ...form, password: e.target.value })} className={inputClass} />
+                    {mode === 'register' && (
+                        <div>
+                            <input type="text" placeholder="Invite code (optional)" value={form.inviteCode}
+                                   onChange={e => setForm({ ...form, inviteCode: e.target.value })} className={`${inputClass} uppercase`} />
+                            <p className="text-xs text-slate-400 mt-1 px-1">Joining your partner? Enter the code from their Settings screen.</p>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm font-medium text-rose-600">{error}</p>}
+
+                    <button type="submit" disabled={submitting}
+                            className="w-full py-4 bg-slate-900 text-white rounded-xl font-bold shadow-lg hover:bg-slate-800 transition-all disabled:opacity-40 flex items-center justify-center gap-2">
+                        {submitting && <Loader2 size={18} className="animate-spin" />}
+                        {mode === 'login' ? 'Sign In' : 'Create Account'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import {
     Plus,
     Settings,
@@ -22,6 +23,20 @@ import {
     ListTodo,
     CheckCircle,
     Circle,
+    Repeat,
+    Upload,
+    LogOut,
+    Users,
+    Percent,
+    History,
+    Undo2,
+    Coins,
+    Landmark,
+    ArrowRight,
+    Tags,
+    Search,
+    Hash,
+    Activity,
     PieChart as PieChartIcon
 } from 'lucide-react';
 import {
@@ -35,95 +50,109 @@ import {
 
 // Import the details modal component
 import { TransactionDetailsModal } from '@/components/transaction-details';
+import { RecurringDraft, RecurringView } from '@/components/recurring-view';
+import { CsvImportView, ImportRow } from '@/components/csv-import-view';
+import { BackupPanel } from '@/components/backup-panel';
+import { HouseholdProvider, useHousehold } from '@/components/household-context';
+import { HouseholdProfile, HouseholdProfileForm } from '@/components/household-profile-form';
+import { SplitEditor, splitDraftError } from '@/components/split-editor';
+import { CategorySplitsForm } from '@/components/category-splits-form';
+import { SETTLEMENT_METHOD_LABELS, SettlementLedgerView } from '@/components/settlement-ledger';
+import { ExchangeRatesView } from '@/components/exchange-rates-view';
+import { AccountsView } from '@/components/accounts-view';
+import { CategoriesView, CategoryDraft } from '@/components/categories-view';
+import { CategoryIcon } from '@/components/category-icon';
+import { TagRange, TagTotalsView } from '@/components/tag-totals-view';
+import { TrashView } from '@/components/trash-view';
+import { ActivityView } from '@/components/activity-feed';
+import { GoalsView } from '@/components/goals-view';
+import {
+    Account,
+    AccountInput,
+    AuditEntry,
+    Budget,
+    BudgetOwner,
+    CategorySplit,
+    BudgetPeriod,
+    BudgetStat,
+    Category,
+    ChangeEvent,
+    CurrentUser,
+    Debt,
+    ExchangeRate,
+    FilterState,
+    Financials,
+    Goal,
+    GoalInput,
+    HouseholdMember,
+    LedgerEntry,
+    Owner,
+    RateInput,
+    RecurringTransaction,
+    RestoreMode,
+    SettlementMethod,
+    Summary,
+    SyncedCollection,
+    TagTotal,
+    Todo,
+    Transaction,
+    TransactionFormState,
+    TransactionType,
+    Trash,
+    TrashCollection,
+    ViewState
+} from '@/types';
+import { baseAmountOf, CURRENCIES, currencySymbol, DEFAULT_CURRENCY, formatMoney, fromMinorUnits, toMinorUnits } from '@/lib/money';
+import { formatSplitValues, parseSplitValues } from '@/lib/splits';
+import { BUDGET_PERIODS, evaluateBudgets, JOINT_BUDGET, periodScale } from '@/lib/budgets';
+import { DateRange, getPeriodRange, toDateKey, toMonthKey } from '@/lib/dates';
+import { budgetOwnerLabel } from '@/lib/members';
+import { orderedCategories, topLevelName } from '@/lib/categories';
+import { normalizeTags } from '@/lib/tags';
+import { parseSearchQuery } from '@/lib/search';
+import { applyChange, Tombstones, useChangeStream } from '@/lib/live-sync';
+import { cachedFetch, clearOfflineStore, Mutation, newObjectId, queueMutation, setOfflineHousehold, useOutbox } from '@/lib/offline-store';
 
 // --- Constants ---
-const STORAGE_KEY = 'duofinance_next_v1';
-
-const CATEGORIES = [
-    'Food & Dining', 'Groceries', 'Rent & Housing', 'Utilities',
-    'Transport', 'Shopping', 'Entertainment', 'Health', 'Travel',
-    'Savings', 'Income', 'Other'
-];
+const UNDO_WINDOW_MS = 8000;
+const SEARCH_PAGE_SIZE = 50;
+const TOTALS_REFRESH_DELAY_MS = 300;
+const BUDGET_SAVE_DELAY_MS = 800;
+const ACTIVITY_PAGE_SIZE = 50;
 
+// Member colours come from the household profile (see lib/members.ts)
 const COLORS = {
-    me: '#3b82f6',
-    her: '#d946ef',
     shared: '#14b8a6',
     income: '#10b981',
     expense: '#f43f5e',
     settlement: '#64748b',
+    uncategorized: '#94a3b8', // Categories that were deleted or never existed in this household
 };
 
-const CHART_COLORS = [
-    '#3b82f6', '#d946ef', '#14b8a6', '#f59e0b', '#10b981',
-    '#6366f1', '#ec4899', '#84cc16', '#06b6d4'
-];
-
-// --- Types ---
-
-type TransactionType = 'income' | 'expense' | 'settlement';
-type Owner = 'me' | 'her';
-type BudgetOwner = 'me' | 'her' | 'joint';
-type SplitType = 'personal' | 'shared';
-type ViewState = 'dashboard' | 'add' | 'budgets' | 'analytics' | 'todos' | 'settings';
-type FilterState = 'weekly' | 'monthly' | 'yearly';
-
-// Re-exporting interfaces here to ensure file is self-contained if types/index.ts isn't perfect yet
-export interface Transaction {
-    _id: string;
-    amount: string;
-    category: string;
-    date: string;
-    note: string;
-    type: TransactionType;
-    owner: Owner;
-    split?: SplitType;
-    from?: Owner;
-    to?: Owner;
-}
+const EMPTY_SUMMARY: Summary = {
+    financials: { income: 0, expense: 0, balance: 0, balances: {}, payments: [] },
+    categories: []
+};
 
-export interface TransactionFormState {
-    amount: string;
-    category: string;
-    date: string;
-    note: string;
-    type: TransactionType;
-    owner: Owner;
-    split: SplitType;
-}
+type BudgetChanges = Pick<Budget, 'amount' | 'period' | 'rollover'>;
 
-export interface Budget {
-    _id: string;
-    category: string;
-    amount: number;
-    owner: BudgetOwner;
-}
+// Only the current month's budgets are kept as documents, with queued edits applied. Other months show
+// the limits recorded for them, which edits don't change, so those responses are cached by URL.
+const fetchBudgets = (month: string) =>
+    cachedFetch(`/api/budgets?month=${month}`, month === toMonthKey(new Date()) ? { collection: 'budgets' } : undefined);
 
-export interface Todo {
-    _id: string;
-    text: string;
-    completed: boolean;
-    createdBy: Owner;
-}
+const SYNC_SUBJECTS: Record<SyncedCollection, string> = {
+    transactions: 'This transaction',
+    budgets: 'This budget',
+    todos: 'This todo'
+};
 
-export interface Financials {
-    income: number;
-    expense: number;
-    balance: number;
-    settlement: {
-        amount: number;
-        whoOwes: Owner | 'none';
-        raw: number;
-    };
-}
+// What the "Undo" toast shown right after a delete puts back
+type Deletion = { collection: 'transactions'; item: Transaction } | { collection: 'todos'; item: Todo };
 
-export interface BudgetStat {
-    category: string;
-    monthlyLimit: number;
-    effectiveLimit: number;
-    spent: number;
-    pct: number;
-}
+// The orders GET /api/transactions and GET /api/todos return
+const byNewestTransaction = (a: Transaction, b: Transaction) => b.date.localeCompare(a.date) || b._id.localeCompare(a._id);
+const byPendingTodo = (a: Todo, b: Todo) => Number(a.completed) - Number(b.completed);
 
 // --- Helpers ---
 
@@ -228,7 +257,10 @@ interface TransactionItemProps {
 const TransactionItem: React.FC<TransactionItemProps> = ({ t, onClick }) => {
     const isSettlement = t.type === 'settlement';
     const isInc = t.type === 'income';
-    const ownerColor = t.owner === 'me' ? COLORS.me : COLORS.her;
+    const { member, accountName, category, baseCurrency } = useHousehold();
+    const isForeign = !!t.currency && t.currency !== baseCurrency;
+    const owner = member(t.owner);
+    const ownerColor = owner.color;
     const splitColor = t.split === 'shared' ? COLORS.shared : ownerColor;
 
     if (isSettlement) {
@@ -244,17 +276,39 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ t, onClick }) => {
                     <div>
                         <p className="font-bold text-slate-700 text-sm">Settlement</p>
                         <p className="text-xs text-slate-500">
-                            {t.from === 'me' ? 'Me' : 'Her'} paid {t.to === 'me' ? 'Me' : 'Her'}
+                            {t.from && member(t.from).name} paid {t.to && member(t.to).name}
                         </p>
                     </div>
                 </div>
                 <div className="text-right">
-                    <span className="block font-bold text-slate-500">₹{Number(t.amount).toLocaleString()}</span>
+                    <span className="block font-bold text-slate-500">{formatMoney(t.amount, t.currency || baseCurrency)}</span>
                 </div>
             </div>
         );
     }
 
+    if (t.type === 'transfer') {
+        return (
+            <div
+                onClick={() => onClick(t)}
+                className="flex items-center justify-between bg-slate-50 p-4 rounded-xl border border-slate-200 mb-3 cursor-pointer hover:bg-slate-100 transition-colors"
+            >
+                <div className="flex items-center gap-3 overflow-hidden">
+                    <div className="w-10 h-10 rounded-full bg-slate-200 flex items-center justify-center text-slate-500 shrink-0">
+                        <ArrowRightLeft size={18} />
+                    </div>
+                    <div className="overflow-hidden">
+                        <p className="font-bold text-slate-700 text-sm">Transfer</p>
+                        <p className="text-xs text-slate-500 flex items-center gap-1 truncate">
+                            {t.accountId && accountName(t.accountId)} <ArrowRight size={10} className="shrink-0" /> {t.toAccountId && accountName(t.toAccountId)}
+                        </p>
+                    </div>
+                </div>
+                <span className="block font-bold text-slate-500">{formatMoney(t.amount, t.currency || baseCurrency)}</span>
+            </div>
+        );
+    }
+
     return (
         <div
             onClick={() => onClick(t)}
@@ -266,27 +320,43 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ t, onClick }) => {
                     className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold shadow-sm text-xs shrink-0"
                     style={{ backgroundColor: ownerColor }}
                 >
-                    {t.owner === 'me' ? 'ME' : 'HER'}
+                    {owner.initials}
                 </div>
                 <div className="overflow-hidden">
-                    <p className="font-bold text-slate-800 text-sm truncate max-w-[140px]">{t.category}</p>
+                    <p className="font-bold text-slate-800 text-sm truncate max-w-[140px] flex items-center gap-1.5">
+                        <CategoryIcon icon={category(t.category)?.icon} size={12} color={category(t.category)?.color ?? COLORS.uncategorized} className="shrink-0" />
+                        {t.category}
+                    </p>
                     <p className="text-xs text-slate-500 flex items-center gap-1">
                         {new Date(t.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
                         {t.split === 'shared' && <span className="bg-teal-100 text-teal-700 px-1.5 rounded text-[10px] font-bold">SHARED</span>}
+                        {t.tags?.map(tag => <span key={tag} className="bg-slate-100 text-slate-500 px-1.5 rounded text-[10px] font-bold">#{tag}</span>)}
                     </p>
                 </div>
             </div>
             <div className="text-right flex items-center gap-3">
                 <div>
           <span className={`block font-bold ${isInc ? 'text-emerald-600' : 'text-slate-800'}`}>
-            {isInc ? '+' : '-'}₹{Number(t.amount).toLocaleString()}
+            {isInc ? '+' : '-'}{formatMoney(t.amount, t.currency || baseCurrency)}
           </span>
+                    {isForeign && (
+                        <span className="block text-[10px] font-bold text-slate-400">≈ {formatMoney(baseAmountOf(t), baseCurrency)}</span>
+                    )}
                 </div>
             </div>
         </div>
     );
 };
 
+// "You owe Asha" / "Asha owes you", from the signed-in member's point of view
+const paymentHeadline = (payment: Debt, member: (key: Owner) => HouseholdMember, currentMember: Owner | null): string => {
+    const debtor = member(payment.from);
+    const creditor = member(payment.to);
+    if (currentMember === debtor.key) return `You owe ${creditor.name}`;
+    if (currentMember === creditor.key) return `${debtor.name} owes you`;
+    return `${debtor.name} owes ${creditor.name}`;
+};
+
 // --- Views ---
 
 interface DashboardViewProps {
@@ -299,28 +369,47 @@ interface DashboardViewProps {
     filteredTransactions: Transaction[];
     budgetStats: BudgetStat[];
     setView: (v: ViewState) => void;
-    setShowSettleModal: (v: boolean) => void;
+    onSettle: (payment: Debt) => void;
     onTransactionClick: (t: Transaction) => void;
     loading: boolean;
+    pendingSync: number; // Changes made offline that haven't reached the server yet
+    online: boolean;
     onDelete: (id:string) => void;
 }
 
 const DashboardView: React.FC<DashboardViewProps> = ({
                                                          financials, filter, setFilter, selectedDate, onPrev, onNext,
-                                                         filteredTransactions, budgetStats, setView, setShowSettleModal, onTransactionClick, loading,onDelete
-                                                     }) => (
+                                                         filteredTransactions, budgetStats, setView, onSettle, onTransactionClick, loading, pendingSync, online, onDelete
+                                                     }) => {
+    const { member, currentMember, baseCurrency, accounts } = useHousehold();
+    const netWorth = accounts.reduce((sum, a) => sum + a.balance, 0);
+    // Payments the signed-in member is part of come first
+    const involvesMe = (p: Debt) => p.from === currentMember || p.to === currentMember;
+    const payments = [...financials.payments].sort((a, b) => Number(involvesMe(b)) - Number(involvesMe(a)));
+    // Closest to (or over) their limit first
+    const watchedBudgets = budgetStats
+        .filter(b => b.effectiveLimit > 0)
+        .sort((a, b) => b.pct - a.pct)
+        .slice(0, 3);
+
+    return (
     <div className="pb-24 animate-in fade-in">
         <div className="flex justify-between items-end mb-6">
             <div>
                 <h1 className="text-2xl font-black text-slate-800 tracking-tight">DuoFinance</h1>
                 <div className="text-slate-400 text-sm font-medium flex items-center gap-1">
-                    {loading ? <Loader2 size={12} className="animate-spin" /> : <div className="w-2 h-2 bg-green-500 rounded-full"></div>}
-                    Synced
+                    {loading ? <Loader2 size={12} className="animate-spin" /> : <div className={`w-2 h-2 rounded-full ${pendingSync > 0 ? 'bg-amber-500' : online ? 'bg-green-500' : 'bg-slate-300'}`}></div>}
+                    {pendingSync > 0 ? `${pendingSync} waiting to sync` : online ? 'Synced' : 'Offline'}
                 </div>
             </div>
-            <button onClick={() => setView('settings')} className="p-2 bg-slate-100 rounded-full text-slate-500 hover:bg-slate-200 transition">
-                <Settings size={20} />
-            </button>
+            <div className="flex gap-2">
+                <button onClick={() => setView('search')} className="p-2 bg-slate-100 rounded-full text-slate-500 hover:bg-slate-200 transition" aria-label="Search">
+                    <Search size={20} />
+                </button>
+                <button onClick={() => setView('settings')} className="p-2 bg-slate-100 rounded-full text-slate-500 hover:bg-slate-200 transition">
+                    <Settings size={20} />
+                </button>
+            </div>
         </div>
 
         <DateFilterControl
@@ -331,27 +420,32 @@ const DashboardView: React.FC<DashboardViewProps> = ({
             onNext={onNext}
         />
 
-        {financials.settlement.amount > 1 && (
+        {payments.length > 0 && (
             <div className="bg-slate-800 text-white p-5 rounded-2xl shadow-xl shadow-slate-200 mb-8 relative overflow-hidden">
-                <div className="flex justify-between items-start relative z-10">
-                    <div>
-                        <div className="flex items-center gap-2 mb-1">
-                            <p className="text-slate-400 text-xs font-bold uppercase">Settlement Pending</p>
-                            <span className="bg-slate-700 text-[10px] px-1.5 py-0.5 rounded text-slate-300">All Time</span>
-                        </div>
-                        <p className="text-lg font-medium">
-                            {financials.settlement.whoOwes === 'me' ? 'You owe Her' : 'She owes You'}
-                        </p>
-                        <p className="text-3xl font-black text-teal-400 mt-1">
-                            ₹{financials.settlement.amount.toFixed(2)}
-                        </p>
+                <div className="relative z-10">
+                    <div className="flex items-center gap-2 mb-3">
+                        <p className="text-slate-400 text-xs font-bold uppercase">Settlement Pending</p>
+                        <span className="bg-slate-700 text-[10px] px-1.5 py-0.5 rounded text-slate-300">All Time</span>
+                        <button onClick={() => setView('settlements')} className="ml-auto flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-white">
+                            <History size={12} /> History
+                        </button>
+                    </div>
+                    <div className="space-y-4">
+                        {payments.map(p => (
+                            <div key={`${p.from}:${p.to}`} className="flex justify-between items-center">
+                                <div>
+                                    <p className="text-lg font-medium">{paymentHeadline(p, member, currentMember)}</p>
+                                    <p className="text-3xl font-black text-teal-400 mt-1">{formatMoney(p.amount, baseCurrency, 2)}</p>
+                                </div>
+                                <button
+                                    onClick={() => onSettle(p)}
+                                    className="bg-white text-slate-900 px-4 py-2 rounded-lg text-sm font-bold hover:bg-slate-100 transition"
+                                >
+                                    Settle Up
+                                </button>
+                            </div>
+                        ))}
                     </div>
-                    <button
-                        onClick={() => setShowSettleModal(true)}
-                        className="bg-white text-slate-900 px-4 py-2 rounded-lg text-sm font-bold hover:bg-slate-100 transition"
-                    >
-                        Settle Up
-                    </button>
                 </div>
                 <ArrowRightLeft className="absolute -right-4 -bottom-4 w-32 h-32 text-slate-700 opacity-20" />
             </div>
@@ -362,27 +456,55 @@ const DashboardView: React.FC<DashboardViewProps> = ({
                 <div className="flex items-center gap-2 mb-2 text-emerald-600">
                     <TrendingUp size={16} /> <span className="text-xs font-bold uppercase">Income</span>
                 </div>
-                <p className="text-xl font-bold text-emerald-800">₹{financials.income.toLocaleString()}</p>
+                <p className="text-xl font-bold text-emerald-800">{formatMoney(financials.income, baseCurrency)}</p>
             </div>
             <div className="bg-rose-50 p-4 rounded-2xl border border-rose-100">
                 <div className="flex items-center gap-2 mb-2 text-rose-600">
                     <TrendingDown size={16} /> <span className="text-xs font-bold uppercase">Spent</span>
                 </div>
-                <p className="text-xl font-bold text-rose-800">₹{financials.expense.toLocaleString()}</p>
+                <p className="text-xl font-bold text-rose-800">{formatMoney(financials.expense, baseCurrency)}</p>
             </div>
         </div>
 
+        {accounts.length > 0 && (
+            <div className="mb-6">
+                <div className="flex justify-between items-center mb-3">
+                    <h3 className="font-bold text-slate-800">Accounts</h3>
+                    <button onClick={() => setView('accounts')} className="text-blue-500 text-xs font-bold hover:text-blue-700">MANAGE</button>
+                </div>
+                <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                    {accounts.map(a => (
+                        <div key={a._id} className="flex justify-between items-center px-4 py-3 border-b border-slate-100 text-sm">
+                            <span className="font-medium text-slate-700">
+                                {a.name}
+                                {a.owner !== JOINT_BUDGET && <span className="text-xs text-slate-400 uppercase"> · {member(a.owner).name}</span>}
+                            </span>
+                            <span className={`font-bold ${a.balance < 0 ? 'text-rose-600' : 'text-slate-800'}`}>
+                                {a.balance < 0 && '-'}{formatMoney(Math.abs(a.balance), baseCurrency)}
+                            </span>
+                        </div>
+                    ))}
+                    <div className="flex justify-between items-center px-4 py-3 bg-slate-50 text-sm">
+                        <span className="text-xs font-bold uppercase text-slate-500">Total</span>
+                        <span className={`font-black ${netWorth < 0 ? 'text-rose-600' : 'text-slate-900'}`}>
+                            {netWorth < 0 && '-'}{formatMoney(Math.abs(netWorth), baseCurrency)}
+                        </span>
+                    </div>
+                </div>
+            </div>
+        )}
+
         <div className="mb-6">
             <div className="flex justify-between items-center mb-3">
                 <h3 className="font-bold text-slate-800">Budget Watch</h3>
                 <button onClick={() => setView('budgets')} className="text-blue-500 text-xs font-bold hover:text-blue-700">EDIT</button>
             </div>
             <div className="space-y-3">
-                {budgetStats.slice(0, 3).map((b) => (
+                {watchedBudgets.map((b) => (
                     b.effectiveLimit > 0 && (
-                        <div key={b.category} className="bg-white p-3 rounded-xl border border-slate-100 shadow-sm">
+                        <div key={`${b.owner}:${b.category}`} className="bg-white p-3 rounded-xl border border-slate-100 shadow-sm">
                             <div className="flex justify-between text-xs mb-1.5 font-medium">
-                                <span>{b.category}</span>
+                                <span>{b.category}{b.owner !== 'joint' && <span className="text-slate-400 uppercase"> · {member(b.owner).name}</span>}</span>
                                 <span className={b.pct > 100 ? 'text-rose-500' : 'text-slate-500'}>
                    {Math.round(b.pct)}% used
                  </span>
@@ -396,7 +518,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({
                         </div>
                     )
                 ))}
-                {budgetStats.length === 0 && <p className="text-sm text-slate-400 italic">No budgets set yet.</p>}
+                {watchedBudgets.length === 0 && <p className="text-sm text-slate-400 italic">No budgets set yet.</p>}
             </div>
         </div>
 
@@ -408,22 +530,75 @@ const DashboardView: React.FC<DashboardViewProps> = ({
             )}
         </div>
     </div>
-);
+    );
+};
 
 interface AddTransactionViewProps {
     onSave: (tx: TransactionFormState) => void;
+    initial?: Transaction | null; // When set, the form edits this transaction instead of creating one
+    onCancel?: () => void;
 }
 
-const AddTransactionView: React.FC<AddTransactionViewProps> = ({ onSave }) => {
-    const [form, setForm] = useState<TransactionFormState>({
+const AddTransactionView: React.FC<AddTransactionViewProps> = ({ onSave, initial, onCancel }) => {
+    const { members, categorySplits, baseCurrency, accounts, categories, goals } = useHousehold();
+    // Only categories of the entry's kind are offered, subcategories right after their parent
+    const categoryOptions = (type: TransactionType) =>
+        orderedCategories(categories).filter(c => c.kind === (type === 'income' ? 'income' : 'expense'));
+    const firstCategory = (type: TransactionType) => categoryOptions(type)[0]?.name ?? 'Other';
+    // New shared expenses start from the household's default split for their category
+    const defaultSplit = (category: string): Pick<TransactionFormState, 'splitMode' | 'splitValues'> => {
+        const preset = categorySplits.find(c => c.category === category);
+        return preset
+            ? { splitMode: preset.mode, splitValues: formatSplitValues(preset.mode, preset.values) }
+            : { splitMode: 'equal', splitValues: {} };
+    };
+    const [form, setForm] = useState<TransactionFormState>(initial ? {
+        amount: String(fromMinorUnits(initial.amount)),
+        currency: initial.currency || baseCurrency,
+        category: initial.category,
+        date: initial.date,
+        note: initial.note || '',
+        tags: (initial.tags || []).join(', '),
+        type: initial.type,
+        split: initial.split || 'personal',
+        splitAmong: initial.splitAmong || [],
+        splitMode: initial.splitMode || 'equal',
+        splitValues: formatSplitValues(initial.splitMode || 'equal', initial.splitValues || []),
+        accountId: initial.accountId || '',
+        toAccountId: initial.toAccountId || '',
+        goalId: initial.goalId || ''
+    } : {
         amount: '',
-        category: 'Food & Dining',
+        currency: baseCurrency,
+        category: firstCategory('expense'),
         date: new Date().toISOString().split('T')[0],
         note: '',
+        tags: '',
         type: 'expense',
-        owner: 'me',
-        split: 'shared'
+        split: 'shared',
+        splitAmong: [],
+        ...defaultSplit(firstCategory('expense')),
+        accountId: '',
+        toAccountId: '',
+        goalId: ''
     });
+    const isTransfer = form.type === 'transfer';
+    const showSplitEditor = form.type === 'expense' && form.split === 'shared' && members.length > 1;
+    const splitProblem = showSplitEditor
+        ? splitDraftError({ mode: form.splitMode, values: form.splitValues, splitAmong: form.splitAmong }, toMinorUnits(form.amount))
+        : null;
+    const transferProblem = isTransfer && (!form.accountId || !form.toAccountId || form.accountId === form.toAccountId)
+        ? 'Pick two different accounts'
+        : null;
+
+    // Switching between expense and income moves the entry to a category of the new kind
+    const switchType = (type: TransactionType) => {
+        const keepsCategory = type === 'transfer' || categoryOptions(type).some(c => c.name === form.category);
+        const category = keepsCategory ? form.category : firstCategory(type);
+        // Only expenses count towards a savings goal
+        setForm({ ...form, type, category, goalId: type === 'expense' ? form.goalId : '', ...(!initial && !keepsCategory && defaultSplit(category)) });
+    };
+    const shownCategories = categoryOptions(form.type);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -432,47 +607,68 @@ const AddTransactionView: React.FC<AddTransactionViewProps> = ({ onSave }) => {
 
     return (
         <div className="pb-24 animate-in slide-in-from-bottom duration-300">
-            <h2 className="text-2xl font-black text-slate-800 mb-6">New Entry</h2>
+            <h2 className="text-2xl font-black text-slate-800 mb-6">{initial ? 'Edit Entry' : 'New Entry'}</h2>
             <form onSubmit={handleSubmit} className="space-y-6">
 
                 <div className="bg-slate-100 p-1 rounded-xl flex">
-                    <button type="button" onClick={() => setForm({...form, type: 'expense'})}
-                            className={`flex-1 py-3 rounded-lg font-bold text-sm transition-all ${form.type === 'expense' ? 'bg-white shadow text-rose-500' : 'text-slate-400'}`}>
-                        Expense
-                    </button>
-                    <button type="button" onClick={() => setForm({...form, type: 'income'})}
-                            className={`flex-1 py-3 rounded-lg font-bold text-sm transition-all ${form.type === 'income' ? 'bg-white shadow text-emerald-500' : 'text-slate-400'}`}>
-                        Income
-                    </button>
+                    {/* Editing can't turn an entry into a transfer or back; the account means something different */}
+                    {initial?.type !== 'transfer' && (
+                        <>
+                            <button type="button" onClick={() => switchType('expense')}
+                                    className={`flex-1 py-3 rounded-lg font-bold text-sm transition-all ${form.type === 'expense' ? 'bg-white shadow text-rose-500' : 'text-slate-400'}`}>
+                                Expense
+                            </button>
+                            <button type="button" onClick={() => switchType('income')}
+                                    className={`flex-1 py-3 rounded-lg font-bold text-sm transition-all ${form.type === 'income' ? 'bg-white shadow text-emerald-500' : 'text-slate-400'}`}>
+                                Income
+                            </button>
+                        </>
+                    )}
+                    {accounts.length > 1 && (!initial || initial.type === 'transfer') && (
+                        <button type="button" onClick={() => switchType('transfer')}
+                                className={`flex-1 py-3 rounded-lg font-bold text-sm transition-all ${isTransfer ? 'bg-white shadow text-blue-500' : 'text-slate-400'}`}>
+                            Transfer
+                        </button>
+                    )}
                 </div>
 
                 <div>
                     <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Amount</label>
                     <div className="relative">
-                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-xl">₹</span>
+                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-xl">{currencySymbol(form.currency).trim()}</span>
                         <input
                             type="number" step="0.01"
                             value={form.amount} onChange={e => setForm({...form, amount: e.target.value})}
-                            className="w-full text-4xl font-black p-4 pl-10 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none"
+                            className="w-full text-4xl font-black p-4 pl-12 pr-24 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none"
                             placeholder="0.00" autoFocus
                         />
+                        <select value={form.currency} onChange={e => setForm({...form, currency: e.target.value})}
+                                className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-slate-50 rounded-lg text-sm font-bold text-slate-600 outline-none">
+                            {[...new Set([baseCurrency, ...CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
                     </div>
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                    <div>
-                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Who Paid?</label>
-                        <div className="flex gap-2">
-                            <button type="button" onClick={() => setForm({...form, owner: 'me'})}
-                                    className={`flex-1 py-3 rounded-xl border-2 font-bold text-sm transition-all ${form.owner === 'me' ? 'bg-blue-50 border-blue-500 text-blue-600' : 'bg-white border-slate-100 text-slate-400'}`}>
-                                Me
-                            </button>
-                            <button type="button" onClick={() => setForm({...form, owner: 'her'})}
-                                    className={`flex-1 py-3 rounded-xl border-2 font-bold text-sm transition-all ${form.owner === 'her' ? 'bg-fuchsia-50 border-fuchsia-500 text-fuchsia-600' : 'bg-white border-slate-100 text-slate-400'}`}>
-                                Her
-                            </button>
+                {isTransfer ? (
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">From</label>
+                            <select value={form.accountId} onChange={e => setForm({...form, accountId: e.target.value})}
+                                    className="w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100">
+                                <option value="">Choose…</option>
+                                {accounts.map(a => <option key={a._id} value={a._id}>{a.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">To</label>
+                            <select value={form.toAccountId} onChange={e => setForm({...form, toAccountId: e.target.value})}
+                                    className="w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100">
+                                <option value="">Choose…</option>
+                                {accounts.filter(a => a._id !== form.accountId).map(a => <option key={a._id} value={a._id}>{a.name}</option>)}
+                            </select>
                         </div>
                     </div>
+                ) : (
                     <div>
                         <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Split</label>
                         <div className="flex gap-2">
@@ -485,17 +681,53 @@ const AddTransactionView: React.FC<AddTransactionViewProps> = ({ onSave }) => {
                                 Shared
                             </button>
                         </div>
+                        {showSplitEditor && (
+                            <div className="mt-3">
+                                <SplitEditor
+                                    split={{ mode: form.splitMode, values: form.splitValues, splitAmong: form.splitAmong }}
+                                    onChange={({ mode, values, splitAmong }) => setForm({ ...form, splitMode: mode, splitValues: values, splitAmong })}
+                                    amount={toMinorUnits(form.amount)}
+                                    currency={form.currency}
+                                />
+                            </div>
+                        )}
                     </div>
-                </div>
+                )}
+
+                {!isTransfer && accounts.length > 0 && (
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{form.type === 'income' ? 'Paid Into' : 'Paid From'}</label>
+                        <select value={form.accountId} onChange={e => setForm({...form, accountId: e.target.value})}
+                                className="w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100">
+                            <option value="">No account</option>
+                            {accounts.map(a => <option key={a._id} value={a._id}>{a.name}</option>)}
+                        </select>
+                    </div>
+                )}
 
-                <div className="grid grid-cols-2 gap-4">
+                {form.type === 'expense' && goals.length > 0 && (
                     <div>
-                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Category</label>
-                        <select value={form.category} onChange={e => setForm({...form, category: e.target.value})}
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Towards Goal</label>
+                        <select value={form.goalId} onChange={e => setForm({...form, goalId: e.target.value})}
                                 className="w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100">
-                            {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            <option value="">No goal</option>
+                            {goals.map(g => <option key={g._id} value={g._id}>{g.name}</option>)}
                         </select>
                     </div>
+                )}
+
+                <div className={`grid gap-4 ${isTransfer ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                    {!isTransfer && (
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Category</label>
+                            <select value={form.category} onChange={e => setForm({...form, category: e.target.value, ...(!initial && defaultSplit(e.target.value))})}
+                                    className="w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100">
+                                {/* An edited entry keeps its category even if that has since been deleted */}
+                                {!shownCategories.some(c => c.name === form.category) && <option value={form.category}>{form.category}</option>}
+                                {shownCategories.map(c => <option key={c._id} value={c.name}>{c.parentId ? `— ${c.name}` : c.name}</option>)}
+                            </select>
+                        </div>
+                    )}
                     <div>
                         <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Date</label>
                         <input type="date" value={form.date} onChange={e => setForm({...form, date: e.target.value})}
@@ -506,9 +738,17 @@ const AddTransactionView: React.FC<AddTransactionViewProps> = ({ onSave }) => {
                 <input type="text" placeholder="Note (Optional)" value={form.note} onChange={e => setForm({...form, note: e.target.value})}
                        className="w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100" />
 
-                <button type="submit" className="w-full py-4 bg-slate-900 text-white rounded-xl font-bold shadow-lg hover:bg-slate-800 hover:scale-[1.02] transition-all">
-                    Save Transaction
+                <input type="text" placeholder="Tags, comma separated (e.g. goa-trip, wedding)" value={form.tags} onChange={e => setForm({...form, tags: e.target.value})}
+                       className="w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100" />
+
+                <button type="submit" disabled={!!splitProblem || !!transferProblem} className="w-full py-4 bg-slate-900 text-white rounded-xl font-bold shadow-lg hover:bg-slate-800 hover:scale-[1.02] transition-all disabled:opacity-40 disabled:hover:scale-100">
+                    {initial ? 'Update Transaction' : 'Save Transaction'}
                 </button>
+                {onCancel && (
+                    <button type="button" onClick={onCancel} className="w-full font-bold text-slate-400 text-sm hover:text-slate-600">
+                        Cancel
+                    </button>
+                )}
             </form>
         </div>
     );
@@ -521,22 +761,26 @@ interface BudgetPlannerViewProps {
     selectedDate: Date;
     onPrev: () => void;
     onNext: () => void;
-    budgets: Budget[];
     budgetOwner: BudgetOwner;
     setBudgetOwner: (o: BudgetOwner) => void;
-    onSaveBudget: (category: string, amount: number, owner: BudgetOwner) => void;
+    onSaveBudget: (category: string, owner: BudgetOwner, changes: BudgetChanges) => void;
+    dateRange: DateRange;
+    isPastPeriod: boolean; // Past months show their snapshotted limits read-only
 }
 
 const BudgetPlannerView: React.FC<BudgetPlannerViewProps> = ({
-                                                                 budgetStats, filter, setFilter, selectedDate, onPrev, onNext, budgets, budgetOwner, setBudgetOwner, onSaveBudget
+                                                                 budgetStats, filter, setFilter, selectedDate, onPrev, onNext, budgetOwner, setBudgetOwner, onSaveBudget, dateRange, isPastPeriod
                                                              }) => {
+    const { member, members, baseCurrency } = useHousehold();
+    const monthlyScale = periodScale('monthly', dateRange);
+
     return (
         <div className="pb-24 animate-in fade-in">
             <h2 className="text-2xl font-black text-slate-800 mb-4">Budget Planner</h2>
 
             {/* Budget Owner Tabs */}
             <div className="flex bg-slate-100 p-1 rounded-xl mb-4">
-                {(['joint', 'me', 'her'] as BudgetOwner[]).map((o) => (
+                {[JOINT_BUDGET, ...members.map(m => m.key)].map((o) => (
                     <button
                         key={o}
                         onClick={() => setBudgetOwner(o)}
@@ -546,7 +790,7 @@ const BudgetPlannerView: React.FC<BudgetPlannerViewProps> = ({
                                 : 'text-slate-400 hover:text-slate-600'
                         }`}
                     >
-                        {o}
+                        {budgetOwnerLabel(o, member)}
                     </button>
                 ))}
             </div>
@@ -564,20 +808,17 @@ const BudgetPlannerView: React.FC<BudgetPlannerViewProps> = ({
                 <div>
                     <p className="text-sm text-blue-800 font-bold">How this works</p>
                     <p className="text-xs text-blue-600 mt-1">
-                        Setting budgets for <b>{budgetOwner.toUpperCase()}</b>. Limits scale automatically when viewing Weekly (x0.23).
+                        Setting budgets for <b>{budgetOwnerLabel(budgetOwner, member)}</b>. Limits are prorated to the days in view: a monthly limit counts <b>x{monthlyScale.toFixed(2)}</b> for {formatDateRange(selectedDate, filter)}.
+                        {' '}Rollover budgets carry any unspent (or overspent) amount into next month.
                     </p>
+                    {isPastPeriod && (
+                        <p className="text-xs text-blue-600 mt-1 font-bold">Showing the limits that applied at the time. Go to the current period to edit.</p>
+                    )}
                 </div>
             </div>
 
             <div className="space-y-4">
-                {CATEGORIES.filter(c => c !== 'Income' && c !== 'Savings').map(cat => {
-                    // Safely find the budget item from the array
-                    const budgetItem = Array.isArray(budgets) ? budgets.find(b => b.category === cat && b.owner === budgetOwner) : null;
-                    const monthlyLimit = budgetItem?.amount || 0;
-                    const effectiveLimit = filter === 'weekly' ? monthlyLimit * 0.23 : filter === 'yearly' ? monthlyLimit * 12 : monthlyLimit;
-                    const globalStat = budgetStats.find((s) => s.category === cat) || { spent: 0 };
-                    const pct = effectiveLimit > 0 ? (globalStat.spent / effectiveLimit) * 100 : 0;
-
+                {budgetStats.filter(b => b.owner === budgetOwner).map(({ category: cat, period, limit, rollover, carriedIn, effectiveLimit, spent, pct }) => {
                     return (
                         <div key={cat} className="bg-white p-4 rounded-xl border border-slate-100 shadow-sm">
                             <div className="flex justify-between items-start mb-3">
@@ -585,31 +826,55 @@ const BudgetPlannerView: React.FC<BudgetPlannerViewProps> = ({
                                     <div className={`w-3 h-3 rounded-full ${pct > 100 ? 'bg-rose-500' : 'bg-blue-500'}`}></div>
                                     <div>
                                         <span className="font-bold text-slate-700 block">{cat}</span>
-                                        {filter !== 'monthly' && monthlyLimit > 0 && (
+                                        {limit > 0 && effectiveLimit !== limit && (
                                             <span className="text-[10px] text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded">
-                            {filter} cap: ₹{effectiveLimit.toFixed(0)}
+                            {filter} cap: {formatMoney(effectiveLimit, baseCurrency, 0)} (x{periodScale(period, dateRange).toFixed(2)})
                           </span>
                                         )}
+                                        {carriedIn !== 0 && (
+                                            <span className={`block mt-1 text-[10px] font-bold ${carriedIn > 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+                                                {formatMoney(limit, baseCurrency, 0)} base {carriedIn > 0 ? '+' : '-'} {formatMoney(Math.abs(carriedIn), baseCurrency, 0)} carried in
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
                                 <div className="flex flex-col items-end">
-                                    <label className="text-[10px] uppercase font-bold text-slate-400 mb-1">Monthly Limit</label>
+                                    <select
+                                        value={period}
+                                        disabled={isPastPeriod}
+                                        onChange={(e) => onSaveBudget(cat, budgetOwner, { amount: limit, period: e.target.value as BudgetPeriod, rollover })}
+                                        className="text-[10px] uppercase font-bold text-slate-400 mb-1 bg-transparent outline-none cursor-pointer"
+                                    >
+                                        {BUDGET_PERIODS.map(p => <option key={p} value={p}>{p} Limit</option>)}
+                                    </select>
                                     <div className="relative">
-                                        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">₹</span>
+                                        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">{currencySymbol(baseCurrency)}</span>
                                         <input
                                             type="number"
                                             placeholder="0"
                                             className="w-24 text-right p-2 pl-5 bg-slate-50 rounded-lg text-sm font-bold border border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition-all"
-                                            value={monthlyLimit || ''}
-                                            onChange={(e) => onSaveBudget(cat, Number(e.target.value), budgetOwner)}
+                                            value={limit ? fromMinorUnits(limit) : ''}
+                                            readOnly={isPastPeriod}
+                                            onChange={(e) => onSaveBudget(cat, budgetOwner, { amount: toMinorUnits(e.target.value) || 0, period, rollover })}
                                         />
                                     </div>
+                                    {limit > 0 && (
+                                        <label className="flex items-center gap-1 mt-1 text-[10px] uppercase font-bold text-slate-400 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={rollover}
+                                                disabled={isPastPeriod}
+                                                onChange={(e) => onSaveBudget(cat, budgetOwner, { amount: limit, period, rollover: e.target.checked })}
+                                            />
+                                            Rollover
+                                        </label>
+                                    )}
                                 </div>
                             </div>
-                            {monthlyLimit > 0 && (
+                            {limit > 0 && (
                                 <div className="relative pt-1">
                                     <div className="flex justify-between text-xs mb-1 text-slate-500 font-medium">
-                                        <span>₹{globalStat.spent.toLocaleString()} spent ({formatDateRange(selectedDate, filter)})</span>
+                                        <span>{formatMoney(spent, baseCurrency)} spent ({formatDateRange(selectedDate, filter)})</span>
                                         <span className={pct > 100 ? 'text-rose-500 font-bold' : ''}>{Math.round(pct)}%</span>
                                     </div>
                                     <div className="h-3 w-full bg-slate-100 rounded-full overflow-hidden">
@@ -635,21 +900,35 @@ interface AnalyticsViewProps {
     onNext: () => void;
     onTransactionClick: (t: Transaction) => void;
     onDelete: (id: string) => void;
+    setView: (v: ViewState) => void;
 }
 
 const AnalyticsView: React.FC<AnalyticsViewProps> = ({
-                                                         filteredTransactions, filter, setFilter, selectedDate, onPrev, onNext, onTransactionClick, onDelete
+                                                         filteredTransactions, filter, setFilter, selectedDate, onPrev, onNext, onTransactionClick, onDelete, setView
                                                      }) => {
+    const { baseCurrency, categories, category } = useHousehold();
+    // Subcategories are folded into their parent, which keeps its colour from period to period
     const pieData = useMemo(() => {
         return Object.entries(filteredTransactions.filter((t) => t.type === 'expense').reduce<Record<string, number>>((acc, t) => {
-            acc[t.category] = (acc[t.category] || 0) + Number(t.amount);
+            const name = topLevelName(t.category, categories);
+            acc[name] = (acc[name] || 0) + baseAmountOf(t);
             return acc;
-        }, {})).map(([name, value]) => ({ name, value })).sort((a,b) => b.value - a.value);
-    }, [filteredTransactions]);
+        }, {})).map(([name, value]) => ({ name, value: fromMinorUnits(value) })).sort((a,b) => b.value - a.value);
+    }, [filteredTransactions, categories]);
 
     return (
         <div className="pb-24 animate-in fade-in">
-            <h2 className="text-2xl font-black text-slate-800 mb-6">Analytics</h2>
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-black text-slate-800">Analytics</h2>
+                <div className="flex gap-2">
+                    <button onClick={() => setView('tags')} className="flex items-center gap-1 px-3 py-2 bg-slate-100 rounded-full text-xs font-bold text-slate-600 hover:bg-slate-200 transition">
+                        <Hash size={14} /> Tags
+                    </button>
+                    <button onClick={() => setView('search')} className="p-2 bg-slate-100 rounded-full text-slate-500 hover:bg-slate-200 transition" aria-label="Search">
+                        <Search size={18} />
+                    </button>
+                </div>
+            </div>
             <DateFilterControl
                 filter={filter}
                 setFilter={setFilter}
@@ -665,10 +944,10 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({
                         <ResponsiveContainer width="100%" height="100%">
                             <RePieChart>
                                 <Pie data={pieData} innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value">
-                                    {pieData.map((_e, i) => <Cell key={i} fill={CHART_COLORS[i % CHART_COLORS.length]} />)}
+                                    {pieData.map(e => <Cell key={e.name} fill={category(e.name)?.color ?? COLORS.uncategorized} />)}
                                 </Pie>
                                 {/* @ts-expect-error */}
-                                <Tooltip formatter={(value: number) => `₹${value.toLocaleString()}`} />
+                                <Tooltip formatter={(value: number) => `${currencySymbol(baseCurrency)}${value.toLocaleString()}`} />
                                 <Legend />
                             </RePieChart>
                         </ResponsiveContainer>
@@ -685,6 +964,53 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({
     );
 };
 
+interface SearchViewProps {
+    query: string;
+    onQueryChange: (query: string) => void;
+    onSearch: () => void;
+    results: Transaction[] | null; // null until the first search
+    hasMore: boolean;
+    onLoadMore: () => void;
+    searching: boolean;
+    onTransactionClick: (t: Transaction) => void;
+}
+
+// Searches every period at once; see lib/search.ts for the query syntax
+const SearchView: React.FC<SearchViewProps> = ({ query, onQueryChange, onSearch, results, hasMore, onLoadMore, searching, onTransactionClick }) => {
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSearch();
+    };
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-6">Search</h2>
+            <form onSubmit={handleSubmit} className="relative mb-2">
+                <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input type="search" value={query} onChange={e => onQueryChange(e.target.value)} autoFocus
+                       placeholder="dinner #goa-trip >500"
+                       className="w-full p-3 pl-10 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100" />
+            </form>
+            <p className="text-xs text-slate-400 mb-6">
+                Words match notes, categories and tags. <b>#tag</b> narrows to a tag, <b>&gt;500</b>, <b>&lt;2000</b> or <b>500-2000</b> to an amount range.
+            </p>
+
+            {results && (
+                <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm p-3">
+                    {results.map(t => <TransactionItem key={t._id} t={t} onClick={onTransactionClick} />)}
+                    {results.length === 0 && !searching && <p className="p-4 text-center text-slate-400 text-sm">Nothing matches.</p>}
+                    {hasMore && (
+                        <button onClick={onLoadMore} disabled={searching} className="w-full py-2 text-sm font-bold text-blue-500 hover:text-blue-700 disabled:opacity-40">
+                            Load more
+                        </button>
+                    )}
+                </div>
+            )}
+            {searching && <Loader2 size={20} className="animate-spin mx-auto mt-4 text-slate-400" />}
+        </div>
+    );
+};
+
 interface TodosViewProps {
     todos: Todo[];
     onAdd: (text: string) => void;
@@ -743,12 +1069,19 @@ const TodosView: React.FC<TodosViewProps> = ({ todos, onAdd, onToggle, onDelete
 };
 
 interface SettleModalProps {
-    financials: Financials;
+    payment: Debt; // The suggested payment; the amount can be lowered to record a partial one
     onCancel: () => void;
-    onConfirm: () => void;
+    onConfirm: (amount: number, method: SettlementMethod) => void;
 }
 
-const SettleModal: React.FC<SettleModalProps> = ({ financials, onCancel, onConfirm }) => (
+const SettleModal: React.FC<SettleModalProps> = ({ payment, onCancel, onConfirm }) => {
+    const { member, baseCurrency } = useHousehold();
+    const [amount, setAmount] = useState(String(fromMinorUnits(payment.amount)));
+    const [method, setMethod] = useState<SettlementMethod>('upi');
+    const paise = toMinorUnits(amount);
+    const isValid = !Number.isNaN(paise) && paise > 0 && paise <= payment.amount;
+
+    return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
         <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl">
             <div className="text-center mb-6">
@@ -757,32 +1090,78 @@ const SettleModal: React.FC<SettleModalProps> = ({ financials, onCancel, onConfi
                 </div>
                 <h3 className="text-xl font-black text-slate-800">Settle Up?</h3>
                 <p className="text-slate-500 mt-2">
-                    Record a payment from <b>{financials.settlement.whoOwes === 'me' ? 'Me' : 'Her'}</b> to <b>{financials.settlement.whoOwes === 'me' ? 'Her' : 'Me'}</b> of:
+                    Record a payment from <b>{member(payment.from).name}</b> to <b>{member(payment.to).name}</b> of:
+                </p>
+                <div className="relative mt-4">
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold text-2xl">{currencySymbol(baseCurrency)}</span>
+                    <input
+                        type="number" step="0.01" value={amount} onChange={e => setAmount(e.target.value)}
+                        className="w-full text-4xl font-black text-slate-800 text-center p-3 bg-slate-50 rounded-xl outline-none focus:ring-2 focus:ring-teal-100"
+                    />
+                </div>
+                <p className={`text-xs mt-2 ${isValid ? 'text-slate-400' : 'text-rose-500 font-bold'}`}>
+                    {paise < payment.amount && isValid
+                        ? `Partial payment; ${formatMoney(payment.amount - paise, baseCurrency, 2)} will still be owed`
+                        : `Up to ${formatMoney(payment.amount, baseCurrency, 2)} outstanding`}
                 </p>
-                <p className="text-4xl font-black text-slate-800 mt-4">₹{financials.settlement.amount.toFixed(2)}</p>
+            </div>
+            <div className="bg-slate-100 p-1 rounded-xl flex mb-6">
+                {(Object.keys(SETTLEMENT_METHOD_LABELS) as SettlementMethod[]).map(m => (
+                    <button key={m} type="button" onClick={() => setMethod(m)}
+                            className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all ${method === m ? 'bg-white shadow text-teal-600' : 'text-slate-400'}`}>
+                        {SETTLEMENT_METHOD_LABELS[m]}
+                    </button>
+                ))}
             </div>
             <div className="flex gap-3">
                 <button onClick={onCancel} className="flex-1 py-3 bg-slate-100 font-bold text-slate-600 rounded-xl">Cancel</button>
-                <button onClick={onConfirm} className="flex-1 py-3 bg-teal-500 text-white font-bold rounded-xl shadow-lg shadow-teal-200">Confirm</button>
+                <button onClick={() => onConfirm(paise, method)} disabled={!isValid}
+                        className="flex-1 py-3 bg-teal-500 text-white font-bold rounded-xl shadow-lg shadow-teal-200 disabled:opacity-40">
+                    Confirm
+                </button>
             </div>
         </div>
     </div>
-);
+    );
+};
 
 // --- Main Page Component ---
 
 export default function DuoFinancePage() {
-    const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const [transactions, setTransactions] = useState<Transaction[]>([]); // Selected period only
+    const [summary, setSummary] = useState<Summary>(EMPTY_SUMMARY);
     const [budgets, setBudgets] = useState<Budget[]>([]);
     const [todos, setTodos] = useState<Todo[]>([]);
+    const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
     const [view, setView] = useState<ViewState>('dashboard');
     const [filter, setFilter] = useState<FilterState>('monthly');
     const [selectedDate, setSelectedDate] = useState<Date>(new Date());
     const [loading, setLoading] = useState(true);
-    const [showSettleModal, setShowSettleModal] = useState<boolean>(false);
+    const [settlingPayment, setSettlingPayment] = useState<Debt | null>(null);
+    const [recentSettlement, setRecentSettlement] = useState<string | null>(null); // Id of the settlement that can still be undone
+    const [recentDeletion, setRecentDeletion] = useState<Deletion | null>(null);
+    const [trash, setTrash] = useState<Trash | null>(null);
+    const [syncNotice, setSyncNotice] = useState<string | null>(null);
+    const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+    const [rates, setRates] = useState<ExchangeRate[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]); // With balances, which every entry can change
+    const [goals, setGoals] = useState<Goal[]>([]); // With progress, which every entry can change
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<Transaction[] | null>(null);
+    const [searchCursor, setSearchCursor] = useState<string | null>(null);
+    const [searching, setSearching] = useState(false);
+    const [tagRange, setTagRange] = useState<TagRange>(() => ({ from: `${new Date().getFullYear()}-01-01`, to: toDateKey(new Date()) }));
+    const [tagTotals, setTagTotals] = useState<TagTotal[]>([]);
     const [budgetOwner, setBudgetOwner] = useState<BudgetOwner>('joint');
     const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
     const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
+    const [transactionHistory, setTransactionHistory] = useState<AuditEntry[] | null>(null);
+    const [activity, setActivity] = useState<AuditEntry[]>([]);
+    const [activityCursor, setActivityCursor] = useState<string | null>(null);
+    const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+    const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+    const router = useRouter();
 
     // Confirmation Modal State
     const [confirmModal, setConfirmModal] = useState<{
@@ -793,267 +1172,816 @@ export default function DuoFinancePage() {
         isDanger: boolean;
     }>({ isOpen: false, title: '', message: '', onConfirm: () => {}, isDanger: false });
 
+    // --- Logic ---
+
+    const navigatePeriod = useCallback((direction: -1 | 1) => {
+        const newDate = new Date(selectedDate);
+        if (filter === 'weekly') {
+            newDate.setDate(newDate.getDate() + (direction * 7));
+        } else if (filter === 'monthly') {
+            newDate.setMonth(newDate.getMonth() + direction);
+        } else {
+            newDate.setFullYear(newDate.getFullYear() + direction);
+        }
+        setSelectedDate(newDate);
+    }, [filter, selectedDate]);
+
+    const handlePrev = () => navigatePeriod(-1);
+    const handleNext = () => navigatePeriod(1);
+
+    // Reset date when filter changes
+    useEffect(() => {
+        setSelectedDate(new Date());
+    }, [filter]);
+
+    const dateRange = useMemo(() => getPeriodRange(selectedDate, filter), [filter, selectedDate]);
+
     // --- API Functions ---
 
+    // Signed-out visitors are sent to the login page
+    const loadCurrentUser = useCallback(async () => {
+        try {
+            const res = await fetch('/api/auth/me');
+            if (res.status === 401) return router.replace('/login');
+            const json = await res.json();
+            if (!json.success) return;
+            await setOfflineHousehold(json.data.household._id);
+            setCurrentUser(json.data);
+        } catch (error) {
+            console.error("Failed to load account", error);
+        }
+    }, [router]);
+
+    useEffect(() => {
+        loadCurrentUser();
+    }, [loadCurrentUser]);
+
+    const fetchCategories = useCallback(async () => {
+        try {
+            const res = await fetch('/api/categories');
+            const json = await res.json();
+            if (json.success) setCategories(json.data);
+        } catch (error) {
+            console.error("Failed to load categories", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchCategories();
+    }, [fetchCategories]);
+
+    const updateHousehold = async (changes: Partial<HouseholdProfile> & { categorySplits?: CategorySplit[] }): Promise<string | null> => {
+        const res = await fetch('/api/household', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes)
+        });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Saving the household failed.';
+        await loadCurrentUser();
+        return null;
+    };
+
+    const saveHouseholdProfile = (profile: HouseholdProfile) => updateHousehold(profile);
+    const saveCategorySplits = (categorySplits: CategorySplit[]) => updateHousehold({ categorySplits });
+
+    // The offline copy and any unsent changes are wiped, so the next account on this device can't see or send them
+    const signOut = async () => {
+        const leave = async () => {
+            await clearOfflineStore();
+            await fetch('/api/auth/logout', { method: 'POST' });
+            router.replace('/login');
+        };
+        if (pendingSync === 0) return leave();
+        setConfirmModal({
+            isOpen: true,
+            title: "Sign Out?",
+            message: `${pendingSync} change${pendingSync === 1 ? ' has' : 's have'} not been sent yet and will be lost.`,
+            isDanger: true,
+            onConfirm: async () => {
+                setConfirmModal(prev => ({ ...prev, isOpen: false }));
+                await leave();
+            }
+        });
+    };
+
     const fetchData = useCallback(async () => {
+        // Only the selected period is downloaded; totals and the all-time balances come pre-aggregated.
+        // Offline, everything is read from the copy kept in IndexedDB (see lib/offline-store.ts).
+        const from = toDateKey(dateRange.start);
+        const to = toDateKey(dateRange.end);
+        const period = `from=${from}&to=${to}`;
         try {
-            const [txRes, budgetRes, todoRes] = await Promise.all([
-                fetch('/api/transactions'),
-                fetch('/api/budgets'),
-                fetch('/api/todos')
+            const [txRes, summaryRes, budgetRes, todoRes, accountRes, goalRes] = await Promise.all([
+                cachedFetch(`/api/transactions?${period}`, { collection: 'transactions', from, to }),
+                cachedFetch(`/api/summary?${period}`),
+                fetchBudgets(toMonthKey(dateRange.start)),
+                cachedFetch('/api/todos', { collection: 'todos' }),
+                cachedFetch('/api/accounts'),
+                cachedFetch('/api/goals')
             ]);
+            // The session expired while the page was open
+            if (txRes.status === 401) return router.replace('/login');
+
             const txData = await txRes.json();
+            const summaryData = await summaryRes.json();
             const budgetData = await budgetRes.json();
             const todoData = await todoRes.json();
+            const accountData = await accountRes.json();
+            const goalData = await goalRes.json();
 
             if (txData.success) setTransactions(txData.data);
+            if (summaryData.success) setSummary(summaryData.data);
             if (budgetData.success) {
                 // Ensure budgets is always an array
                 setBudgets(Array.isArray(budgetData.data) ? budgetData.data : []);
             }
             if (todoData.success) setTodos(todoData.data);
+            if (accountData.success) setAccounts(accountData.data);
+            if (goalData.success) setGoals(goalData.data);
         } catch (error) {
             console.error("Failed to fetch data", error);
         } finally {
             setLoading(false);
         }
-    }, []);
+    }, [dateRange, router]);
 
-    // Initial Load & Polling for Real-time Sync
     useEffect(() => {
         fetchData();
-        const interval = setInterval(fetchData, 5000); // Poll every 5 seconds
-        return () => clearInterval(interval);
     }, [fetchData]);
 
+    // Totals, budget progress and balances are aggregated on the server, so streamed transactions
+    // only patch the list and these are refetched once a burst of changes settles
+    const fetchTotals = useCallback(async () => {
+        const period = `from=${toDateKey(dateRange.start)}&to=${toDateKey(dateRange.end)}`;
+        try {
+            const [summaryRes, budgetRes, accountRes, goalRes] = await Promise.all([
+                cachedFetch(`/api/summary?${period}`),
+                fetchBudgets(toMonthKey(dateRange.start)),
+                cachedFetch('/api/accounts'),
+                cachedFetch('/api/goals')
+            ]);
+            const summaryData = await summaryRes.json();
+            const budgetData = await budgetRes.json();
+            const accountData = await accountRes.json();
+            const goalData = await goalRes.json();
+
+            if (summaryData.success) setSummary(summaryData.data);
+            if (budgetData.success) setBudgets(Array.isArray(budgetData.data) ? budgetData.data : []);
+            if (accountData.success) setAccounts(accountData.data);
+            if (goalData.success) setGoals(goalData.data);
+        } catch (error) {
+            console.error("Failed to fetch totals", error);
+        }
+    }, [dateRange]);
+
+    const totalsTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const scheduleTotals = useCallback(() => {
+        if (totalsTimer.current) clearTimeout(totalsTimer.current);
+        totalsTimer.current = setTimeout(fetchTotals, TOTALS_REFRESH_DELAY_MS);
+    }, [fetchTotals]);
+
+    // An edit refused because another member changed the same thing first: show what they saved
+    const handleConflict = (mutation: Mutation) => {
+        setSyncNotice(`${SYNC_SUBJECTS[mutation.collection]} was changed by someone else first; showing their version`);
+        fetchData();
+    };
+
+    // A queued change the server refused; the refetch drops it from the page
+    const handleRejected = (mutation: Mutation, message: string) => {
+        setSyncNotice(`${SYNC_SUBJECTS[mutation.collection]} wasn't saved: ${message}`);
+        fetchData();
+    };
+
+    const { pending: pendingSync, online } = useOutbox(fetchData, handleConflict, handleRejected);
+
+    useEffect(() => {
+        if (!syncNotice) return;
+        const timer = setTimeout(() => setSyncNotice(null), UNDO_WINDOW_MS);
+        return () => clearTimeout(timer);
+    }, [syncNotice]);
+
+    // Real-time sync: what the other members (or this member's other tabs) write arrives over
+    // GET /api/stream, falling back to polling while the stream is down
+    const tombstones = useRef<Record<'transactions' | 'todos', Tombstones>>({ transactions: new Map(), todos: new Map() });
+    useChangeStream({
+        onResync: fetchData,
+        onChange: (change: ChangeEvent) => {
+            if (change.op === 'reset') {
+                fetchData();
+            } else if (change.collection === 'transactions') {
+                const from = toDateKey(dateRange.start);
+                const to = toDateKey(dateRange.end);
+                setTransactions(prev => applyChange(prev, change, tombstones.current.transactions, t => t.date >= from && t.date <= to, byNewestTransaction));
+                scheduleTotals();
+            } else if (change.collection === 'todos') {
+                setTodos(prev => applyChange(prev, change, tombstones.current.todos, undefined, byPendingTodo));
+            } else {
+                scheduleTotals();
+            }
+        }
+    });
+
     // --- Actions ---
 
     const saveTransaction = async (form: TransactionFormState) => {
+        const amount = toMinorUnits(form.amount);
+        if (Number.isNaN(amount) || amount < 0) return;
+
+        const tags = normalizeTags(form.tags);
+        // Transfers aren't split; the server files them under the Transfer category
+        const payload = form.type === 'transfer'
+            ? { ...form, amount, tags, split: undefined, splitAmong: undefined, splitMode: undefined, splitValues: undefined }
+            : { ...form, amount, tags, splitValues: form.splitMode === 'equal' ? undefined : parseSplitValues(form.splitMode, form.splitValues) };
         setLoading(true);
-        await fetch('/api/transactions', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(form)
-        });
+        if (editingTransaction) {
+            const id = editingTransaction._id;
+            const version = editingTransaction.version ?? 0;
+            const edited = { ...editingTransaction, ...payload, version: version + 1 };
+            // Optimistic: swap the edited row in; the fetch below refreshes financials and the payments banner
+            setTransactions(prev => prev.map(t => t._id === id ? edited : t));
+            setEditingTransaction(null);
+            await queueMutation({
+                collection: 'transactions',
+                local: { op: 'put', doc: edited },
+                request: { url: '/api/transactions', method: 'PUT', body: { _id: id, version, ...payload } }
+            });
+        } else {
+            // The id is chosen here so an entry made offline keeps it once it reaches the server
+            const _id = newObjectId();
+            const doc = { ...payload, _id, owner: currentUser?.member };
+            await queueMutation({
+                collection: 'transactions',
+                local: { op: 'put', doc },
+                request: { url: '/api/transactions', method: 'POST', body: { ...payload, _id } }
+            });
+        }
         await fetchData();
         setView('dashboard');
     };
 
+    const editTx = (t: Transaction) => {
+        setEditingTransaction(t);
+        setView('add');
+    };
+
+    const cancelEdit = () => {
+        setEditingTransaction(null);
+        setView('dashboard');
+    };
+
     const deleteTx = useCallback((id: string) => {
         setIsDetailsModalOpen(false); // Close details modal first
+        const deleted = [...transactions, ...(searchResults ?? [])].find(t => t._id === id);
         setConfirmModal({
             isOpen: true,
             title: "Delete Transaction?",
-            message: "This action cannot be undone.",
+            message: "It moves to the trash in Settings, where it can be restored for 30 days.",
             isDanger: true,
             onConfirm: async () => {
                 setConfirmModal(prev => ({ ...prev, isOpen: false }));
                 setLoading(true);
-                await fetch(`/api/transactions?id=${id}`, { method: 'DELETE' });
+                await queueMutation({
+                    collection: 'transactions',
+                    local: { op: 'delete', id },
+                    request: { url: `/api/transactions?id=${id}`, method: 'DELETE' }
+                });
+                if (deleted) setRecentDeletion({ collection: 'transactions', item: deleted });
+                setSearchResults(prev => prev && prev.filter(t => t._id !== id));
                 await fetchData();
             }
         });
-    }, [fetchData]);
+    }, [fetchData, transactions, searchResults]);
 
-    const saveBudget = async (category: string, amount: number, owner: BudgetOwner) => {
+    // The "Undo" offered right after a delete disappears after a few seconds; the trash keeps the item longer
+    useEffect(() => {
+        if (!recentDeletion) return;
+        const timer = setTimeout(() => setRecentDeletion(null), UNDO_WINDOW_MS);
+        return () => clearTimeout(timer);
+    }, [recentDeletion]);
+
+    // Queued like the delete itself, so undoing something deleted offline replays in the right order
+    const restoreItem = async ({ collection, item }: Deletion) => {
+        await queueMutation({
+            collection,
+            local: { op: 'put', doc: item },
+            request: { url: '/api/trash', method: 'PUT', body: { collection, _id: item._id } }
+        });
+        await fetchData();
+    };
+
+    const undoDeletion = async (deletion: Deletion) => {
+        setRecentDeletion(null);
+        await restoreItem(deletion);
+    };
+
+    const budgetTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+    const saveBudget = (category: string, owner: BudgetOwner, changes: BudgetChanges) => {
         // Optimistic Update
-        setBudgets(prev => {
-            const existingIdx = prev.findIndex(b => b.category === category && b.owner === owner);
-            if (existingIdx >= 0) {
-                const newBudgets = [...prev];
-                newBudgets[existingIdx] = { ...newBudgets[existingIdx], amount };
-                return newBudgets;
+        const existing = budgets.find(b => b.category === category && b.owner === owner);
+        // If it doesn't exist, create a local entry; the server matches budgets on category and owner
+        const budget: Budget = existing ? { ...existing, ...changes } : { _id: newObjectId(), category, owner, ...changes };
+        setBudgets(prev => existing ? prev.map(b => b === existing ? budget : b) : [...prev, budget]);
+
+        // The limit is typed digit by digit: only the value it settles on is sent (and audited), once
+        // typing pauses. Fire and forget; the change stream catches up eventually.
+        const key = JSON.stringify([category, owner]);
+        clearTimeout(budgetTimers.current.get(key));
+        budgetTimers.current.set(key, setTimeout(() => {
+            budgetTimers.current.delete(key);
+            // The edit names the version it started from (none for a new budget), and the local copy
+            // moves on to the one the server will store, so the next edit builds on this one.
+            // If someone else saved in between, the server refuses it and onConflict refetches.
+            const saved = { ...budget, version: (budget.version ?? 0) + 1 };
+            setBudgets(prev => prev.map(b => b.category === category && b.owner === owner ? { ...b, version: saved.version } : b));
+            queueMutation({
+                collection: 'budgets',
+                local: { op: 'put', doc: saved },
+                request: { url: '/api/budgets', method: 'POST', body: { category, owner, ...changes, version: budget.version } }
+            });
+        }, BUDGET_SAVE_DELAY_MS));
+    };
+
+    const executeSettlement = async (amount: number, method: SettlementMethod) => {
+        if (!settlingPayment) return;
+        const { from, to } = settlingPayment;
+
+        // Queued like any other entry, so a payment recorded offline is sent once the connection is back
+        const payload = {
+            amount,
+            category: 'Settlement',
+            date: new Date().toISOString().split('T')[0],
+            note: 'Settlement Payment',
+            type: 'settlement' as const,
+            from,
+            to,
+            method,
+            split: 'personal' as const
+        };
+        const _id = newObjectId();
+        const doc = { ...payload, _id, owner: from };
+        setSettlingPayment(null);
+        await queueMutation({
+            collection: 'transactions',
+            local: { op: 'put', doc },
+            request: { url: '/api/transactions', method: 'POST', body: { ...payload, _id } }
+        });
+        setRecentSettlement(_id);
+        await fetchData();
+    };
+
+    // --- Settlement Ledger ---
+
+    const fetchLedger = useCallback(async () => {
+        try {
+            const res = await fetch('/api/settlements');
+            const data = await res.json();
+            if (data.success) setLedger(data.data);
+        } catch (error) {
+            console.error("Failed to fetch settlements", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (view === 'settlements') fetchLedger();
+    }, [view, fetchLedger]);
+
+    // The "Undo" offered right after settling disappears after a few seconds
+    useEffect(() => {
+        if (!recentSettlement) return;
+        const timer = setTimeout(() => setRecentSettlement(null), UNDO_WINDOW_MS);
+        return () => clearTimeout(timer);
+    }, [recentSettlement]);
+
+    const undoSettlement = async (id: string) => {
+        setRecentSettlement(null);
+        await queueMutation({
+            collection: 'transactions',
+            local: { op: 'delete', id },
+            request: { url: `/api/transactions?id=${id}`, method: 'DELETE' }
+        });
+        await Promise.all([fetchData(), fetchLedger()]);
+    };
+
+    const confirmUndoSettlement = (id: string) => {
+        setConfirmModal({
+            isOpen: true,
+            title: "Undo Settlement?",
+            message: "The payment is removed and what it covered is owed again.",
+            isDanger: true,
+            onConfirm: async () => {
+                setConfirmModal(prev => ({ ...prev, isOpen: false }));
+                await undoSettlement(id);
             }
-            // If it doesn't exist, create a temporary entry
-            return [...prev, { _id: 'temp', category, amount, owner }];
         });
+    };
+
+    // --- Recurring Actions ---
+
+    const fetchRecurring = useCallback(async () => {
+        try {
+            const res = await fetch('/api/recurring');
+            const data = await res.json();
+            if (data.success) setRecurring(data.data);
+        } catch (error) {
+            console.error("Failed to fetch recurring entries", error);
+        }
+    }, []);
 
-        // Fire and forget (poller will catch up eventually, avoiding input glitches)
-        await fetch('/api/budgets', {
+    // Create any entries that fell due since the last visit; the poller picks them up
+    useEffect(() => {
+        fetch('/api/recurring/generate', { method: 'POST' }).catch(error => console.error("Failed to generate recurring entries", error));
+    }, []);
+
+    useEffect(() => {
+        if (view === 'recurring') fetchRecurring();
+    }, [view, fetchRecurring]);
+
+    const updateRecurring = async (body: Record<string, unknown>): Promise<string | null> => {
+        const res = await fetch('/api/recurring', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Updating the schedule failed.';
+        await fetchRecurring();
+        return null;
+    };
+
+    const createRecurring = async (rule: RecurringDraft): Promise<string | null> => {
+        const res = await fetch('/api/recurring', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ category, amount, owner })
+            body: JSON.stringify(rule)
         });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Adding the schedule failed.';
+        await fetchRecurring();
+        // A schedule starting today or earlier is due immediately
+        await fetch('/api/recurring/generate', { method: 'POST' });
+        fetchData();
+        return null;
     };
 
-    const executeSettlement = async () => {
-        const debt = financials.settlement.amount;
-        const payer = financials.settlement.whoOwes;
-        if (debt <= 0 || payer === 'none') return;
+    const deleteRecurring = (id: string) => {
+        setConfirmModal({
+            isOpen: true,
+            title: "Delete Schedule?",
+            message: "Entries already created stay in your history.",
+            isDanger: true,
+            onConfirm: async () => {
+                setConfirmModal(prev => ({ ...prev, isOpen: false }));
+                setRecurring(prev => prev.filter(r => r._id !== id));
+                await fetch(`/api/recurring?id=${id}`, { method: 'DELETE' });
+            }
+        });
+    };
+
+    // --- Import Actions ---
+
+    const fetchExisting = useCallback(async (from: string, to: string): Promise<Transaction[]> => {
+        const res = await fetch(`/api/transactions?from=${from}&to=${to}`);
+        const data = await res.json();
+        return data.success ? data.data : [];
+    }, []);
+
+    // The batch is all or nothing: if any row is rejected nothing is imported and the view stays open
+    const importTransactions = async (rows: ImportRow[]): Promise<string | null> => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/transactions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(rows)
+            });
+            const json = await res.json();
+            if (!json.success) return json.message || 'Importing the statement failed.';
+            await fetchData();
+            setView('dashboard');
+            return null;
+        } catch (error) {
+            console.error("Failed to import transactions", error);
+            return 'Importing the statement failed. Check your connection and try again.';
+        } finally {
+            setLoading(false);
+        }
+    };
 
-        await fetch('/api/transactions', {
+    const restoreArchive = async (archive: unknown, mode: RestoreMode): Promise<string> => {
+        const res = await fetch('/api/restore', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                amount: debt.toFixed(2),
-                category: 'Settlement',
-                date: new Date().toISOString().split('T')[0],
-                note: 'Settlement Payment',
-                type: 'settlement',
-                from: payer,
-                to: payer === 'me' ? 'her' : 'me',
-                owner: payer,
-                split: 'personal'
-            })
+            body: JSON.stringify({ mode, archive })
         });
-        setShowSettleModal(false);
-        fetchData();
+        const json = await res.json();
+        if (!json.success) return json.message || 'Restore failed.';
+
+        await fetchData();
+        const { transactions, budgets, todos } = json.data;
+        return `Restored ${transactions} transactions, ${budgets} budgets and ${todos} todos.`;
     };
 
-    // --- Todo Actions ---
-    const addTodo = async (text: string) => {
-        // Optimistic
-        const tempId = Date.now().toString();
-        setTodos(prev => [{ _id: tempId, text, completed: false, createdBy: 'me' }, ...prev]);
+    // --- Currency Actions ---
 
-        await fetch('/api/todos', {
+    const fetchRates = useCallback(async () => {
+        try {
+            const res = await fetch('/api/exchange-rates');
+            const data = await res.json();
+            if (data.success) setRates(data.data);
+        } catch (error) {
+            console.error("Failed to fetch exchange rates", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (view === 'currencies') fetchRates();
+    }, [view, fetchRates]);
+
+    const saveRates = async (input: RateInput[]): Promise<string> => {
+        const res = await fetch('/api/exchange-rates', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ text })
+            body: JSON.stringify(input)
         });
-        fetchData();
+        const json = await res.json();
+        if (!json.success) return json.message || 'Saving rates failed.';
+        await fetchRates();
+        return `Saved ${json.data.saved} rate${json.data.saved === 1 ? '' : 's'}.`;
     };
 
-    const toggleTodo = async (id: string, current: boolean) => {
-        setTodos(prev => prev.map(t => t._id === id ? { ...t, completed: !current } : t));
-        await fetch('/api/todos', {
+    const setBaseCurrency = async (baseCurrency: string): Promise<string> => {
+        const res = await fetch('/api/household', {
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ _id: id, completed: !current })
+            body: JSON.stringify({ baseCurrency })
         });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Changing the base currency failed.';
+        await loadCurrentUser();
+        return `Amounts are now kept in ${baseCurrency}.`;
     };
 
-    const deleteTodo = async (id: string) => {
-        setTodos(prev => prev.filter(t => t._id !== id));
-        await fetch(`/api/todos?id=${id}`, { method: 'DELETE' });
+    const deleteRate = async (id: string) => {
+        setRates(prev => prev.filter(r => r._id !== id));
+        await fetch(`/api/exchange-rates?id=${id}`, { method: 'DELETE' });
     };
 
-    const handleTransactionClick = (t: Transaction) => {
-        setSelectedTransaction(t);
-        setIsDetailsModalOpen(true);
+    // --- Account Actions ---
+
+    const createAccount = async (input: AccountInput): Promise<string | null> => {
+        const res = await fetch('/api/accounts', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(input)
+        });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Adding the account failed.';
+        await fetchData();
+        return null;
     };
 
-    // --- Logic ---
+    const deleteAccount = async (id: string): Promise<string | null> => {
+        const res = await fetch(`/api/accounts?id=${id}`, { method: 'DELETE' });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Deleting the account failed.';
+        setAccounts(prev => prev.filter(a => a._id !== id));
+        return null;
+    };
 
-    const navigatePeriod = useCallback((direction: -1 | 1) => {
-        const newDate = new Date(selectedDate);
-        if (filter === 'weekly') {
-            newDate.setDate(newDate.getDate() + (direction * 7));
-        } else if (filter === 'monthly') {
-            newDate.setMonth(newDate.getMonth() + direction);
-        } else {
-            newDate.setFullYear(newDate.getFullYear() + direction);
+    // --- Goal Actions ---
+
+    const createGoal = async (input: GoalInput): Promise<string | null> => {
+        const res = await fetch('/api/goals', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(input)
+        });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Adding the goal failed.';
+        await fetchTotals();
+        return null;
+    };
+
+    const deleteGoal = async (id: string): Promise<string | null> => {
+        const res = await fetch(`/api/goals?id=${id}`, { method: 'DELETE' });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Deleting the goal failed.';
+        setGoals(prev => prev.filter(g => g._id !== id));
+        return null;
+    };
+
+    // --- Search ---
+
+    // A cursor continues the previous search; without one the results start over
+    const runSearch = async (query: string, cursor: string | null = null) => {
+        const params = parseSearchQuery(query);
+        if ([...params.keys()].length === 0) return;
+        params.set('limit', String(SEARCH_PAGE_SIZE));
+        if (cursor) params.set('cursor', cursor);
+
+        setSearching(true);
+        try {
+            const res = await fetch(`/api/transactions?${params}`);
+            const json = await res.json();
+            if (json.success) {
+                setSearchResults(prev => cursor && prev ? [...prev, ...json.data] : json.data);
+                setSearchCursor(json.nextCursor);
+            }
+        } catch (error) {
+            console.error("Failed to search transactions", error);
+        } finally {
+            setSearching(false);
         }
-        setSelectedDate(newDate);
-    }, [filter, selectedDate]);
+    };
 
-    const handlePrev = () => navigatePeriod(-1);
-    const handleNext = () => navigatePeriod(1);
+    const searchTag = (tag: string) => {
+        setSearchQuery(`#${tag}`);
+        setView('search');
+        runSearch(`#${tag}`);
+    };
+
+    const fetchTagTotals = useCallback(async () => {
+        const params = new URLSearchParams();
+        if (tagRange.from) params.set('from', tagRange.from);
+        if (tagRange.to) params.set('to', tagRange.to);
+        try {
+            const res = await fetch(`/api/tags?${params}`);
+            const json = await res.json();
+            if (json.success) setTagTotals(json.data);
+        } catch (error) {
+            console.error("Failed to fetch tag totals", error);
+        }
+    }, [tagRange]);
 
-    // Reset date when filter changes
     useEffect(() => {
-        setSelectedDate(new Date());
-    }, [filter]);
+        if (view === 'tags') fetchTagTotals();
+    }, [view, fetchTagTotals]);
 
-    const dateRange = useMemo(() => {
-        const start = new Date(selectedDate);
-        const end = new Date(selectedDate);
+    // --- Category Actions ---
 
-        if (filter === 'weekly') {
-            const day = start.getDay();
-            const diff = start.getDate() - day + (day === 0 ? -6 : 1);
-            start.setDate(diff);
-            start.setHours(0,0,0,0);
-            end.setTime(start.getTime());
-            end.setDate(start.getDate() + 6);
-            end.setHours(23,59,59,999);
-        } else if (filter === 'monthly') {
-            start.setDate(1);
-            start.setHours(0,0,0,0);
-            end.setMonth(end.getMonth() + 1, 0);
-            end.setHours(23,59,59,999);
-        } else {
-            start.setMonth(0, 1);
-            start.setHours(0,0,0,0);
-            end.setMonth(11, 31);
-            end.setHours(23,59,59,999);
-        }
-        return { start, end };
-    }, [filter, selectedDate]);
+    // Renames and merges rewrite transactions, budgets and default splits, so those are reloaded too
+    const sendCategoryChange = async (url: string, method: string, body?: unknown): Promise<string | null> => {
+        const res = await fetch(url, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            ...(body !== undefined && { body: JSON.stringify(body) })
+        });
+        const json = await res.json();
+        if (!json.success) return json.message || 'Saving the category failed.';
+        await Promise.all([fetchCategories(), fetchData(), loadCurrentUser()]);
+        return null;
+    };
+
+    const createCategory = (draft: CategoryDraft) => sendCategoryChange('/api/categories', 'POST', draft);
+    const updateCategory = (id: string, draft: CategoryDraft) => sendCategoryChange('/api/categories', 'PUT', { _id: id, ...draft });
+    const deleteCategory = (id: string) => sendCategoryChange(`/api/categories?id=${id}`, 'DELETE');
+    const mergeCategories = (sourceId: string, targetId: string) =>
+        sendCategoryChange('/api/categories/merge', 'POST', { sourceId, targetId });
 
-    const filteredTransactions = useMemo(() => {
-        return transactions.filter(t => {
-            const [y, m, d] = t.date.split('-').map(Number);
-            const tDate = new Date(y, m - 1, d);
-            tDate.setHours(0, 0, 0, 0);
-            return tDate >= dateRange.start && tDate <= dateRange.end;
+    // --- Todo Actions ---
+    const addTodo = async (text: string) => {
+        // Optimistic
+        const todo = { _id: newObjectId(), text, completed: false, createdBy: currentUser?.member ?? 'me', createdAt: new Date().toISOString(), version: 0 };
+        setTodos(prev => [todo, ...prev]);
+
+        await queueMutation({
+            collection: 'todos',
+            local: { op: 'put', doc: todo },
+            request: { url: '/api/todos', method: 'POST', body: { _id: todo._id, text } }
         });
-    }, [transactions, dateRange]);
-
-    const financials = useMemo<Financials>(() => {
-        let income = 0;
-        let expense = 0;
-        let meSharedPaid = 0;
-        let herSharedPaid = 0;
-        let meSettledToHer = 0;
-        let herSettledToMe = 0;
-
-        // View based stats
-        filteredTransactions.forEach(t => {
-            if (t.type === 'settlement') return;
-            const val = Number(t.amount);
-            if (t.type === 'income') income += val;
-            else expense += val;
+        fetchData();
+    };
+
+    const toggleTodo = async (id: string, current: boolean) => {
+        const todo = todos.find(t => t._id === id);
+        if (!todo) return;
+        const version = todo.version ?? 0;
+        const toggled = { ...todo, completed: !current, version: version + 1 };
+        setTodos(prev => prev.map(t => t._id === id ? toggled : t));
+        // Refused if someone else changed it first, rather than overwriting their change
+        await queueMutation({
+            collection: 'todos',
+            local: { op: 'put', doc: toggled },
+            request: { url: '/api/todos', method: 'PUT', body: { _id: id, version, completed: !current } }
         });
+    };
 
-        // All time stats for settlement
-        transactions.forEach(t => {
-            const val = Number(t.amount);
-            if (t.type === 'settlement') {
-                if (t.from === 'me' && t.to === 'her') meSettledToHer += val;
-                if (t.from === 'her' && t.to === 'me') herSettledToMe += val;
-            }
-            else if (t.type === 'expense' && t.split === 'shared') {
-                if (t.owner === 'me') meSharedPaid += val;
-                if (t.owner === 'her') herSharedPaid += val;
+    const deleteTodo = async (id: string) => {
+        const deleted = todos.find(t => t._id === id);
+        setTodos(prev => prev.filter(t => t._id !== id));
+        await queueMutation({
+            collection: 'todos',
+            local: { op: 'delete', id },
+            request: { url: `/api/todos?id=${id}`, method: 'DELETE' }
+        });
+        if (deleted) setRecentDeletion({ collection: 'todos', item: deleted });
+    };
+
+    // --- Trash ---
+
+    const fetchTrash = useCallback(async () => {
+        try {
+            const res = await fetch('/api/trash');
+            const data = await res.json();
+            if (data.success) setTrash(data.data);
+        } catch (error) {
+            console.error("Failed to fetch trash", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (view === 'trash') fetchTrash();
+    }, [view, fetchTrash]);
+
+    const restoreTrashItem = async (collection: TrashCollection, id: string) => {
+        const item = collection === 'transactions'
+            ? trash?.transactions.find(t => t._id === id)
+            : trash?.todos.find(t => t._id === id);
+        if (!item) return;
+        const restored = { ...item, deletedAt: undefined, deletedBy: undefined };
+        await restoreItem(collection === 'transactions'
+            ? { collection, item: restored as Transaction }
+            : { collection, item: restored as Todo });
+        await fetchTrash();
+    };
+
+    const purgeTrashItem = (collection: TrashCollection, id: string) => {
+        setConfirmModal({
+            isOpen: true,
+            title: "Delete Forever?",
+            message: "This action cannot be undone.",
+            isDanger: true,
+            onConfirm: async () => {
+                setConfirmModal(prev => ({ ...prev, isOpen: false }));
+                await fetch(`/api/trash?collection=${collection}&id=${id}`, { method: 'DELETE' });
+                await fetchTrash();
             }
         });
+    };
+
+    const handleTransactionClick = async (t: Transaction) => {
+        setSelectedTransaction(t);
+        setTransactionHistory(null);
+        setIsDetailsModalOpen(true);
+        try {
+            const res = await fetch(`/api/activity?entityId=${t._id}`);
+            const json = await res.json();
+            if (json.success) setTransactionHistory(json.data);
+        } catch (error) {
+            console.error("Failed to fetch transaction history", error);
+        }
+    };
+
+    // --- Activity ---
 
-        const baseDebt = (herSharedPaid / 2) - (meSharedPaid / 2);
-        const netDebt = baseDebt - meSettledToHer + herSettledToMe;
-
-        return {
-            income,
-            expense,
-            balance: income - expense,
-            settlement: {
-                amount: Math.abs(netDebt),
-                whoOwes: netDebt > 0.01 ? 'me' : netDebt < -0.01 ? 'her' : 'none',
-                raw: netDebt
+    // A cursor continues the feed; without one it starts again from the newest entry
+    const fetchActivity = useCallback(async (cursor: string | null = null) => {
+        try {
+            const res = await fetch(`/api/activity?limit=${ACTIVITY_PAGE_SIZE}${cursor ? `&before=${cursor}` : ''}`);
+            const json = await res.json();
+            if (json.success) {
+                setActivity(prev => cursor ? [...prev, ...json.data] : json.data);
+                setActivityCursor(json.nextCursor);
             }
-        };
-    }, [filteredTransactions, transactions]);
-
-    const budgetStats = useMemo<BudgetStat[]>(() => {
-        const usage: Record<string, number> = {};
-        filteredTransactions
-            .filter(t => t.type === 'expense')
-            .forEach(t => {
-                usage[t.category] = (usage[t.category] || 0) + Number(t.amount);
-            });
+        } catch (error) {
+            console.error("Failed to fetch activity", error);
+        }
+    }, []);
 
-        const scale = filter === 'weekly' ? 0.23 : filter === 'yearly' ? 12 : 1;
+    useEffect(() => {
+        if (view === 'activity') fetchActivity();
+    }, [view, fetchActivity]);
 
-        return CATEGORIES.map(cat => ({
-            category: cat,
-            monthlyLimit: 0, // Placeholder, calculated in view
-            effectiveLimit: 0,
-            spent: usage[cat] || 0,
-            pct: 0
-        }));
-    }, [filteredTransactions, filter]);
+    const financials = summary.financials;
+
+    const categoryNames = useMemo(() => orderedCategories(categories).map(c => c.name), [categories]);
+    const expenseCategories = useMemo(() => orderedCategories(categories).filter(c => c.kind === 'expense').map(c => c.name), [categories]);
+    // Categories that can carry a spending limit; subcategories count towards their parent's
+    const budgetCategories = useMemo(
+        () => orderedCategories(categories).filter(c => !c.parentId && c.kind === 'expense' && c.budgeted).map(c => c.name),
+        [categories]
+    );
+
+    const budgetStats = useMemo<BudgetStat[]>(() => evaluateBudgets({
+        budgets,
+        owners: [JOINT_BUDGET, ...(currentUser?.household.members.map(m => m.key) ?? [])],
+        spending: summary.categories.map(s => ({ ...s, category: topLevelName(s.category, categories) })),
+        categories: budgetCategories,
+        range: dateRange,
+        includeCarry: filter === 'monthly'
+    }), [budgets, summary, dateRange, filter, currentUser, categories, budgetCategories]);
 
     return (
+        <HouseholdProvider
+            members={currentUser?.household.members ?? []}
+            currentMember={currentUser?.member ?? null}
+            categorySplits={currentUser?.household.categorySplits ?? []}
+            baseCurrency={currentUser?.household.baseCurrency ?? DEFAULT_CURRENCY}
+            accounts={accounts}
+            categories={categories}
+            goals={goals}
+        >
         <div className="min-h-screen bg-slate-50 text-slate-900 font-sans selection:bg-blue-100">
             <div className="max-w-md mx-auto min-h-screen bg-slate-50 relative shadow-2xl">
 
@@ -1066,17 +1994,26 @@ export default function DuoFinancePage() {
                             selectedDate={selectedDate}
                             onPrev={handlePrev}
                             onNext={handleNext}
-                            filteredTransactions={filteredTransactions}
+                            filteredTransactions={transactions}
                             budgetStats={budgetStats}
                             setView={setView}
-                            setShowSettleModal={setShowSettleModal}
+                            onSettle={setSettlingPayment}
                             onTransactionClick={handleTransactionClick}
                             onDelete={deleteTx} // Pass deleteTx to DashboardView
                             loading={loading}
+                            pendingSync={pendingSync}
+                            online={online}
                         />
                     )}
 
-                    {view === 'add' && <AddTransactionView onSave={saveTransaction} />}
+                    {view === 'add' && (
+                        <AddTransactionView
+                            key={editingTransaction?._id ?? 'new'}
+                            onSave={saveTransaction}
+                            initial={editingTransaction}
+                            onCancel={editingTransaction ? cancelEdit : undefined}
+                        />
+                    )}
 
                     {view === 'budgets' && (
                         <BudgetPlannerView
@@ -1086,16 +2023,17 @@ export default function DuoFinancePage() {
                             selectedDate={selectedDate}
                             onPrev={handlePrev}
                             onNext={handleNext}
-                            budgets={budgets}
                             budgetOwner={budgetOwner}
                             setBudgetOwner={setBudgetOwner}
                             onSaveBudget={saveBudget}
+                            dateRange={dateRange}
+                            isPastPeriod={toMonthKey(dateRange.end) < toMonthKey(new Date())}
                         />
                     )}
 
                     {view === 'analytics' && (
                         <AnalyticsView
-                            filteredTransactions={filteredTransactions}
+                            filteredTransactions={transactions}
                             filter={filter}
                             setFilter={setFilter}
                             selectedDate={selectedDate}
@@ -1103,6 +2041,30 @@ export default function DuoFinancePage() {
                             onNext={handleNext}
                             onDelete={deleteTx}
                             onTransactionClick={handleTransactionClick}
+                            setView={setView}
+                        />
+                    )}
+
+                    {view === 'search' && (
+                        <SearchView
+                            query={searchQuery}
+                            onQueryChange={setSearchQuery}
+                            onSearch={() => runSearch(searchQuery)}
+                            results={searchResults}
+                            hasMore={!!searchCursor}
+                            onLoadMore={() => runSearch(searchQuery, searchCursor)}
+                            searching={searching}
+                            onTransactionClick={handleTransactionClick}
+                        />
+                    )}
+
+                    {view === 'tags' && (
+                        <TagTotalsView
+                            totals={tagTotals}
+                            range={tagRange}
+                            onRangeChange={setTagRange}
+                            onTagClick={searchTag}
+                            onBack={() => setView('analytics')}
                         />
                     )}
 
@@ -1115,6 +2077,93 @@ export default function DuoFinancePage() {
                         />
                     )}
 
+                    {view === 'recurring' && (
+                        <RecurringView
+                            rules={recurring}
+                            categories={categoryNames}
+                            onCreate={createRecurring}
+                            onSetPaused={(id, paused) => updateRecurring({ _id: id, paused })}
+                            onSkip={(id, date) => updateRecurring({ _id: id, skipDate: date })}
+                            onUnskip={(id, date) => updateRecurring({ _id: id, unskipDate: date })}
+                            onDelete={deleteRecurring}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
+                    {view === 'settlements' && (
+                        <SettlementLedgerView
+                            entries={ledger}
+                            onUndo={confirmUndoSettlement}
+                            onBack={() => setView('dashboard')}
+                        />
+                    )}
+
+                    {view === 'currencies' && (
+                        <ExchangeRatesView
+                            rates={rates}
+                            onSave={saveRates}
+                            onSetBaseCurrency={setBaseCurrency}
+                            onDelete={deleteRate}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
+                    {view === 'categories' && (
+                        <CategoriesView
+                            categories={categories}
+                            onCreate={createCategory}
+                            onUpdate={updateCategory}
+                            onDelete={deleteCategory}
+                            onMerge={mergeCategories}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
+                    {view === 'accounts' && (
+                        <AccountsView
+                            accounts={accounts}
+                            onCreate={createAccount}
+                            onDelete={deleteAccount}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
+                    {view === 'goals' && (
+                        <GoalsView
+                            goals={goals}
+                            onCreate={createGoal}
+                            onDelete={deleteGoal}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
+                    {view === 'activity' && (
+                        <ActivityView
+                            entries={activity}
+                            hasMore={!!activityCursor}
+                            onLoadMore={() => fetchActivity(activityCursor)}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
+                    {view === 'trash' && (
+                        <TrashView
+                            trash={trash}
+                            onRestore={restoreTrashItem}
+                            onPurge={purgeTrashItem}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
+                    {view === 'import' && (
+                        <CsvImportView
+                            categories={categoryNames}
+                            fetchExisting={fetchExisting}
+                            onImport={importTransactions}
+                            onBack={() => setView('settings')}
+                        />
+                    )}
+
                     {view === 'settings' && (
                         <div className="pt-10 text-center animate-in fade-in">
                             <h2 className="font-bold text-xl mb-4">Settings</h2>
@@ -1122,15 +2171,146 @@ export default function DuoFinancePage() {
                                 <p className="text-sm text-slate-500 mb-1">Database Status</p>
                                 <div className="font-bold text-green-600 flex items-center gap-2"><div className="w-2 h-2 bg-green-500 rounded-full"></div> Connected to MongoDB</div>
                             </div>
+                            {currentUser && (
+                                <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left">
+                                    <div className="flex items-center gap-3 mb-3">
+                                        <Users size={20} className="text-slate-400" />
+                                        <div>
+                                            <p className="font-bold text-slate-700">{currentUser.household.name}</p>
+                                            <p className="text-sm text-slate-500">Signed in as {currentUser.name} ({currentUser.email})</p>
+                                        </div>
+                                    </div>
+                                    <HouseholdProfileForm household={currentUser.household} onSave={saveHouseholdProfile} />
+                                    {currentUser.household.members.length < 2 && (
+                                        <p className="text-sm text-slate-500 mt-4">
+                                            Invite your partner with code <span className="font-mono font-bold text-slate-800 bg-slate-100 px-2 py-0.5 rounded">{currentUser.household.inviteCode}</span>
+                                        </p>
+                                    )}
+                                    <button onClick={signOut} className="flex items-center gap-2 mt-4 text-sm font-bold text-rose-600 hover:text-rose-700">
+                                        <LogOut size={16} /> Sign Out
+                                    </button>
+                                </div>
+                            )}
+                            {currentUser && currentUser.household.members.length > 1 && (
+                                <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left">
+                                    <div className="flex items-center gap-3 mb-3">
+                                        <Percent size={20} className="text-slate-400" />
+                                        <div>
+                                            <p className="font-bold text-slate-700">Default Splits</p>
+                                            <p className="text-sm text-slate-500">How shared expenses are divided per category</p>
+                                        </div>
+                                    </div>
+                                    <CategorySplitsForm
+                                        categories={expenseCategories}
+                                        categorySplits={currentUser.household.categorySplits}
+                                        onSave={saveCategorySplits}
+                                    />
+                                </div>
+                            )}
+                            <button onClick={() => setView('activity')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <Activity size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Activity</p>
+                                    <p className="text-sm text-slate-500">Who added, changed or deleted what</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('recurring')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <Repeat size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Recurring & Bills</p>
+                                    <p className="text-sm text-slate-500">Rent, salaries and subscriptions</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('settlements')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <History size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Settlement History</p>
+                                    <p className="text-sm text-slate-500">Every payment between members</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('categories')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <Tags size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Categories</p>
+                                    <p className="text-sm text-slate-500">Icons, colours, subcategories and merging</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('accounts')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <Landmark size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Accounts</p>
+                                    <p className="text-sm text-slate-500">Bank accounts, cards, cash and wallets</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('goals')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <PiggyBank size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Savings Goals</p>
+                                    <p className="text-sm text-slate-500">What you are saving towards and who put in what</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('currencies')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <Coins size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Currencies</p>
+                                    <p className="text-sm text-slate-500">Base currency and exchange rates</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('import')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <Upload size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Import Bank Statement</p>
+                                    <p className="text-sm text-slate-500">Add many transactions from a CSV</p>
+                                </div>
+                            </button>
+                            <button onClick={() => setView('trash')} className="w-full bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left flex items-center gap-3 hover:bg-slate-50 transition-colors">
+                                <Trash2 size={20} className="text-slate-400" />
+                                <div>
+                                    <p className="font-bold text-slate-700">Trash</p>
+                                    <p className="text-sm text-slate-500">Restore deleted transactions and todos</p>
+                                </div>
+                            </button>
+                            <BackupPanel onRestore={restoreArchive} />
                             <button onClick={() => setView('dashboard')} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Home</button>
                         </div>
                     )}
                 </main>
 
-                {showSettleModal && (
+                {recentSettlement && (
+                    <div className="fixed bottom-24 left-0 right-0 max-w-md mx-auto px-4 z-40 animate-in slide-in-from-bottom">
+                        <div className="bg-slate-900 text-white rounded-xl px-4 py-3 flex justify-between items-center shadow-lg">
+                            <span className="text-sm font-medium">Settlement recorded</span>
+                            <button onClick={() => undoSettlement(recentSettlement)} className="flex items-center gap-1 text-sm font-bold text-teal-400 hover:text-teal-300">
+                                <Undo2 size={14} /> Undo
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {syncNotice && (
+                    <div className="fixed top-4 left-0 right-0 max-w-md mx-auto px-4 z-40 animate-in slide-in-from-top">
+                        <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl px-4 py-3 flex items-center gap-2 shadow-lg">
+                            <AlertTriangle size={16} className="shrink-0" />
+                            <span className="text-sm font-medium">{syncNotice}</span>
+                        </div>
+                    </div>
+                )}
+
+                {recentDeletion && (
+                    <div className="fixed bottom-24 left-0 right-0 max-w-md mx-auto px-4 z-40 animate-in slide-in-from-bottom">
+                        <div className="bg-slate-900 text-white rounded-xl px-4 py-3 flex justify-between items-center shadow-lg">
+                            <span className="text-sm font-medium">{recentDeletion.collection === 'transactions' ? 'Transaction' : 'Todo'} moved to trash</span>
+                            <button onClick={() => undoDeletion(recentDeletion)} className="flex items-center gap-1 text-sm font-bold text-teal-400 hover:text-teal-300">
+                                <Undo2 size={14} /> Undo
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {settlingPayment && (
                     <SettleModal
-                        financials={financials}
-                        onCancel={() => setShowSettleModal(false)}
+                        payment={settlingPayment}
+                        onCancel={() => setSettlingPayment(null)}
                         onConfirm={executeSettlement}
                     />
                 )}
@@ -1148,7 +2328,9 @@ export default function DuoFinancePage() {
                     isOpen={isDetailsModalOpen}
                     onClose={() => setIsDetailsModalOpen(false)}
                     transaction={selectedTransaction}
+                    history={transactionHistory}
                     onDelete={deleteTx}
+                    onEdit={editTx}
                 />
 
                 {/* Bottom Nav */}
@@ -1164,7 +2346,7 @@ export default function DuoFinancePage() {
                     </button>
 
                     <div className="relative -top-6">
-                        <button onClick={() => setView('add')} className="bg-slate-900 text-white w-14 h-14 rounded-2xl shadow-xl shadow-slate-300 border-[4px] border-slate-50 flex items-center justify-center hover:scale-105 active:scale-95 transition-transform">
+                        <button onClick={() => { setEditingTransaction(null); setView('add'); }} className="bg-slate-900 text-white w-14 h-14 rounded-2xl shadow-xl shadow-slate-300 border-[4px] border-slate-50 flex items-center justify-center hover:scale-105 active:scale-95 transition-transform">
                             <Plus size={28} strokeWidth={3} />
                         </button>
                     </div>
@@ -1182,5 +2364,6 @@ export default function DuoFinancePage() {
 
             </div>
         </div>
+        </HouseholdProvider>
     );
 }
\ No newline at end of file
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Landmark } from 'lucide-react';
+import { Account, AccountInput, AccountKind } from '@/types';
+import { currencySymbol, formatMoney, toMinorUnits } from '@/lib/money';
+import { JOINT_BUDGET } from '@/lib/budgets';
+import { useHousehold } from '@/components/household-context';
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+    bank: 'Bank Account',
+    credit_card: 'Credit Card',
+    cash: 'Cash',
+    upi: 'UPI Wallet'
+};
+
+interface AccountsViewProps {
+    accounts: Account[];
+    // Both resolve with an error message, or null on success
+    onCreate: (account: AccountInput) => Promise<string | null>;
+    onDelete: (id: string) => Promise<string | null>;
+    onBack: () => void;
+}
+
+export const AccountsView: React.FC<AccountsViewProps> = ({ accounts, onCreate, onDelete, onBack }) => {
+    const { members, member, baseCurrency } = useHousehold();
+    const [form, setForm] = useState({ name: '', kind: 'bank' as AccountKind, owner: JOINT_BUDGET, openingBalance: '' });
+    const [status, setStatus] = useState('');
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const openingBalance = form.openingBalance ? toMinorUnits(form.openingBalance) : 0;
+        if (!form.name.trim() || Number.isNaN(openingBalance)) return;
+        const error = await onCreate({ name: form.name.trim(), kind: form.kind, owner: form.owner, openingBalance });
+        setStatus(error || '');
+        if (!error) setForm({ ...form, name: '', openingBalance: '' });
+    };
+
+    const handleDelete = async (id: string) => setStatus(await onDelete(id) || '');
+
+    const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Accounts</h2>
+            <p className="text-sm text-slate-500 mb-6">
+                Balances start from the opening balance and follow every entry recorded against the account.
+            </p>
+
+            <form onSubmit={handleAdd} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3 mb-4">
+                <h3 className="font-bold text-slate-700">Add Account</h3>
+                <input type="text" placeholder="Name, e.g. HDFC Savings" value={form.name}
+                       onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} />
+                <div className="grid grid-cols-2 gap-3">
+                    <select value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as AccountKind })} className={inputClass}>
+                        {(Object.keys(ACCOUNT_KIND_LABELS) as AccountKind[]).map(k => <option key={k} value={k}>{ACCOUNT_KIND_LABELS[k]}</option>)}
+                    </select>
+                    <select value={form.owner} onChange={e => setForm({ ...form, owner: e.target.value })} className={inputClass}>
+                        <option value={JOINT_BUDGET}>Joint</option>
+                        {members.map(m => <option key={m.key} value={m.key}>{m.name}</option>)}
+                    </select>
+                </div>
+                <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 font-bold">{currencySymbol(baseCurrency).trim()}</span>
+                    <input type="number" step="0.01" placeholder="Opening balance (negative for card dues)" value={form.openingBalance}
+                           onChange={e => setForm({ ...form, openingBalance: e.target.value })} className={`${inputClass} pl-8`} />
+                </div>
+                <button type="submit" className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold flex items-center justify-center gap-2">
+                    <Plus size={18} /> Add Account
+                </button>
+                {status && <p className="text-sm text-rose-500">{status}</p>}
+            </form>
+
+            <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm">
+                {accounts.map(a => (
+                    <div key={a._id} className="flex items-center justify-between p-3 border-b border-slate-100 last:border-b-0">
+                        <div className="flex-1">
+                            <p className="font-bold text-slate-700 text-sm">{a.name}</p>
+                            <p className="text-xs text-slate-500">
+                                {ACCOUNT_KIND_LABELS[a.kind]} · {a.owner === JOINT_BUDGET ? 'Joint' : member(a.owner).name}
+                            </p>
+                        </div>
+                        <span className={`font-bold text-sm ${a.balance < 0 ? 'text-rose-600' : 'text-slate-800'}`}>
+                            {a.balance < 0 && '-'}{formatMoney(Math.abs(a.balance), baseCurrency, 2)}
+                        </span>
+                        <button onClick={() => handleDelete(a._id)} className="text-slate-300 hover:text-red-400 p-2 ml-2">
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                ))}
+                {accounts.length === 0 && (
+                    <div className="text-center py-10 text-slate-400">
+                        <Landmark size={48} className="mx-auto mb-2 opacity-20" />
+                        <p className="text-sm">No accounts yet.</p>
+                    </div>
+                )}
+            </div>
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { AuditAction, AuditEntry, Owner, SplitValue } from '@/types';
+import { formatMoney } from '@/lib/money';
+import { budgetOwnerLabel } from '@/lib/members';
+import { useHousehold } from '@/components/household-context';
+
+const VERBS: Record<AuditAction, string> = {
+    create: 'added',
+    update: 'changed',
+    delete: 'deleted',
+    restore: 'restored',
+    purge: 'permanently deleted'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    amount: 'Amount',
+    currency: 'Currency',
+    category: 'Category',
+    date: 'Date',
+    note: 'Note',
+    tags: 'Tags',
+    type: 'Type',
+    split: 'Split',
+    splitAmong: 'Split between',
+    splitMode: 'Split mode',
+    splitValues: 'Split values',
+    method: 'Method',
+    accountId: 'Account',
+    toAccountId: 'To account',
+    goalId: 'Goal',
+    period: 'Period',
+    rollover: 'Rollover',
+    text: 'Text',
+    completed: 'Done'
+};
+
+// Fields that never change after creation, or that only the server sets
+const HIDDEN_FIELDS = ['owner', 'createdBy', 'from', 'to', 'recurringId'];
+
+interface ActivityItemProps {
+    entry: AuditEntry;
+    showSubject?: boolean; // Off inside a single transaction's history, where it is obvious
+}
+
+export const ActivityItem: React.FC<ActivityItemProps> = ({ entry, showSubject = true }) => {
+    const { member, accountName, goalName, baseCurrency } = useHousehold();
+    const { before = {}, after = {} } = entry;
+    const doc = entry.after ?? entry.before ?? {};
+    const money = (amount: unknown, fields: Record<string, unknown>) => formatMoney(Number(amount), String(fields.currency || baseCurrency), 2);
+
+    const subject = () => {
+        if (entry.entity === 'todo') return `todo "${doc.text}"`;
+        if (entry.entity === 'budget') return `${doc.category} budget (${budgetOwnerLabel(String(doc.owner), member)})`;
+        return `${doc.category} ${doc.type} of ${money(doc.amount, doc)} on ${doc.date}`;
+    };
+
+    const formatValue = (key: string, value: unknown, fields: Record<string, unknown>): string => {
+        if (value === undefined || value === null || value === '') return 'none';
+        if (key === 'amount') return money(value, fields);
+        if (key === 'accountId' || key === 'toAccountId') return accountName(String(value));
+        if (key === 'goalId') return goalName(String(value));
+        if (key === 'splitAmong') return (value as Owner[]).map(k => member(k).name).join(', ');
+        if (key === 'splitValues') return (value as SplitValue[]).map(v => `${member(v.member).name} ${v.value}`).join(', ');
+        if (typeof value === 'boolean') return value ? 'yes' : 'no';
+        if (Array.isArray(value)) return value.join(', ');
+        return String(value);
+    };
+
+    // One line per field that differs between the two sides of an update
+    const changes = entry.action !== 'update' ? [] : [...new Set([...Object.keys(before), ...Object.keys(after)])]
+        .filter(key => !HIDDEN_FIELDS.includes(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .map(key => `${FIELD_LABELS[key] ?? key}: ${formatValue(key, before[key], before)} → ${formatValue(key, after[key], after)}`);
+
+    const actor = member(entry.actor);
+
+    return (
+        <div className="p-3 border-b border-slate-50 last:border-0">
+            <p className="text-sm text-slate-700">
+                <span className="font-bold" style={{ color: actor.color }}>{actor.name}</span>{' '}
+                {VERBS[entry.action]}{showSubject ? ` ${subject()}` : ''}
+            </p>
+            {changes.map(line => <p key={line} className="text-xs text-slate-500">{line}</p>)}
+            <p className="text-[10px] text-slate-400 mt-0.5">
+                {new Date(entry.createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+            </p>
+        </div>
+    );
+};
+
+interface ActivityViewProps {
+    entries: AuditEntry[];
+    hasMore: boolean;
+    onLoadMore: () => void;
+    onBack: () => void;
+}
+
+export const ActivityView: React.FC<ActivityViewProps> = ({ entries, hasMore, onLoadMore, onBack }) => (
+    <div className="pb-24 animate-in fade-in">
+        <h2 className="text-2xl font-black text-slate-800 mb-2">Activity</h2>
+        <p className="text-sm text-slate-500 mb-6">Who added, changed or deleted transactions, budgets and todos.</p>
+
+        {entries.length > 0 ? (
+            <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm">
+                {entries.map(entry => <ActivityItem key={entry._id} entry={entry} />)}
+            </div>
+        ) : (
+            <div className="text-center py-10 text-slate-400">
+                <Activity size={48} className="mx-auto mb-2 opacity-20" />
+                <p className="text-sm">Nothing has happened yet.</p>
+            </div>
+        )}
+
+        {hasMore && (
+            <button onClick={onLoadMore} className="w-full py-2 mt-2 text-sm font-bold text-blue-500 hover:text-blue-700">
+                Load more
+            </button>
+        )}
+
+        <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+    </div>
+);
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import {
+    Download,
+    Upload,
+    AlertTriangle,
+    Loader2
+} from 'lucide-react';
+import { RestoreMode } from '@/types';
+
+interface BackupPanelProps {
+    // Resolves with a message describing the outcome, success or failure
+    onRestore: (archive: unknown, mode: RestoreMode) => Promise<string>;
+}
+
+const CSV_EXPORTS = [
+    { collection: 'transactions', label: 'Transactions' },
+    { collection: 'budgets', label: 'Budgets' },
+    { collection: 'todos', label: 'Todos' },
+];
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ onRestore }) => {
+    const [archive, setArchive] = useState<unknown>(null);
+    const [fileName, setFileName] = useState('');
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [confirming, setConfirming] = useState(false);
+    const [restoring, setRestoring] = useState(false);
+    const [status, setStatus] = useState('');
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            try {
+                setArchive(JSON.parse(String(reader.result)));
+                setFileName(file.name);
+                setStatus('');
+            } catch {
+                setArchive(null);
+                setFileName('');
+                setStatus('That file is not a JSON archive.');
+            }
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const handleRestore = async () => {
+        // Replacing wipes current data, so it needs a second tap
+        if (mode === 'replace' && !confirming) {
+            setConfirming(true);
+            return;
+        }
+        setConfirming(false);
+        setRestoring(true);
+        setStatus(await onRestore(archive, mode));
+        setRestoring(false);
+    };
+
+    const linkClass = 'flex-1 py-2 bg-slate-100 text-slate-600 rounded-lg text-xs font-bold text-center hover:bg-slate-200 transition-colors';
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-4 mb-4 text-left space-y-4">
+            <div>
+                <p className="font-bold text-slate-700 mb-1">Backup & Restore</p>
+                <p className="text-sm text-slate-500">Download everything as a JSON archive, or a single collection as CSV.</p>
+            </div>
+
+            <a href="/api/export" className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-slate-800 transition-colors">
+                <Download size={18} /> Export Archive
+            </a>
+            <div className="flex gap-2">
+                {CSV_EXPORTS.map(({ collection, label }) => (
+                    <a key={collection} href={`/api/export?format=csv&collection=${collection}`} className={linkClass}>
+                        {label} CSV
+                    </a>
+                ))}
+            </div>
+
+            <div className="border-t border-slate-100 pt-4 space-y-3">
+                <label className="flex items-center gap-3 p-3 rounded-xl border-2 border-dashed border-slate-200 cursor-pointer hover:border-slate-300 transition-colors">
+                    <Upload size={18} className="text-slate-400" />
+                    <span className="text-sm font-medium text-slate-600 truncate">{fileName || 'Choose an archive to restore'}</span>
+                    <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+                </label>
+
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => { setMode(m); setConfirming(false); }}
+                            className={`flex-1 py-1.5 rounded-md text-xs font-bold capitalize transition-all ${mode === m ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+                        >
+                            {m}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-400">
+                    {mode === 'merge'
+                        ? 'Adds archived entries and overwrites ones with the same id. Nothing is deleted.'
+                        : 'Deletes all current transactions, budgets and todos, then loads the archive.'}
+                </p>
+
+                {confirming && (
+                    <p className="flex items-center gap-2 text-xs font-bold text-rose-600 bg-rose-50 p-2 rounded-lg">
+                        <AlertTriangle size={14} /> This cannot be undone. Tap again to replace all data.
+                    </p>
+                )}
+
+                <button
+                    onClick={handleRestore}
+                    disabled={!archive || restoring}
+                    className={`w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-40 ${mode === 'replace' ? 'bg-rose-600 text-white hover:bg-rose-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                >
+                    {restoring && <Loader2 size={18} className="animate-spin" />}
+                    Restore Archive
+                </button>
+
+                {status && <p className="text-sm text-slate-600 text-center">{status}</p>}
+            </div>
+        </div>
+    );
+};
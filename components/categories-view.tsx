@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Check, GitMerge, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Category, CategoryKind } from '@/types';
+import { CATEGORY_ICONS, CATEGORY_KINDS, orderedCategories } from '@/lib/categories';
+import { CategoryIcon } from '@/components/category-icon';
+
+export interface CategoryDraft {
+    name: string;
+    kind: CategoryKind;
+    icon: string;
+    color: string;
+    parentId: string; // Empty for a top-level category
+    budgeted: boolean;
+}
+
+interface CategoriesViewProps {
+    categories: Category[];
+    // Each resolves with an error message, or null on success
+    onCreate: (draft: CategoryDraft) => Promise<string | null>;
+    onUpdate: (id: string, draft: CategoryDraft) => Promise<string | null>;
+    onDelete: (id: string) => Promise<string | null>;
+    onMerge: (sourceId: string, targetId: string) => Promise<string | null>;
+    onBack: () => void;
+}
+
+const EMPTY_DRAFT: CategoryDraft = { name: '', kind: 'expense', icon: 'tag', color: '#64748b', parentId: '', budgeted: true };
+
+const draftOf = (c: Category): CategoryDraft =>
+    ({ name: c.name, kind: c.kind, icon: c.icon, color: c.color, parentId: c.parentId || '', budgeted: c.budgeted });
+
+const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+interface CategoryFieldsProps {
+    draft: CategoryDraft;
+    onChange: (draft: CategoryDraft) => void;
+    parents: Category[]; // Top-level categories the draft may sit under
+    kindLocked?: boolean;
+}
+
+const CategoryFields: React.FC<CategoryFieldsProps> = ({ draft, onChange, parents, kindLocked }) => (
+    <div className="space-y-3">
+        <div className="flex gap-2">
+            <input type="color" value={draft.color} onChange={e => onChange({ ...draft, color: e.target.value })}
+                   className="w-12 h-12 rounded-xl border border-slate-200 shrink-0 cursor-pointer" aria-label="Colour" />
+            <input type="text" placeholder="Name" value={draft.name} onChange={e => onChange({ ...draft, name: e.target.value })} className={inputClass} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+            <select value={draft.kind} disabled={kindLocked} onChange={e => onChange({ ...draft, kind: e.target.value as CategoryKind, parentId: '' })}
+                    className={`${inputClass} capitalize disabled:opacity-60`}>
+                {CATEGORY_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+            </select>
+            <select value={draft.parentId} onChange={e => onChange({ ...draft, parentId: e.target.value })} className={inputClass}>
+                <option value="">No parent</option>
+                {parents.filter(p => p.kind === draft.kind).map(p => <option key={p._id} value={p._id}>Under {p.name}</option>)}
+            </select>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+            {CATEGORY_ICONS.map(icon => (
+                <button key={icon} type="button" onClick={() => onChange({ ...draft, icon })} aria-label={icon}
+                        className={`p-2 rounded-lg border-2 transition-all ${draft.icon === icon ? 'border-slate-700 bg-slate-50' : 'border-transparent hover:bg-slate-50'}`}>
+                    <CategoryIcon icon={icon} size={16} color={draft.icon === icon ? draft.color : '#94a3b8'} />
+                </button>
+            ))}
+        </div>
+        {draft.kind === 'expense' && (
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+                <input type="checkbox" checked={draft.budgeted} onChange={e => onChange({ ...draft, budgeted: e.target.checked })} />
+                Show in the budget planner
+            </label>
+        )}
+    </div>
+);
+
+export const CategoriesView: React.FC<CategoriesViewProps> = ({ categories, onCreate, onUpdate, onDelete, onMerge, onBack }) => {
+    const [draft, setDraft] = useState<CategoryDraft>(EMPTY_DRAFT);
+    const [editing, setEditing] = useState<{ id: string; draft: CategoryDraft } | null>(null);
+    const [merging, setMerging] = useState<{ id: string; targetId: string } | null>(null);
+    const [status, setStatus] = useState('');
+
+    const ordered = orderedCategories(categories);
+    const topLevel = ordered.filter(c => !c.parentId);
+    const hasChildren = (id: string) => categories.some(c => c.parentId === id);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.name.trim()) return;
+        const error = await onCreate(draft);
+        setStatus(error || '');
+        if (!error) setDraft({ ...EMPTY_DRAFT, kind: draft.kind });
+    };
+
+    const saveEdit = async () => {
+        if (!editing || !editing.draft.name.trim()) return;
+        const error = await onUpdate(editing.id, editing.draft);
+        setStatus(error || '');
+        if (!error) setEditing(null);
+    };
+
+    const confirmMerge = async () => {
+        if (!merging?.targetId) return;
+        const error = await onMerge(merging.id, merging.targetId);
+        setStatus(error || '');
+        if (!error) setMerging(null);
+    };
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Categories</h2>
+            <p className="text-sm text-slate-500 mb-6">
+                Subcategories count towards their parent in budgets and charts. Merging moves every entry over to the other category.
+            </p>
+
+            <form onSubmit={handleAdd} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3 mb-4">
+                <h3 className="font-bold text-slate-700">Add Category</h3>
+                <CategoryFields draft={draft} onChange={setDraft} parents={topLevel} />
+                <button type="submit" className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold flex items-center justify-center gap-2">
+                    <Plus size={18} /> Add Category
+                </button>
+            </form>
+
+            {status && <p className="text-sm text-rose-500 mb-4">{status}</p>}
+
+            <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm">
+                {ordered.map(c => (
+                    <div key={c._id} className="p-3 border-b border-slate-100 last:border-b-0">
+                        <div className={`flex items-center gap-3 ${c.parentId ? 'pl-6' : ''}`}>
+                            <span className="w-8 h-8 rounded-lg flex items-center justify-center shrink-0" style={{ backgroundColor: `${c.color}22` }}>
+                                <CategoryIcon icon={c.icon} color={c.color} />
+                            </span>
+                            <div className="flex-1 overflow-hidden">
+                                <p className="font-bold text-slate-700 text-sm truncate">{c.name}</p>
+                                <p className="text-[10px] font-bold uppercase text-slate-400">
+                                    {c.kind}{c.kind === 'expense' && !c.budgeted && ' · not budgeted'}
+                                </p>
+                            </div>
+                            <button onClick={() => { setEditing({ id: c._id, draft: draftOf(c) }); setMerging(null); }}
+                                    className="text-slate-300 hover:text-slate-600 p-2" aria-label="Edit">
+                                <Pencil size={14} />
+                            </button>
+                            <button onClick={() => { setMerging({ id: c._id, targetId: '' }); setEditing(null); }}
+                                    className="text-slate-300 hover:text-blue-500 p-2" aria-label="Merge">
+                                <GitMerge size={14} />
+                            </button>
+                            <button onClick={async () => setStatus(await onDelete(c._id) || '')}
+                                    className="text-slate-300 hover:text-red-400 p-2" aria-label="Delete">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+
+                        {editing?.id === c._id && (
+                            <div className="mt-3 p-3 bg-slate-50 rounded-xl space-y-3">
+                                <CategoryFields
+                                    draft={editing.draft}
+                                    onChange={d => setEditing({ id: c._id, draft: d })}
+                                    parents={hasChildren(c._id) ? [] : topLevel.filter(p => p._id !== c._id)}
+                                    kindLocked
+                                />
+                                <div className="flex gap-2">
+                                    <button onClick={() => setEditing(null)} className="flex-1 py-2 bg-slate-100 text-slate-600 rounded-lg text-sm font-bold flex items-center justify-center gap-1">
+                                        <X size={14} /> Cancel
+                                    </button>
+                                    <button onClick={saveEdit} className="flex-1 py-2 bg-slate-900 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-1">
+                                        <Check size={14} /> Save
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {merging?.id === c._id && (
+                            <div className="mt-3 p-3 bg-blue-50 rounded-xl flex gap-2 items-center">
+                                <select value={merging.targetId} onChange={e => setMerging({ id: c._id, targetId: e.target.value })}
+                                        className="flex-1 p-2 bg-white border border-slate-200 rounded-lg text-sm font-medium outline-none">
+                                    <option value="">Merge {c.name} into…</option>
+                                    {ordered.filter(o => o._id !== c._id && o.kind === c.kind && o.parentId !== c._id).map(o => (
+                                        <option key={o._id} value={o._id}>{o.name}</option>
+                                    ))}
+                                </select>
+                                <button onClick={confirmMerge} disabled={!merging.targetId}
+                                        className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold disabled:opacity-40">
+                                    Merge
+                                </button>
+                                <button onClick={() => setMerging(null)} className="text-slate-400 p-1" aria-label="Cancel">
+                                    <X size={16} />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+        </div>
+    );
+};
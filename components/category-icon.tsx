@@ -0,0 +1,60 @@
+import React from 'react';
+import {
+    Baby,
+    Briefcase,
+    Car,
+    Coffee,
+    Dog,
+    Film,
+    Gift,
+    GraduationCap,
+    HeartPulse,
+    Home,
+    LucideIcon,
+    Phone,
+    PiggyBank,
+    Plane,
+    Shirt,
+    ShoppingBag,
+    ShoppingCart,
+    Tag,
+    Utensils,
+    Wallet,
+    Zap
+} from 'lucide-react';
+import { CategoryIcon as CategoryIconName } from '@/lib/categories';
+
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+    'utensils': Utensils,
+    'shopping-cart': ShoppingCart,
+    'home': Home,
+    'zap': Zap,
+    'car': Car,
+    'shopping-bag': ShoppingBag,
+    'film': Film,
+    'heart-pulse': HeartPulse,
+    'plane': Plane,
+    'piggy-bank': PiggyBank,
+    'wallet': Wallet,
+    'tag': Tag,
+    'gift': Gift,
+    'graduation-cap': GraduationCap,
+    'baby': Baby,
+    'dog': Dog,
+    'phone': Phone,
+    'shirt': Shirt,
+    'coffee': Coffee,
+    'briefcase': Briefcase
+};
+
+interface CategoryIconProps {
+    icon?: string; // Unknown names (or none) fall back to a tag
+    size?: number;
+    className?: string;
+    color?: string;
+}
+
+export const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, size = 16, className, color }) => {
+    const Icon = ICONS[icon as CategoryIconName] || Tag;
+    return <Icon size={size} className={className} color={color} />;
+};
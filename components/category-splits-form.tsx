@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { CategorySplit, CategorySplitMode } from '@/types';
+import { formatSplitValues, parseSplitValues } from '@/lib/splits';
+import { SplitDraft, SplitEditor, splitDraftError } from '@/components/split-editor';
+
+interface CategorySplitsFormProps {
+    categories: string[];
+    categorySplits: CategorySplit[];
+    onSave: (categorySplits: CategorySplit[]) => Promise<string | null>; // Resolves with an error message, or null
+}
+
+interface DraftRow {
+    category: string;
+    split: SplitDraft;
+}
+
+const DEFAULT_MODES: CategorySplitMode[] = ['percentage', 'shares'];
+
+// Default ratios for shared expenses, e.g. rent split 60/40. Entries can still override them.
+export const CategorySplitsForm: React.FC<CategorySplitsFormProps> = ({ categories, categorySplits, onSave }) => {
+    const [rows, setRows] = useState<DraftRow[]>(() => categorySplits.map(c => ({
+        category: c.category,
+        split: { mode: c.mode, values: formatSplitValues(c.mode, c.values), splitAmong: [] }
+    })));
+    const [saving, setSaving] = useState(false);
+    const [status, setStatus] = useState('');
+
+    const unused = categories.filter(c => !rows.some(r => r.category === c));
+    const invalid = rows.some(r => splitDraftError(r.split) !== null);
+
+    const updateRow = (index: number, changes: Partial<DraftRow>) =>
+        setRows(prev => prev.map((r, i) => i === index ? { ...r, ...changes } : r));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const error = await onSave(rows.map(({ category, split }) => ({
+            category,
+            mode: split.mode as CategorySplitMode,
+            values: parseSplitValues(split.mode, split.values)
+        })));
+        setStatus(error || '');
+        setSaving(false);
+    };
+
+    const selectClass = 'flex-1 p-2 bg-white border border-slate-200 rounded-lg text-sm font-medium outline-none';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            {rows.map((row, i) => (
+                <div key={i} className="p-3 bg-slate-50 rounded-xl space-y-3">
+                    <div className="flex items-center gap-2">
+                        <select value={row.category} onChange={e => updateRow(i, { category: e.target.value })} className={selectClass}>
+                            {[row.category, ...unused].map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                        <button type="button" onClick={() => setRows(prev => prev.filter((_, j) => j !== i))}
+                                className="text-slate-300 hover:text-red-400 p-2" aria-label="Remove">
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <SplitEditor split={row.split} onChange={split => updateRow(i, { split })} modes={DEFAULT_MODES} />
+                </div>
+            ))}
+
+            {rows.length === 0 && <p className="text-sm text-slate-400">Shared expenses are split equally in every category.</p>}
+
+            <div className="flex gap-2">
+                {unused.length > 0 && (
+                    <button type="button"
+                            onClick={() => setRows([...rows, { category: unused[0], split: { mode: 'percentage', values: {}, splitAmong: [] } }])}
+                            className="flex-1 py-2 bg-slate-100 text-slate-600 rounded-lg text-sm font-bold flex items-center justify-center gap-1">
+                        <Plus size={16} /> Add Category
+                    </button>
+                )}
+                <button type="submit" disabled={saving || invalid}
+                        className="flex-1 py-2 bg-slate-900 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-40">
+                    {saving && <Loader2 size={16} className="animate-spin" />}
+                    Save Splits
+                </button>
+            </div>
+            {status && <p className="text-sm text-rose-500">{status}</p>}
+        </form>
+    );
+};
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    Upload,
+    FileText,
+    AlertTriangle,
+    Loader2
+} from 'lucide-react';
+import { SplitType, Transaction, TransactionType } from '@/types';
+import { parseCsv } from '@/lib/csv';
+import { duplicateKey, existingKeys, parseStatementAmount, parseStatementDate } from '@/lib/statement-import';
+import { formatMoney } from '@/lib/money';
+import { useHousehold } from '@/components/household-context';
+
+export interface ImportRow {
+    amount: number;
+    category: string;
+    date: string;
+    note: string;
+    type: TransactionType;
+    split: SplitType; // Rows are recorded as paid by the signed-in member
+}
+
+interface CsvImportViewProps {
+    categories: string[];
+    fetchExisting: (from: string, to: string) => Promise<Transaction[]>;
+    // Resolves with an error message, or null once the rows are saved
+    onImport: (rows: ImportRow[]) => Promise<string | null>;
+    onBack: () => void;
+}
+
+type MappedField = 'date' | 'amount' | 'note' | 'category';
+
+const FIELDS: { key: MappedField; label: string; required: boolean; hints: string[] }[] = [
+    { key: 'date', label: 'Date', required: true, hints: ['date', 'txn date', 'transaction date', 'value date'] },
+    { key: 'amount', label: 'Amount', required: true, hints: ['amount', 'debit', 'withdrawal', 'value'] },
+    { key: 'note', label: 'Note', required: false, hints: ['description', 'narration', 'note', 'details', 'particulars', 'remarks'] },
+    { key: 'category', label: 'Category', required: false, hints: ['category'] },
+];
+
+// Best-effort column match on header names so the common bank layouts need no manual mapping
+const guessMapping = (header: string[]): Record<MappedField, number> => {
+    const normalized = header.map(h => h.toLowerCase().trim());
+    const mapping = { date: -1, amount: -1, note: -1, category: -1 };
+    FIELDS.forEach(({ key, hints }) => {
+        mapping[key] = normalized.findIndex(h => hints.some(hint => h.includes(hint)));
+    });
+    return mapping;
+};
+
+interface PreviewRow {
+    index: number;
+    date: string | null;
+    amount: number; // Signed paise as exported
+    note: string;
+    category: string;
+    duplicate: boolean;
+}
+
+export const CsvImportView: React.FC<CsvImportViewProps> = ({ categories, fetchExisting, onImport, onBack }) => {
+    const [fileName, setFileName] = useState('');
+    const [cells, setCells] = useState<string[][]>([]);
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<Record<MappedField, number>>({ date: -1, amount: -1, note: -1, category: -1 });
+    const [split, setSplit] = useState<SplitType>('shared');
+    const [positiveType, setPositiveType] = useState<'expense' | 'income'>('expense');
+    const [duplicates, setDuplicates] = useState<Set<string>>(new Set());
+    const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+    const [importing, setImporting] = useState(false);
+    const [status, setStatus] = useState('');
+    const { baseCurrency } = useHousehold(); // Statements are imported in the base currency
+
+    const header = useMemo(() => hasHeader && cells.length > 0
+        ? cells[0]
+        : (cells[0] || []).map((_, i) => `Column ${i + 1}`), [cells, hasHeader]);
+    const body = useMemo(() => hasHeader ? cells.slice(1) : cells, [cells, hasHeader]);
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            const parsed = parseCsv(String(reader.result));
+            setFileName(file.name);
+            setCells(parsed);
+            setMapping(guessMapping(parsed[0] || []));
+            setOverrides({});
+        };
+        reader.readAsText(file);
+    };
+
+    const preview = useMemo<Omit<PreviewRow, 'duplicate'>[]>(() => {
+        if (mapping.date < 0 || mapping.amount < 0) return [];
+        return body.map((row, index) => {
+            const rawCategory = mapping.category >= 0 ? (row[mapping.category] || '').trim() : '';
+            return {
+                index,
+                date: parseStatementDate(row[mapping.date] || ''),
+                amount: parseStatementAmount(row[mapping.amount] || ''),
+                note: mapping.note >= 0 ? (row[mapping.note] || '').trim() : '',
+                // Unknown categories land in 'Other' rather than creating new ones
+                category: categories.find(c => c.toLowerCase() === rawCategory.toLowerCase()) || 'Other'
+            };
+        });
+    }, [body, mapping, categories]);
+
+    // Look up what is already recorded in the statement's date range
+    useEffect(() => {
+        const dates = preview.map(r => r.date).filter((d): d is string => !!d).sort();
+        if (dates.length === 0) return;
+        let cancelled = false;
+        fetchExisting(dates[0], dates[dates.length - 1]).then(existing => {
+            if (!cancelled) setDuplicates(existingKeys(existing));
+        });
+        return () => { cancelled = true; };
+    }, [preview, fetchExisting]);
+
+    const rows: PreviewRow[] = preview.map(r => ({
+        ...r,
+        duplicate: !!r.date && duplicates.has(duplicateKey({ date: r.date, amount: Math.abs(r.amount), note: r.note }))
+    }));
+
+    const isValid = (r: PreviewRow) => !!r.date && !Number.isNaN(r.amount) && r.amount !== 0;
+    // Likely duplicates start unticked; the user can still include them
+    const isIncluded = (r: PreviewRow) => isValid(r) && (overrides[r.index] ?? !r.duplicate);
+    const selected = rows.filter(isIncluded);
+
+    const handleImport = async () => {
+        setImporting(true);
+        setStatus('');
+        const negativeType = positiveType === 'expense' ? 'income' : 'expense';
+        const error = await onImport(selected.map(r => ({
+            amount: Math.abs(r.amount),
+            category: r.category,
+            date: r.date as string,
+            note: r.note,
+            type: r.amount >= 0 ? positiveType : negativeType,
+            split
+        })));
+        setStatus(error || '');
+        setImporting(false);
+    };
+
+    const selectClass = 'w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-medium outline-none';
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Import Statement</h2>
+            <p className="text-sm text-slate-500 mb-6">Upload a CSV export from your bank.</p>
+
+            <label className="flex items-center gap-3 bg-white p-4 rounded-2xl border-2 border-dashed border-slate-200 mb-6 cursor-pointer hover:border-slate-300 transition-colors">
+                {fileName ? <FileText className="text-slate-500" size={24} /> : <Upload className="text-slate-400" size={24} />}
+                <div>
+                    <p className="font-bold text-slate-700">{fileName || 'Choose a CSV file'}</p>
+                    {fileName && <p className="text-xs text-slate-400">{body.length} rows</p>}
+                </div>
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+
+            {cells.length > 0 && (
+                <>
+                    <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm mb-4 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h3 className="font-bold text-slate-700">Columns</h3>
+                            <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                                <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+                                First row is a header
+                            </label>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            {FIELDS.map(({ key, label, required }) => (
+                                <div key={key}>
+                                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{label}{required && ' *'}</label>
+                                    <select value={mapping[key]} onChange={e => setMapping({ ...mapping, [key]: Number(e.target.value) })} className={selectClass}>
+                                        <option value={-1}>{required ? 'Select column' : 'None'}</option>
+                                        {header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm mb-4 grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Split</label>
+                            <select value={split} onChange={e => setSplit(e.target.value as SplitType)} className={selectClass}>
+                                <option value="shared">Shared</option>
+                                <option value="personal">Personal</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Positive =</label>
+                            <select value={positiveType} onChange={e => setPositiveType(e.target.value as 'expense' | 'income')} className={selectClass}>
+                                <option value="expense">Expense</option>
+                                <option value="income">Income</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    {rows.length > 0 && (
+                        <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm mb-4">
+                            <div className="p-3 bg-slate-50 border-b border-slate-100 font-bold text-sm text-slate-600 flex justify-between">
+                                <span>Preview</span>
+                                <span className="text-slate-400">{selected.length} of {rows.length} selected</span>
+                            </div>
+                            <div className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+                                {rows.map(r => (
+                                    <label key={r.index} className={`flex items-center gap-3 p-3 text-sm ${isValid(r) ? 'cursor-pointer' : 'opacity-50'}`}>
+                                        <input
+                                            type="checkbox"
+                                            disabled={!isValid(r)}
+                                            checked={isIncluded(r)}
+                                            onChange={e => setOverrides({ ...overrides, [r.index]: e.target.checked })}
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-medium text-slate-700 truncate">{r.note || r.category}</p>
+                                            <p className="text-xs text-slate-400 flex items-center gap-1">
+                                                {r.date || 'Unreadable date'} · {r.category}
+                                                {r.duplicate && (
+                                                    <span className="flex items-center gap-0.5 bg-amber-100 text-amber-700 px-1.5 rounded text-[10px] font-bold">
+                                                        <AlertTriangle size={10} /> LIKELY DUPLICATE
+                                                    </span>
+                                                )}
+                                            </p>
+                                        </div>
+                                        <span className="font-bold text-slate-800">
+                                            {Number.isNaN(r.amount) ? '—' : formatMoney(Math.abs(r.amount), baseCurrency)}
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <button
+                        onClick={handleImport}
+                        disabled={selected.length === 0 || importing}
+                        className="w-full py-4 bg-slate-900 text-white rounded-xl font-bold shadow-lg hover:bg-slate-800 transition-all disabled:opacity-40 flex items-center justify-center gap-2"
+                    >
+                        {importing && <Loader2 size={18} className="animate-spin" />}
+                        Import {selected.length} Transactions
+                    </button>
+                    {status && <p className="text-sm text-rose-500 mt-3">{status}</p>}
+                </>
+            )}
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+        </div>
+    );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import {
+    Plus,
+    Trash2,
+    Upload,
+    Coins
+} from 'lucide-react';
+import { ExchangeRate, RateInput } from '@/types';
+import { parseCsv } from '@/lib/csv';
+import { CURRENCIES } from '@/lib/money';
+import { toDateKey } from '@/lib/dates';
+import { useHousehold } from '@/components/household-context';
+
+interface ExchangeRatesViewProps {
+    rates: ExchangeRate[];
+    // Both resolve with a message describing the outcome, success or failure
+    onSave: (rates: RateInput[]) => Promise<string>;
+    onSetBaseCurrency: (currency: string) => Promise<string>;
+    onDelete: (id: string) => void;
+    onBack: () => void;
+}
+
+const RATE_COLUMNS = ['date', 'currency', 'rate'] as const;
+
+// Reads a `date,currency,rate` CSV; the header row is required so columns can come in any order
+const parseRateFile = (text: string): RateInput[] | string => {
+    const [header, ...rows] = parseCsv(text);
+    const index = RATE_COLUMNS.map(c => (header || []).findIndex(h => h.trim().toLowerCase() === c));
+    if (index.some(i => i < 0)) return 'The file needs a header row with date, currency and rate columns.';
+    return rows.map(row => ({
+        date: (row[index[0]] || '').trim(),
+        currency: (row[index[1]] || '').trim().toUpperCase(),
+        rate: Number(row[index[2]])
+    }));
+};
+
+export const ExchangeRatesView: React.FC<ExchangeRatesViewProps> = ({ rates, onSave, onSetBaseCurrency, onDelete, onBack }) => {
+    const { baseCurrency } = useHousehold();
+    const foreign = CURRENCIES.filter(c => c !== baseCurrency);
+    const [form, setForm] = useState({ currency: foreign[0], date: toDateKey(new Date()), rate: '' });
+    const [base, setBase] = useState(baseCurrency);
+    const [status, setStatus] = useState('');
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const rate = Number(form.rate);
+        if (!form.rate || !Number.isFinite(rate) || rate <= 0) return;
+        setStatus(await onSave([{ currency: form.currency, date: form.date, rate }]));
+        setForm({ ...form, rate: '' });
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = async () => {
+            const parsed = parseRateFile(String(reader.result));
+            setStatus(typeof parsed === 'string' ? parsed : await onSave(parsed));
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Currencies</h2>
+            <p className="text-sm text-slate-500 mb-6">
+                Foreign amounts are converted to {baseCurrency} at the latest rate on or before their date.
+            </p>
+
+            <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3 mb-4">
+                <h3 className="font-bold text-slate-700">Base Currency</h3>
+                <div className="flex gap-2">
+                    <select value={base} onChange={e => setBase(e.target.value)} className={inputClass}>
+                        {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <button type="button" disabled={base === baseCurrency} onClick={async () => setStatus(await onSetBaseCurrency(base))}
+                            className="px-4 bg-slate-900 text-white rounded-xl font-bold text-sm disabled:opacity-40">
+                        Save
+                    </button>
+                </div>
+                <p className="text-xs text-slate-400">Can only be changed before any transactions are recorded.</p>
+            </div>
+
+            <form onSubmit={handleAdd} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3 mb-4">
+                <h3 className="font-bold text-slate-700">Add Rate</h3>
+                <div className="grid grid-cols-3 gap-3">
+                    <select value={form.currency} onChange={e => setForm({ ...form, currency: e.target.value })} className={inputClass}>
+                        {foreign.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <input type="date" value={form.date} onChange={e => setForm({ ...form, date: e.target.value })} className={`${inputClass} col-span-2`} />
+                </div>
+                <input type="number" step="any" placeholder={`${baseCurrency} per 1 ${form.currency}`} value={form.rate}
+                       onChange={e => setForm({ ...form, rate: e.target.value })} className={inputClass} />
+                <div className="flex gap-2">
+                    <button type="submit" className="flex-1 py-3 bg-slate-900 text-white rounded-xl font-bold flex items-center justify-center gap-2">
+                        <Plus size={18} /> Save Rate
+                    </button>
+                    <label className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-xl font-bold flex items-center justify-center gap-2 cursor-pointer hover:bg-slate-200 transition-colors">
+                        <Upload size={18} /> Import CSV
+                        <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+                    </label>
+                </div>
+                {status && <p className="text-sm text-slate-600">{status}</p>}
+            </form>
+
+            <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm">
+                {rates.map(r => (
+                    <div key={r._id} className="flex items-center justify-between p-3 border-b border-slate-100 last:border-b-0 text-sm">
+                        <span className="font-bold text-slate-700 w-12">{r.currency}</span>
+                        <span className="text-slate-500 flex-1">{r.date}</span>
+                        <span className="font-medium text-slate-800">{r.rate} {baseCurrency}</span>
+                        <button onClick={() => onDelete(r._id)} className="text-slate-300 hover:text-red-400 p-2 ml-2">
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                ))}
+                {rates.length === 0 && (
+                    <div className="text-center py-10 text-slate-400">
+                        <Coins size={48} className="mx-auto mb-2 opacity-20" />
+                        <p className="text-sm">No exchange rates yet.</p>
+                    </div>
+                )}
+            </div>
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+        </div>
+    );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { PiggyBank, Plus, Trash2 } from 'lucide-react';
+import { Goal, GoalInput } from '@/types';
+import { currencySymbol, formatMoney, toMinorUnits } from '@/lib/money';
+import { fromDateKey } from '@/lib/dates';
+import { JOINT_BUDGET } from '@/lib/budgets';
+import { useHousehold } from '@/components/household-context';
+
+interface GoalsViewProps {
+    goals: Goal[];
+    // Both resolve with an error message, or null on success
+    onCreate: (goal: GoalInput) => Promise<string | null>;
+    onDelete: (id: string) => Promise<string | null>;
+    onBack: () => void;
+}
+
+const GoalCard: React.FC<{ goal: Goal; onDelete: () => void }> = ({ goal, onDelete }) => {
+    const { member, baseCurrency } = useHousehold();
+    const money = (amount: number) => formatMoney(amount, baseCurrency);
+    const progress = Math.min(100, (goal.saved / goal.targetAmount) * 100);
+    const remaining = goal.targetAmount - goal.saved;
+    const deadline = fromDateKey(goal.deadline).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+    const pace = () => {
+        if (remaining <= 0) return 'Target reached';
+        if (goal.monthlyNeeded === null) return `Deadline passed, ${money(remaining)} short`;
+        const months = goal.monthsLeft === 1 ? 'this month' : `a month for ${goal.monthsLeft} months`;
+        return `${money(goal.monthlyNeeded)} ${months} to get there`;
+    };
+
+    return (
+        <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm mb-3">
+            <div className="flex items-start justify-between">
+                <div>
+                    <p className="font-bold text-slate-700">{goal.name}</p>
+                    <p className="text-xs text-slate-500">
+                        {goal.owner === JOINT_BUDGET ? 'Joint' : member(goal.owner).name} · by {deadline}
+                    </p>
+                </div>
+                <button onClick={onDelete} className="text-slate-300 hover:text-red-400 p-2 -mr-2 -mt-2">
+                    <Trash2 size={14} />
+                </button>
+            </div>
+
+            <div className="flex justify-between text-sm mt-3 mb-1">
+                <span className="font-bold text-slate-800">{money(goal.saved)}</span>
+                <span className="text-slate-400">of {money(goal.targetAmount)}</span>
+            </div>
+            {/* Filled in each member's colour, in proportion to what they have put in */}
+            <div className="h-3 bg-slate-100 rounded-full overflow-hidden flex">
+                {goal.contributions.map(c => (
+                    <div key={c.member} className="h-full transition-all"
+                         style={{ width: `${goal.saved > 0 ? (c.amount / goal.saved) * progress : 0}%`, backgroundColor: member(c.member).color }} />
+                ))}
+            </div>
+            <p className={`text-xs font-bold mt-2 ${remaining > 0 && goal.monthlyNeeded === null ? 'text-rose-500' : 'text-slate-500'}`}>{pace()}</p>
+
+            {goal.contributions.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-slate-50 space-y-1">
+                    {goal.contributions.map(c => (
+                        <div key={c.member} className="flex items-center justify-between text-xs">
+                            <span className="font-bold" style={{ color: member(c.member).color }}>{member(c.member).name}</span>
+                            <span className="text-slate-600">
+                                {money(c.amount)} <span className="text-slate-400">({Math.round((c.amount / goal.saved) * 100)}%)</span>
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const GoalsView: React.FC<GoalsViewProps> = ({ goals, onCreate, onDelete, onBack }) => {
+    const { members, baseCurrency } = useHousehold();
+    const [form, setForm] = useState({ name: '', targetAmount: '', deadline: '', owner: JOINT_BUDGET });
+    const [status, setStatus] = useState('');
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const targetAmount = toMinorUnits(form.targetAmount);
+        if (!form.name.trim() || !form.deadline || Number.isNaN(targetAmount) || targetAmount <= 0) return;
+        const error = await onCreate({ name: form.name.trim(), targetAmount, deadline: form.deadline, owner: form.owner });
+        setStatus(error || '');
+        if (!error) setForm({ ...form, name: '', targetAmount: '', deadline: '' });
+    };
+
+    const handleDelete = async (id: string) => setStatus(await onDelete(id) || '');
+
+    const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Savings Goals</h2>
+            <p className="text-sm text-slate-500 mb-6">
+                Link a savings expense to a goal when you record it and it counts towards the target.
+            </p>
+
+            <form onSubmit={handleAdd} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3 mb-4">
+                <h3 className="font-bold text-slate-700">Add Goal</h3>
+                <input type="text" placeholder="Name, e.g. Emergency fund" value={form.name}
+                       onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} />
+                <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 font-bold">{currencySymbol(baseCurrency).trim()}</span>
+                    <input type="number" step="0.01" min="0" placeholder="Target" value={form.targetAmount}
+                           onChange={e => setForm({ ...form, targetAmount: e.target.value })} className={`${inputClass} pl-8`} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <input type="date" value={form.deadline} onChange={e => setForm({ ...form, deadline: e.target.value })} className={inputClass} />
+                    <select value={form.owner} onChange={e => setForm({ ...form, owner: e.target.value })} className={inputClass}>
+                        <option value={JOINT_BUDGET}>Joint</option>
+                        {members.map(m => <option key={m.key} value={m.key}>{m.name}</option>)}
+                    </select>
+                </div>
+                <button type="submit" className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold flex items-center justify-center gap-2">
+                    <Plus size={18} /> Add Goal
+                </button>
+                {status && <p className="text-sm text-rose-500">{status}</p>}
+            </form>
+
+            {goals.map(g => <GoalCard key={g._id} goal={g} onDelete={() => handleDelete(g._id)} />)}
+            {goals.length === 0 && (
+                <div className="text-center py-10 text-slate-400">
+                    <PiggyBank size={48} className="mx-auto mb-2 opacity-20" />
+                    <p className="text-sm">No savings goals yet.</p>
+                </div>
+            )}
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+        </div>
+    );
+};
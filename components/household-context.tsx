@@ -0,0 +1,45 @@
+import React, { createContext, useCallback, useContext } from 'react';
+import { Account, Category, CategorySplit, Goal, HouseholdMember, Owner } from '@/types';
+import { resolveMember } from '@/lib/members';
+import { DEFAULT_CURRENCY } from '@/lib/money';
+
+interface HouseholdContextValue {
+    members: HouseholdMember[];
+    currentMember: Owner | null; // The signed-in member; null until /api/auth/me has loaded
+    categorySplits: CategorySplit[];
+    baseCurrency: string;
+    accounts: Account[];
+    categories: Category[];
+    goals: Goal[];
+}
+
+const HouseholdContext = createContext<HouseholdContextValue>({ members: [], currentMember: null, categorySplits: [], baseCurrency: DEFAULT_CURRENCY, accounts: [], categories: [], goals: [] });
+
+export const HouseholdProvider: React.FC<HouseholdContextValue & { children: React.ReactNode }> = ({ members, currentMember, categorySplits, baseCurrency, accounts, categories, goals, children }) => (
+    <HouseholdContext.Provider value={{ members, currentMember, categorySplits, baseCurrency, accounts, categories, goals }}>{children}</HouseholdContext.Provider>
+);
+
+// Stored owner values are stable keys; this maps them to the member's display profile
+export const useHousehold = () => {
+    const { members, currentMember, categorySplits, baseCurrency, accounts, categories, goals } = useContext(HouseholdContext);
+    const member = useCallback(
+        (key: Owner) => members.find(m => m.key === key) || resolveMember(key),
+        [members]
+    );
+    // Restored archives can reference accounts this household doesn't have
+    const accountName = useCallback(
+        (id: string) => accounts.find(a => a._id === id)?.name ?? 'Unknown account',
+        [accounts]
+    );
+    // Transactions store the category's name; older or imported ones may name a category that no longer exists
+    const category = useCallback(
+        (name: string) => categories.find(c => c.name === name),
+        [categories]
+    );
+    // Deleting a goal unlinks its contributions, but a cached entry may still name it
+    const goalName = useCallback(
+        (id: string) => goals.find(g => g._id === id)?.name ?? 'Deleted goal',
+        [goals]
+    );
+    return { members, currentMember, categorySplits, baseCurrency, accounts, categories, goals, member, accountName, category, goalName };
+};
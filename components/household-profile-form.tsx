@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { CurrentUser, HouseholdMember } from '@/types';
+import { initialsOf, MAX_INITIALS } from '@/lib/members';
+
+export interface HouseholdProfile {
+    name: string;
+    members: HouseholdMember[];
+}
+
+interface HouseholdProfileFormProps {
+    household: CurrentUser['household'];
+    onSave: (profile: HouseholdProfile) => Promise<string | null>; // Resolves with an error message, or null
+}
+
+const SWATCHES = ['#3b82f6', '#d946ef', '#f97316', '#10b981', '#8b5cf6', '#ef4444', '#0ea5e9', '#eab308'];
+
+export const HouseholdProfileForm: React.FC<HouseholdProfileFormProps> = ({ household, onSave }) => {
+    const [name, setName] = useState(household.name);
+    const [members, setMembers] = useState<HouseholdMember[]>(household.members);
+    const [saving, setSaving] = useState(false);
+    const [status, setStatus] = useState('');
+
+    const updateMember = (key: HouseholdMember['key'], changes: Partial<HouseholdMember>) =>
+        setMembers(prev => prev.map(m => m.key === key ? { ...m, ...changes } : m));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const error = await onSave({
+            name: name.trim() || household.name,
+            members: members.map(m => ({ ...m, initials: m.initials.trim() || initialsOf(m.name) }))
+        });
+        setStatus(error || '');
+        setSaving(false);
+    };
+
+    const inputClass = 'w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Household Name</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+            </div>
+
+            {members.map(m => (
+                <div key={m.key} className="p-3 bg-slate-50 rounded-xl space-y-2">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold text-xs shrink-0" style={{ backgroundColor: m.color }}>
+                            {m.initials || initialsOf(m.name)}
+                        </div>
+                        <input type="text" placeholder="Name" value={m.name}
+                               onChange={e => updateMember(m.key, { name: e.target.value })} className={inputClass} />
+                        <input type="text" placeholder="Initials" maxLength={MAX_INITIALS} value={m.initials}
+                               onChange={e => updateMember(m.key, { initials: e.target.value.toUpperCase() })} className={`${inputClass} w-20 text-center uppercase`} />
+                    </div>
+                    <div className="flex gap-2 pl-[52px]">
+                        {SWATCHES.map(color => (
+                            <button key={color} type="button" onClick={() => updateMember(m.key, { color })}
+                                    className="w-6 h-6 rounded-full flex items-center justify-center"
+                                    style={{ backgroundColor: color }} aria-label={color}>
+                                {m.color.toLowerCase() === color && <Check size={14} className="text-white" />}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ))}
+
+            <button type="submit" disabled={saving}
+                    className="w-full py-2 bg-slate-900 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-40">
+                {saving && <Loader2 size={16} className="animate-spin" />}
+                Save Profile
+            </button>
+            {status && <p className="text-sm text-rose-500">{status}</p>}
+        </form>
+    );
+};
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import {
+    Plus,
+    Pause,
+    Play,
+    Trash2,
+    Repeat,
+    SkipForward,
+    Undo2
+} from 'lucide-react';
+import { RecurringFrequency, RecurringTemplate, RecurringTransaction, SplitType } from '@/types';
+import { CURRENCIES, currencySymbol, formatMoney, toMinorUnits } from '@/lib/money';
+import { toDateKey } from '@/lib/dates';
+import { upcomingOccurrences } from '@/lib/recurring';
+import { useHousehold } from '@/components/household-context';
+
+// The server fills in template.owner with whoever creates the schedule, and splits shared
+// schedules by the category's default split, or equally among every member
+export type RecurringDraft = Omit<RecurringTransaction, '_id' | 'nextDate' | 'paused' | 'skipDates' | 'template'> & {
+    template: Omit<RecurringTemplate, 'owner' | 'splitAmong' | 'splitMode' | 'splitValues'>;
+};
+
+interface RecurringViewProps {
+    rules: RecurringTransaction[];
+    categories: string[];
+    // These resolve with an error message, or null on success
+    onCreate: (rule: RecurringDraft) => Promise<string | null>;
+    onSetPaused: (id: string, paused: boolean) => Promise<string | null>;
+    onSkip: (id: string, date: string) => Promise<string | null>;
+    onUnskip: (id: string, date: string) => Promise<string | null>;
+    onDelete: (id: string) => void;
+    onBack: () => void;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const UPCOMING_COUNT = 3;
+
+const ordinal = (n: number): string => {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+    return `${n}${suffix}`;
+};
+
+const describeSchedule = (rule: Pick<RecurringTransaction, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'month'>): string => {
+    if (rule.frequency === 'weekly') return `Every ${WEEKDAYS[rule.dayOfWeek]}`;
+    if (rule.frequency === 'monthly') return `Monthly on the ${ordinal(rule.dayOfMonth)}`;
+    return `Yearly on ${rule.dayOfMonth} ${MONTHS[rule.month - 1]}`;
+};
+
+const formatOccurrence = (dateKey: string): string => {
+    const [y, m, d] = dateKey.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+interface RuleFormState {
+    amount: string;
+    currency: string;
+    category: string;
+    note: string;
+    type: 'income' | 'expense';
+    split: SplitType;
+    frequency: RecurringFrequency;
+    dayOfWeek: number;
+    dayOfMonth: number;
+    month: number;
+    startDate: string;
+}
+
+const RecurringForm: React.FC<{ categories: string[]; onSave: RecurringViewProps['onCreate'] }> = ({ categories, onSave }) => {
+    const today = new Date();
+    const { baseCurrency } = useHousehold();
+    const [form, setForm] = useState<RuleFormState>({
+        amount: '',
+        currency: baseCurrency,
+        category: 'Rent & Housing',
+        note: '',
+        type: 'expense',
+        split: 'shared',
+        frequency: 'monthly',
+        dayOfWeek: today.getDay(),
+        dayOfMonth: today.getDate(),
+        month: today.getMonth() + 1,
+        startDate: toDateKey(today)
+    });
+
+    const [status, setStatus] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = toMinorUnits(form.amount);
+        if (Number.isNaN(amount) || amount < 0) return;
+
+        const error = await onSave({
+            template: { amount, currency: form.currency, category: form.category, note: form.note, type: form.type, split: form.split },
+            frequency: form.frequency,
+            dayOfWeek: form.dayOfWeek,
+            dayOfMonth: form.dayOfMonth,
+            month: form.month,
+            startDate: form.startDate
+        });
+        setStatus(error || '');
+        if (!error) setForm({ ...form, amount: '', note: '' });
+    };
+
+    const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3 mb-6">
+            <h3 className="font-bold text-slate-700">New Recurring Entry</h3>
+            <div className="grid grid-cols-2 gap-3">
+                <div className="flex gap-2">
+                    <input type="number" step="0.01" placeholder={`Amount (${currencySymbol(form.currency).trim()})`} value={form.amount}
+                           onChange={e => setForm({ ...form, amount: e.target.value })} className={inputClass} />
+                    <select value={form.currency} onChange={e => setForm({ ...form, currency: e.target.value })} className={`${inputClass} w-24`}>
+                        {[...new Set([baseCurrency, ...CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </div>
+                <select value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} className={inputClass}>
+                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <select value={form.type} onChange={e => setForm({ ...form, type: e.target.value as RuleFormState['type'] })} className={inputClass}>
+                    <option value="expense">Expense</option>
+                    <option value="income">Income</option>
+                </select>
+                <select value={form.split} onChange={e => setForm({ ...form, split: e.target.value as SplitType })} className={inputClass}>
+                    <option value="shared">Shared</option>
+                    <option value="personal">Personal</option>
+                </select>
+                <select value={form.frequency} onChange={e => setForm({ ...form, frequency: e.target.value as RecurringFrequency })} className={inputClass}>
+                    <option value="weekly">Weekly</option>
+                    <option value="monthly">Monthly</option>
+                    <option value="yearly">Yearly</option>
+                </select>
+                {form.frequency === 'weekly' ? (
+                    <select value={form.dayOfWeek} onChange={e => setForm({ ...form, dayOfWeek: Number(e.target.value) })} className={inputClass}>
+                        {WEEKDAYS.map((d, i) => <option key={d} value={i}>{d}</option>)}
+                    </select>
+                ) : (
+                    <select value={form.dayOfMonth} onChange={e => setForm({ ...form, dayOfMonth: Number(e.target.value) })} className={inputClass}>
+                        {Array.from({ length: 31 }, (_, i) => i + 1).map(d => <option key={d} value={d}>Day {d}</option>)}
+                    </select>
+                )}
+                {form.frequency === 'yearly' && (
+                    <select value={form.month} onChange={e => setForm({ ...form, month: Number(e.target.value) })} className={inputClass}>
+                        {MONTHS.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+                    </select>
+                )}
+            </div>
+            <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Starting</label>
+                <input type="date" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} className={inputClass} />
+            </div>
+            <input type="text" placeholder="Note (e.g. Rent, Netflix)" value={form.note}
+                   onChange={e => setForm({ ...form, note: e.target.value })} className={inputClass} />
+            <button type="submit" className="w-full py-3 bg-slate-900 text-white rounded-xl font-bold flex items-center justify-center gap-2">
+                <Plus size={18} /> Add Schedule
+            </button>
+            {status && <p className="text-sm text-rose-500">{status}</p>}
+        </form>
+    );
+};
+
+export const RecurringView: React.FC<RecurringViewProps> = ({
+                                                                rules, categories, onCreate, onSetPaused, onSkip, onUnskip, onDelete, onBack
+                                                            }) => {
+    const { member, baseCurrency } = useHousehold();
+    const [status, setStatus] = useState('');
+    const run = async (action: Promise<string | null>) => setStatus(await action || '');
+
+    return (
+    <div className="pb-24 animate-in fade-in">
+        <h2 className="text-2xl font-black text-slate-800 mb-2">Recurring & Bills</h2>
+        <p className="text-sm text-slate-500 mb-6">Entries are created automatically on their due date.</p>
+
+        <RecurringForm categories={categories} onSave={onCreate} />
+        {status && <p className="text-sm text-rose-500 mb-3">{status}</p>}
+
+        <div className="space-y-3">
+            {rules.map(rule => {
+                const upcoming = upcomingOccurrences(rule, rule.nextDate, UPCOMING_COUNT);
+                return (
+                    <div key={rule._id} className={`bg-white p-4 rounded-xl border border-slate-100 shadow-sm ${rule.paused ? 'opacity-60' : ''}`}>
+                        <div className="flex justify-between items-start mb-3">
+                            <div className="flex items-center gap-3">
+                                <div className="w-10 h-10 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 shrink-0">
+                                    <Repeat size={18} />
+                                </div>
+                                <div>
+                                    <p className="font-bold text-slate-800 text-sm">{rule.template.note || rule.template.category}</p>
+                                    <p className="text-xs text-slate-500">
+                                        {describeSchedule(rule)} · <span style={{ color: member(rule.template.owner).color }}>{member(rule.template.owner).name}</span>
+                                        {rule.template.split === 'shared' && <span className="ml-1 bg-teal-100 text-teal-700 px-1.5 rounded text-[10px] font-bold">SHARED</span>}
+                                    </p>
+                                </div>
+                            </div>
+                            <span className={`font-bold ${rule.template.type === 'income' ? 'text-emerald-600' : 'text-slate-800'}`}>
+                                {rule.template.type === 'income' ? '+' : '-'}{formatMoney(rule.template.amount, rule.template.currency || baseCurrency)}
+                            </span>
+                        </div>
+
+                        {rule.paused ? (
+                            <p className="text-xs font-bold text-slate-400 uppercase mb-3">Paused</p>
+                        ) : (
+                            <div className="space-y-1 mb-3">
+                                {upcoming.map(date => {
+                                    const skipped = rule.skipDates.includes(date);
+                                    return (
+                                        <div key={date} className="flex justify-between items-center text-xs bg-slate-50 px-3 py-2 rounded-lg">
+                                            <span className={skipped ? 'line-through text-slate-400' : 'text-slate-600 font-medium'}>{formatOccurrence(date)}</span>
+                                            {skipped ? (
+                                                <button onClick={() => run(onUnskip(rule._id, date))} className="flex items-center gap-1 text-blue-500 font-bold">
+                                                    <Undo2 size={12} /> Undo
+                                                </button>
+                                            ) : (
+                                                <button onClick={() => run(onSkip(rule._id, date))} className="flex items-center gap-1 text-slate-400 font-bold hover:text-slate-600">
+                                                    <SkipForward size={12} /> Skip
+                                                </button>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => run(onSetPaused(rule._id, !rule.paused))}
+                                className="flex items-center gap-1 bg-slate-100 text-slate-600 px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-200 transition-colors"
+                            >
+                                {rule.paused ? <><Play size={12} /> Resume</> : <><Pause size={12} /> Pause</>}
+                            </button>
+                            <button
+                                onClick={() => onDelete(rule._id)}
+                                className="flex items-center gap-1 bg-rose-50 text-rose-600 px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-rose-100 transition-colors"
+                            >
+                                <Trash2 size={12} /> Delete
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+            {rules.length === 0 && (
+                <div className="text-center py-10 text-slate-400">
+                    <Repeat size={48} className="mx-auto mb-2 opacity-20" />
+                    <p className="text-sm">No recurring entries yet.</p>
+                </div>
+            )}
+        </div>
+
+        <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+    </div>
+    );
+};
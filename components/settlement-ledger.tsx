@@ -0,0 +1,68 @@
+import React from 'react';
+import { ArrowRight, History, Undo2 } from 'lucide-react';
+import { LedgerEntry, SettlementMethod } from '@/types';
+import { formatMoney } from '@/lib/money';
+import { useHousehold } from '@/components/household-context';
+
+export const SETTLEMENT_METHOD_LABELS: Record<SettlementMethod, string> = {
+    cash: 'Cash',
+    upi: 'UPI',
+    bank_transfer: 'Bank Transfer'
+};
+
+interface SettlementLedgerViewProps {
+    entries: LedgerEntry[];
+    onUndo: (id: string) => void;
+    onBack: () => void;
+}
+
+export const SettlementLedgerView: React.FC<SettlementLedgerViewProps> = ({ entries, onUndo, onBack }) => {
+    const { member, baseCurrency } = useHousehold();
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Settlement History</h2>
+            <p className="text-sm text-slate-500 mb-6">Every payment between members and what was still owed after it.</p>
+
+            <div className="space-y-3">
+                {entries.map(({ transaction: t, outstanding }) => (
+                    <div key={t._id} className="bg-white p-4 rounded-xl border border-slate-100 shadow-sm">
+                        <div className="flex justify-between items-start mb-3">
+                            <div>
+                                <p className="flex items-center gap-1.5 font-bold text-sm">
+                                    <span style={{ color: t.from && member(t.from).color }}>{t.from && member(t.from).name}</span>
+                                    <ArrowRight size={14} className="text-slate-400" />
+                                    <span style={{ color: t.to && member(t.to).color }}>{t.to && member(t.to).name}</span>
+                                </p>
+                                <p className="text-xs text-slate-500">
+                                    {t.date}
+                                    {t.method && <span className="ml-1 bg-slate-100 text-slate-600 px-1.5 rounded text-[10px] font-bold uppercase">{SETTLEMENT_METHOD_LABELS[t.method]}</span>}
+                                </p>
+                            </div>
+                            <span className="font-bold text-slate-800">{formatMoney(t.amount, t.currency || baseCurrency, 2)}</span>
+                        </div>
+
+                        <div className="flex justify-between items-center text-xs bg-slate-50 px-3 py-2 rounded-lg">
+                            <span className="text-slate-600 font-medium">
+                                {outstanding.amount === 0
+                                    ? 'All square after this'
+                                    : `${member(outstanding.from).name} still owed ${member(outstanding.to).name} ${formatMoney(outstanding.amount, baseCurrency, 2)}`}
+                            </span>
+                            <button onClick={() => onUndo(t._id)} className="flex items-center gap-1 text-rose-500 font-bold hover:text-rose-600">
+                                <Undo2 size={12} /> Undo
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                {entries.length === 0 && (
+                    <div className="text-center py-10 text-slate-400">
+                        <History size={48} className="mx-auto mb-2 opacity-20" />
+                        <p className="text-sm">No settlements yet.</p>
+                    </div>
+                )}
+            </div>
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Dashboard</button>
+        </div>
+    );
+};
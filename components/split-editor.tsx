@@ -0,0 +1,102 @@
+import React from 'react';
+import { Owner, SplitMode } from '@/types';
+import { parseSplitValues, sharesFor, splitError } from '@/lib/splits';
+import { currencySymbol, formatMoney } from '@/lib/money';
+import { useHousehold } from '@/components/household-context';
+
+export interface SplitDraft {
+    mode: SplitMode;
+    values: Record<Owner, string>; // As typed; fixed amounts in whole currency units
+    splitAmong: Owner[];           // Equal splits only; empty means every member
+}
+
+interface SplitEditorProps {
+    split: SplitDraft;
+    onChange: (split: SplitDraft) => void;
+    modes?: SplitMode[];
+    amount?: number; // Hundredths of `currency`; when known, each member's portion is previewed
+    currency?: string; // Defaults to the household's base currency
+}
+
+const MODE_LABELS: Record<Exclude<SplitMode, 'fixed'>, string> = { equal: 'Equal', percentage: '%', shares: 'Shares' };
+const VALUE_SUFFIX: Record<Exclude<SplitMode, 'fixed'>, string> = { equal: '', percentage: '%', shares: '×' };
+
+// Why the split can't be saved yet, or null. Shared by the editor and the forms that embed it.
+export const splitDraftError = (split: SplitDraft, amount?: number): string | null =>
+    split.mode === 'equal' ? null : splitError(split.mode, parseSplitValues(split.mode, split.values), amount);
+
+export const SplitEditor: React.FC<SplitEditorProps> = ({ split, onChange, modes = ['equal', 'percentage', 'fixed', 'shares'], amount, currency }) => {
+    const { members, baseCurrency } = useHousehold();
+    const symbol = currencySymbol(currency || baseCurrency).trim();
+    const labelOf = (mode: SplitMode) => mode === 'fixed' ? symbol : MODE_LABELS[mode];
+    const suffixOf = (mode: SplitMode) => mode === 'fixed' ? symbol : VALUE_SUFFIX[mode];
+    const error = splitDraftError(split, amount);
+    const hasAmount = amount !== undefined && !Number.isNaN(amount);
+
+    // An empty list means the expense is split among everyone
+    const isSplitWith = (key: Owner) => split.splitAmong.length === 0 || split.splitAmong.includes(key);
+    const toggleSplitWith = (key: Owner) => {
+        const current = split.splitAmong.length === 0 ? members.map(m => m.key) : split.splitAmong;
+        const next = current.includes(key) ? current.filter(k => k !== key) : [...current, key];
+        if (next.length === 0) return;
+        onChange({ ...split, splitAmong: next.length === members.length ? [] : next });
+    };
+
+    const portions = hasAmount && !error
+        ? sharesFor({
+            type: 'expense',
+            split: 'shared',
+            amount,
+            splitMode: split.mode,
+            splitAmong: split.splitAmong.length > 0 ? split.splitAmong : members.map(m => m.key),
+            splitValues: parseSplitValues(split.mode, split.values)
+        })
+        : [];
+    const portionOf = (key: Owner) => portions.find(p => p.member === key)?.amount ?? 0;
+
+    return (
+        <div className="space-y-3">
+            <div className="bg-slate-100 p-1 rounded-xl flex">
+                {modes.map(mode => (
+                    <button key={mode} type="button" onClick={() => onChange({ ...split, mode })}
+                            className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all ${split.mode === mode ? 'bg-white shadow text-teal-600' : 'text-slate-400'}`}>
+                        {labelOf(mode)}
+                    </button>
+                ))}
+            </div>
+
+            {split.mode === 'equal' ? (
+                <div className="flex flex-wrap gap-2">
+                    {members.map(m => (
+                        <button key={m.key} type="button" onClick={() => toggleSplitWith(m.key)}
+                                className={`px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-all ${isSplitWith(m.key) ? 'text-white' : 'bg-white border-slate-100 text-slate-400'}`}
+                                style={isSplitWith(m.key) ? { backgroundColor: m.color, borderColor: m.color } : undefined}>
+                            {m.name}
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {members.map(m => (
+                        <div key={m.key} className="flex items-center gap-3">
+                            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: m.color }} />
+                            <span className="flex-1 text-sm font-medium text-slate-700 truncate">{m.name}</span>
+                            <div className="relative w-28">
+                                <input type="number" step={split.mode === 'shares' ? '1' : '0.01'} min="0" placeholder="0"
+                                       value={split.values[m.key] ?? ''}
+                                       onChange={e => onChange({ ...split, values: { ...split.values, [m.key]: e.target.value } })}
+                                       className="w-full p-2 pr-7 bg-white border border-slate-200 rounded-lg text-sm font-medium text-right outline-none focus:ring-2 focus:ring-slate-100" />
+                                <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">{suffixOf(split.mode)}</span>
+                            </div>
+                            {hasAmount && (
+                                <span className="w-20 text-right text-xs font-bold text-slate-500">{formatMoney(portionOf(m.key), currency || baseCurrency, 2)}</span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {error && <p className="text-xs font-bold text-rose-500">{error}</p>}
+        </div>
+    );
+};
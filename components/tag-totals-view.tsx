@@ -0,0 +1,71 @@
+import React from 'react';
+import { Hash } from 'lucide-react';
+import { TagTotal } from '@/types';
+import { formatMoney } from '@/lib/money';
+import { useHousehold } from '@/components/household-context';
+
+export interface TagRange {
+    from: string; // 'YYYY-MM-DD'; empty for no bound
+    to: string;
+}
+
+interface TagTotalsViewProps {
+    totals: TagTotal[];
+    range: TagRange;
+    onRangeChange: (range: TagRange) => void;
+    onTagClick: (tag: string) => void;
+    onBack: () => void;
+}
+
+// Spend per tag over any stretch of time, e.g. everything tagged "goa-trip" however many months it spans
+export const TagTotalsView: React.FC<TagTotalsViewProps> = ({ totals, range, onRangeChange, onTagClick, onBack }) => {
+    const { baseCurrency } = useHousehold();
+    const largest = Math.max(...totals.map(t => t.expense), 1);
+
+    const inputClass = 'w-full p-3 bg-white border border-slate-200 rounded-xl font-medium outline-none focus:ring-2 focus:ring-slate-100';
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Spend by Tag</h2>
+            <p className="text-sm text-slate-500 mb-6">An entry with several tags counts towards each of them.</p>
+
+            <div className="grid grid-cols-2 gap-3 mb-6">
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">From</label>
+                    <input type="date" value={range.from} onChange={e => onRangeChange({ ...range, from: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">To</label>
+                    <input type="date" value={range.to} onChange={e => onRangeChange({ ...range, to: e.target.value })} className={inputClass} />
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                {totals.map(t => (
+                    <button key={t.tag} onClick={() => onTagClick(t.tag)}
+                            className="w-full text-left bg-white p-4 rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-shadow">
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="font-bold text-slate-700 text-sm">#{t.tag}</span>
+                            <span className="font-bold text-slate-800">{formatMoney(t.expense, baseCurrency)}</span>
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-1.5">
+                            <div className="h-full rounded-full bg-blue-500" style={{ width: `${(t.expense / largest) * 100}%` }} />
+                        </div>
+                        <p className="text-xs text-slate-400">
+                            {t.count} {t.count === 1 ? 'entry' : 'entries'}
+                            {t.income > 0 && <span className="text-emerald-600 font-bold"> · +{formatMoney(t.income, baseCurrency)} income</span>}
+                        </p>
+                    </button>
+                ))}
+                {totals.length === 0 && (
+                    <div className="text-center py-10 text-slate-400">
+                        <Hash size={48} className="mx-auto mb-2 opacity-20" />
+                        <p className="text-sm">No tagged entries in this range.</p>
+                    </div>
+                )}
+            </div>
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Analytics</button>
+        </div>
+    );
+};
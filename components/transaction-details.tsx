@@ -2,39 +2,50 @@ import React from 'react';
 import {
     X,
     Trash2,
+    Pencil,
     Calendar,
     User,
     Wallet,
     FileText,
-    Tag
+    Tag,
+    Landmark,
+    Hash,
+    History,
+    PiggyBank
 } from 'lucide-react';
-import { Transaction } from '@/types';
+import { AuditEntry, SplitMode, Transaction } from '@/types';
+import { baseAmountOf, formatMoney } from '@/lib/money';
+import { useHousehold } from '@/components/household-context';
+import { SETTLEMENT_METHOD_LABELS } from '@/components/settlement-ledger';
+import { ActivityItem } from '@/components/activity-feed';
+
+const SPLIT_MODE_LABELS: Record<SplitMode, string> = { equal: 'Equal', percentage: 'By %', fixed: 'Fixed amounts', shares: 'By shares' };
 
 interface TransactionDetailsModalProps {
     isOpen: boolean;
     onClose: () => void;
     transaction: Transaction | null;
+    history: AuditEntry[] | null; // Who created and changed it, newest first; null while loading
     onDelete: (id: string) => void;
+    onEdit: (transaction: Transaction) => void;
 }
 
-const COLORS = {
-    me: '#3b82f6',
-    her: '#d946ef',
-    income: '#10b981',
-    expense: '#f43f5e',
-    settlement: '#64748b',
-};
-
 export const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({
                                                                                     isOpen,
                                                                                     onClose,
                                                                                     transaction,
-                                                                                    onDelete
+                                                                                    history,
+                                                                                    onDelete,
+                                                                                    onEdit
                                                                                 }) => {
+    const { member, accountName, goalName, baseCurrency } = useHousehold();
     if (!isOpen || !transaction) return null;
 
     const isIncome = transaction.type === 'income';
     const isSettlement = transaction.type === 'settlement';
+    const isTransfer = transaction.type === 'transfer';
+    const isMoneyMovement = isSettlement || isTransfer; // Neither income nor expense
+    const shares = transaction.shares || [];
 
     // Format date
     const dateObj = new Date(transaction.date);
@@ -50,12 +61,17 @@ export const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = (
         onClose();
     };
 
+    const handleEdit = () => {
+        onEdit(transaction);
+        onClose();
+    };
+
     return (
         <div className="fixed inset-0 bg-black/60 z-[70] flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
             <div className="bg-white w-full max-w-sm rounded-3xl overflow-hidden shadow-2xl scale-100 animate-in zoom-in-95 duration-200">
 
                 {/* Header / Banner */}
-                <div className={`relative h-24 flex items-start justify-end p-4 ${isIncome ? 'bg-emerald-50' : isSettlement ? 'bg-slate-100' : 'bg-rose-50'}`}>
+                <div className={`relative h-24 flex items-start justify-end p-4 ${isIncome ? 'bg-emerald-50' : isMoneyMovement ? 'bg-slate-100' : 'bg-rose-50'}`}>
                     <button
                         onClick={onClose}
                         className="bg-white/80 p-2 rounded-full hover:bg-white transition-colors"
@@ -65,7 +81,7 @@ export const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = (
 
                     {/* Icon Bubble */}
                     <div className="absolute -bottom-8 left-6">
-                        <div className={`w-16 h-16 rounded-2xl flex items-center justify-center shadow-lg border-4 border-white ${isIncome ? 'bg-emerald-500' : isSettlement ? 'bg-slate-500' : 'bg-rose-500'}`}>
+                        <div className={`w-16 h-16 rounded-2xl flex items-center justify-center shadow-lg border-4 border-white ${isIncome ? 'bg-emerald-500' : isMoneyMovement ? 'bg-slate-500' : 'bg-rose-500'}`}>
                             <Tag size={32} className="text-white" />
                         </div>
                     </div>
@@ -75,9 +91,14 @@ export const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = (
                 <div className="pt-10 px-6 pb-6">
                     <div className="mb-6">
                         <h2 className="text-2xl font-black text-slate-800">{transaction.category}</h2>
-                        <p className={`text-3xl font-bold mt-1 ${isIncome ? 'text-emerald-600' : isSettlement ? 'text-slate-600' : 'text-rose-600'}`}>
-                            {isIncome ? '+' : ''}₹{Number(transaction.amount).toLocaleString()}
+                        <p className={`text-3xl font-bold mt-1 ${isIncome ? 'text-emerald-600' : isMoneyMovement ? 'text-slate-600' : 'text-rose-600'}`}>
+                            {isIncome ? '+' : ''}{formatMoney(transaction.amount, transaction.currency || baseCurrency, 2)}
                         </p>
+                        {transaction.currency && transaction.currency !== baseCurrency && (
+                            <p className="text-sm font-medium text-slate-500 mt-1">
+                                ≈ {formatMoney(baseAmountOf(transaction), baseCurrency, 2)} at {transaction.currency} rate on {transaction.date}
+                            </p>
+                        )}
                     </div>
 
                     <div className="space-y-4">
@@ -96,23 +117,99 @@ export const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = (
                                 <User className="text-slate-400" size={20} />
                                 <div>
                                     <p className="text-xs font-bold text-slate-400 uppercase">Paid By</p>
-                                    <p className="font-bold capitalize" style={{ color: transaction.owner === 'me' ? COLORS.me : COLORS.her }}>
-                                        {transaction.owner}
+                                    <p className="font-bold" style={{ color: member(transaction.owner).color }}>
+                                        {member(transaction.owner).name}
                                     </p>
                                 </div>
                             </div>
 
-                            {!isSettlement && (
+                            {isSettlement && transaction.to && (
+                                <div className="flex-1 flex items-center gap-3 p-3 bg-slate-50 rounded-xl">
+                                    <User className="text-slate-400" size={20} />
+                                    <div>
+                                        <p className="text-xs font-bold text-slate-400 uppercase">Paid To</p>
+                                        <p className="font-bold" style={{ color: member(transaction.to).color }}>
+                                            {member(transaction.to).name}
+                                        </p>
+                                        {transaction.method && (
+                                            <p className="text-xs text-slate-500">via {SETTLEMENT_METHOD_LABELS[transaction.method]}</p>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
+                            {!isMoneyMovement && (
                                 <div className="flex-1 flex items-center gap-3 p-3 bg-slate-50 rounded-xl">
                                     <Wallet className="text-slate-400" size={20} />
                                     <div>
                                         <p className="text-xs font-bold text-slate-400 uppercase">Split</p>
-                                        <p className="text-slate-700 font-medium capitalize">{transaction.split}</p>
+                                        <p className="text-slate-700 font-medium capitalize">
+                                            {transaction.split}
+                                            {transaction.split === 'shared' && ` · ${SPLIT_MODE_LABELS[transaction.splitMode || 'equal']}`}
+                                        </p>
                                     </div>
                                 </div>
                             )}
                         </div>
 
+                        {/* Account Row */}
+                        {transaction.accountId && (
+                            <div className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl">
+                                <Landmark className="text-slate-400" size={20} />
+                                <div>
+                                    <p className="text-xs font-bold text-slate-400 uppercase">
+                                        {isTransfer ? 'Transferred' : isIncome ? 'Paid Into' : 'Paid From'}
+                                    </p>
+                                    <p className="text-slate-700 font-medium">
+                                        {accountName(transaction.accountId)}
+                                        {isTransfer && transaction.toAccountId && ` → ${accountName(transaction.toAccountId)}`}
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Goal Row */}
+                        {transaction.goalId && (
+                            <div className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl">
+                                <PiggyBank className="text-slate-400" size={20} />
+                                <div>
+                                    <p className="text-xs font-bold text-slate-400 uppercase">Towards Goal</p>
+                                    <p className="text-slate-700 font-medium">{goalName(transaction.goalId)}</p>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Portions Row */}
+                        {shares.length > 0 && (
+                            <div className="p-3 bg-slate-50 rounded-xl space-y-2">
+                                <p className="text-xs font-bold text-slate-400 uppercase">Each Person&apos;s Share</p>
+                                {shares.map(s => (
+                                    <div key={s.member} className="flex justify-between items-center text-sm">
+                                        <span className="font-bold" style={{ color: member(s.member).color }}>{member(s.member).name}</span>
+                                        <span className="font-medium text-slate-700">
+                                            {formatMoney(s.amount, baseCurrency, 2)}
+                                            <span className="text-xs text-slate-400 ml-1">({Math.round(s.amount * 1000 / baseAmountOf(transaction)) / 10}%)</span>
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Tags Row */}
+                        {transaction.tags && transaction.tags.length > 0 && (
+                            <div className="flex items-start gap-3 p-3 bg-slate-50 rounded-xl">
+                                <Hash className="text-slate-400 shrink-0 mt-0.5" size={20} />
+                                <div>
+                                    <p className="text-xs font-bold text-slate-400 uppercase">Tags</p>
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                        {transaction.tags.map(tag => (
+                                            <span key={tag} className="bg-white border border-slate-200 text-slate-600 px-2 py-0.5 rounded-full text-xs font-bold">#{tag}</span>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Note Row */}
                         {transaction.note && (
                             <div className="flex items-start gap-3 p-3 bg-slate-50 rounded-xl">
@@ -125,18 +222,41 @@ export const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = (
                         )}
                     </div>
 
+                    {/* History */}
+                    {history && history.length > 0 && (
+                        <div className="mt-4 p-3 bg-slate-50 rounded-xl">
+                            <p className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase mb-1">
+                                <History size={14} /> History
+                            </p>
+                            <div className="max-h-40 overflow-y-auto -mx-3">
+                                {history.map(entry => <ActivityItem key={entry._id} entry={entry} showSubject={false} />)}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Footer Actions */}
                     <div className="mt-8 pt-4 border-t border-slate-100 flex justify-between items-center">
                         <button onClick={onClose} className="font-bold text-slate-400 text-sm hover:text-slate-600">
                             Close
                         </button>
 
-                        <button
-                            onClick={handleDelete}
-                            className="flex items-center gap-2 bg-rose-50 text-rose-600 px-4 py-2 rounded-lg font-bold hover:bg-rose-100 transition-colors"
-                        >
-                            <Trash2 size={16} /> Delete
-                        </button>
+                        <div className="flex gap-2">
+                            {/* Settlements carry from/to fields the entry form doesn't edit */}
+                            {!isSettlement && (
+                                <button
+                                    onClick={handleEdit}
+                                    className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-lg font-bold hover:bg-slate-200 transition-colors"
+                                >
+                                    <Pencil size={16} /> Edit
+                                </button>
+                            )}
+                            <button
+                                onClick={handleDelete}
+                                className="flex items-center gap-2 bg-rose-50 text-rose-600 px-4 py-2 rounded-lg font-bold hover:bg-rose-100 transition-colors"
+                            >
+                                <Trash2 size={16} /> Delete
+                            </button>
+                        </div>
                     </div>
                 </div>
             </div>
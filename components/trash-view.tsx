@@ -0,0 +1,93 @@
+import React from 'react';
+import { Trash2, Undo2 } from 'lucide-react';
+import { Owner, Trash, TrashCollection } from '@/types';
+import { formatMoney } from '@/lib/money';
+import { useHousehold } from '@/components/household-context';
+
+interface TrashViewProps {
+    trash: Trash | null; // Null while loading
+    onRestore: (collection: TrashCollection, id: string) => void;
+    onPurge: (collection: TrashCollection, id: string) => void;
+    onBack: () => void;
+}
+
+const formatDay = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const TrashView: React.FC<TrashViewProps> = ({ trash, onRestore, onPurge, onBack }) => {
+    const { member, baseCurrency } = useHousehold();
+
+    const deletedLine = (deletedAt?: string, deletedBy?: Owner) => {
+        if (!deletedAt || !trash) return null;
+        const deleted = new Date(deletedAt);
+        const purged = new Date(deleted.getTime() + trash.retentionDays * 24 * 60 * 60 * 1000);
+        return `Deleted ${deletedBy ? `by ${member(deletedBy).name} ` : ''}on ${formatDay(deleted)} · gone for good on ${formatDay(purged)}`;
+    };
+
+    const actions = (collection: TrashCollection, id: string) => (
+        <div className="flex items-center gap-3 shrink-0">
+            <button onClick={() => onRestore(collection, id)} className="flex items-center gap-1 text-xs font-bold text-teal-600 hover:text-teal-700">
+                <Undo2 size={12} /> Restore
+            </button>
+            <button onClick={() => onPurge(collection, id)} aria-label="Delete forever" className="text-slate-300 hover:text-rose-500">
+                <Trash2 size={16} />
+            </button>
+        </div>
+    );
+
+    const isEmpty = trash && trash.transactions.length === 0 && trash.todos.length === 0;
+
+    return (
+        <div className="pb-24 animate-in fade-in">
+            <h2 className="text-2xl font-black text-slate-800 mb-2">Trash</h2>
+            <p className="text-sm text-slate-500 mb-6">
+                Deleted transactions and todos wait here until they are removed for good. They don&apos;t count towards totals, budgets or balances unless restored.
+            </p>
+
+            {trash && trash.transactions.length > 0 && (
+                <>
+                    <h3 className="font-bold text-slate-700 mb-2">Transactions</h3>
+                    <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm mb-6">
+                        {trash.transactions.map(t => (
+                            <div key={t._id} className="flex justify-between items-center gap-3 p-4 border-b border-slate-50 last:border-0">
+                                <div className="min-w-0">
+                                    <p className="font-bold text-slate-700 text-sm truncate">
+                                        {t.category} <span className="font-medium text-slate-400">· {t.date}</span>
+                                    </p>
+                                    <p className="text-sm font-bold text-slate-800">{formatMoney(t.amount, t.currency || baseCurrency, 2)}</p>
+                                    <p className="text-xs text-slate-400">{deletedLine(t.deletedAt, t.deletedBy)}</p>
+                                </div>
+                                {actions('transactions', t._id)}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            {trash && trash.todos.length > 0 && (
+                <>
+                    <h3 className="font-bold text-slate-700 mb-2">Todos</h3>
+                    <div className="bg-white rounded-xl overflow-hidden border border-slate-100 shadow-sm mb-6">
+                        {trash.todos.map(t => (
+                            <div key={t._id} className="flex justify-between items-center gap-3 p-4 border-b border-slate-50 last:border-0">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-slate-700 text-sm truncate">{t.text}</p>
+                                    <p className="text-xs text-slate-400">{deletedLine(t.deletedAt, t.deletedBy)}</p>
+                                </div>
+                                {actions('todos', t._id)}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            {isEmpty && (
+                <div className="text-center py-10 text-slate-400">
+                    <Trash2 size={48} className="mx-auto mb-2 opacity-20" />
+                    <p className="text-sm">The trash is empty.</p>
+                </div>
+            )}
+
+            <button onClick={onBack} className="block mx-auto mt-6 text-slate-400 font-medium">Back to Settings</button>
+        </div>
+    );
+};
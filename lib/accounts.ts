@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import Account from '@/models/account';
+import Transaction from '@/models/transactions';
+import { BASE_AMOUNT } from '@/lib/summary';
+import { InputError } from '@/lib/validation';
+import { Account as AccountWithBalance } from '@/types';
+
+export class AccountError extends InputError {}
+
+export const TRANSFER_CATEGORY = 'Transfer';
+
+export async function getAccountIds(householdId: mongoose.Types.ObjectId): Promise<string[]> {
+    const accounts = await Account.find({ householdId }, '_id').lean<{ _id: mongoose.Types.ObjectId }[]>();
+    return accounts.map(a => a._id.toString());
+}
+
+interface AccountFields {
+    type?: unknown;
+    category?: unknown;
+    accountId?: unknown;
+    toAccountId?: unknown;
+}
+
+// Checks that the accounts a transaction names belong to the household. The account is optional
+// except on transfers, which move money from `accountId` to a different `toAccountId` and are never
+// split or counted as income or expense. Only transfers keep a `toAccountId`.
+export const resolveAccountFields = <T extends AccountFields>(fields: T, accountIds: string[]): T => {
+    const isAccount = (id: unknown) => typeof id === 'string' && accountIds.includes(id);
+    const accountId = fields.accountId || undefined;
+
+    if (fields.type !== 'transfer') {
+        if (accountId !== undefined && !isAccount(accountId)) throw new AccountError('Unknown account');
+        return { ...fields, accountId, toAccountId: undefined };
+    }
+
+    if (!isAccount(accountId) || !isAccount(fields.toAccountId)) {
+        throw new AccountError('Transfers need a from and a to account in the household');
+    }
+    if (accountId === fields.toAccountId) throw new AccountError('A transfer needs two different accounts');
+    return {
+        ...fields,
+        accountId,
+        category: TRANSFER_CATEGORY,
+        split: undefined,
+        splitAmong: undefined,
+        splitMode: undefined,
+        splitValues: undefined
+    };
+};
+
+type MovementRow = { _id: mongoose.Types.ObjectId; amount: number };
+
+// Every account with its balance right now: the opening balance, plus income paid into it, minus
+// expenses and settlements paid out of it, with transfers moving money from one account to another.
+// Amounts are in the base currency, so foreign entries count at the rate they were recorded at.
+export async function getAccountBalances(householdId: mongoose.Types.ObjectId): Promise<AccountWithBalance[]> {
+    const [accounts, movements] = await Promise.all([
+        Account.find({ householdId }).sort({ name: 1 }).lean<Omit<AccountWithBalance, 'balance'>[]>(),
+        Transaction.aggregate<MovementRow>([
+            { $match: { householdId, accountId: { $ne: null } } },
+            {
+                $project: {
+                    movements: [
+                        {
+                            account: '$accountId',
+                            amount: { $cond: [{ $eq: ['$type', 'income'] }, BASE_AMOUNT, { $multiply: [-1, BASE_AMOUNT] }] }
+                        },
+                        { account: '$toAccountId', amount: BASE_AMOUNT }
+                    ]
+                }
+            },
+            { $unwind: '$movements' },
+            { $match: { 'movements.account': { $ne: null } } },
+            { $group: { _id: '$movements.account', amount: { $sum: '$movements.amount' } } }
+        ])
+    ]);
+
+    return accounts.map(a => {
+        const moved = movements.find(m => m._id.toString() === a._id.toString())?.amount ?? 0;
+        return { ...a, balance: a.openingBalance + moved };
+    });
+}
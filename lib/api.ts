@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+import { InputError, parse, Schema, ValidationError } from '@/lib/validation';
+import { VersionConflictError } from '@/lib/versioning';
+import { ApiErrorBody } from '@/types';
+
+// Every failed request is answered with an ApiErrorBody:
+// 400 the body isn't JSON, 401 signed out, 404 unknown id, 409 conflicts with what is stored
+// (including edits based on an outdated version),
+// 422 input that fails validation, 500 anything unexpected (logged, never echoed back).
+
+export const apiError = (status: number, message: string, fields?: ApiErrorBody['fields']) =>
+    NextResponse.json<ApiErrorBody>({ success: false, message, ...(fields && { fields }) }, { status });
+
+export const notFound = (what: string) => apiError(404, `${what} not found`);
+
+export const invalid = (message: string, fields?: ApiErrorBody['fields']) => apiError(422, message, fields);
+
+// Reads the body and checks it against `schema`; anything else in the body is dropped
+export async function readBody<T>(req: Request, schema: Schema<T>): Promise<T> {
+    return parse(schema, await req.json());
+}
+
+export function handleRouteError(error: unknown): NextResponse {
+    // What req.json() throws on a body that isn't JSON
+    if (error instanceof SyntaxError) return apiError(400, 'Request body must be JSON');
+    if (error instanceof ValidationError) return invalid(error.message, error.fields);
+    if (error instanceof InputError) return invalid(error.message);
+    if (error instanceof mongoose.Error.ValidationError) {
+        const fields = Object.fromEntries(Object.entries(error.errors).map(([path, e]) => [path, e.message]));
+        return invalid(Object.values(fields)[0] ?? 'Invalid request', fields);
+    }
+    if (error instanceof mongoose.Error.CastError) return invalid(`Invalid ${error.path}`, { [error.path]: `Invalid ${error.path}` });
+    if ((error as { code?: number }).code === 11000) return apiError(409, 'That already exists');
+    if (error instanceof VersionConflictError) return apiError(409, error.message);
+    // A versioned save() whose document changed (or was deleted) after it was loaded
+    if (error instanceof mongoose.Error.DocumentNotFoundError) return apiError(409, 'It was changed by someone else in the meantime');
+
+    console.error(error);
+    return apiError(500, 'Something went wrong');
+}
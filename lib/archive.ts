@@ -0,0 +1,210 @@
+import mongoose from 'mongoose';
+import Transaction from '@/models/transactions';
+import Budget from '@/models/budget';
+import Todo from '@/models/todo';
+import BudgetSnapshot from '@/models/budget-snapshot';
+import { toCsv } from '@/lib/csv';
+import { fromMinorUnits } from '@/lib/money';
+import { syncCurrentSnapshot } from '@/lib/budget-snapshots';
+import { recordReset } from '@/lib/change-feed';
+import { getMemberKeys, resolveMemberFields } from '@/lib/household';
+import { getAccountIds, resolveAccountFields } from '@/lib/accounts';
+import { getGoalIds, resolveGoalField } from '@/lib/goals';
+import { withBaseAmounts } from '@/lib/exchange-rates';
+import { sharesFor } from '@/lib/splits';
+import { InputError } from '@/lib/validation';
+import { Owner, RestoreMode } from '@/types';
+
+// Bump when the shape of an archived document changes, and teach upgradeArchive to upgrade older versions
+export const ARCHIVE_VERSION = 2;
+
+export const ARCHIVE_COLLECTIONS = ['transactions', 'budgets', 'todos'] as const;
+export type ArchiveCollection = typeof ARCHIVE_COLLECTIONS[number];
+
+export interface Archive {
+    version: number;
+    exportedAt: string;
+    transactions: Record<string, unknown>[];
+    budgets: Record<string, unknown>[];
+    todos: Record<string, unknown>[];
+}
+
+export class ArchiveError extends InputError {}
+
+const MODELS: Record<ArchiveCollection, typeof Transaction> = {
+    transactions: Transaction,
+    budgets: Budget,
+    todos: Todo,
+};
+
+// Archives are household-agnostic: householdId is left out on export and stamped back on restore
+export async function buildArchive(householdId: mongoose.Types.ObjectId): Promise<Archive> {
+    const [transactions, budgets, todos] = await Promise.all(
+        ARCHIVE_COLLECTIONS.map(name => MODELS[name].find({ householdId }, '-householdId').lean())
+    );
+    return { version: ARCHIVE_VERSION, exportedAt: new Date().toISOString(), transactions, budgets, todos };
+}
+
+// Spreadsheet-friendly columns; amounts in whole currency units rather than the stored hundredths
+const CSV_COLUMNS: Record<ArchiveCollection, string[]> = {
+    transactions: ['_id', 'date', 'type', 'category', 'amount', 'currency', 'baseAmount', 'owner', 'split', 'splitAmong', 'splitMode', 'from', 'to', 'method', 'accountId', 'toAccountId', 'tags', 'note', 'createdAt'],
+    budgets: ['_id', 'category', 'owner', 'amount', 'period', 'rollover'],
+    todos: ['_id', 'text', 'completed', 'createdBy', 'createdAt'],
+};
+
+export async function buildCollectionCsv(householdId: mongoose.Types.ObjectId, collection: ArchiveCollection): Promise<string> {
+    const docs = await MODELS[collection].find({ householdId }).lean<Record<string, unknown>[]>();
+    const rows = collection === 'todos' ? docs : docs.map(d => ({
+        ...d,
+        amount: fromMinorUnits(Number(d.amount)),
+        ...(d.baseAmount !== undefined && { baseAmount: fromMinorUnits(Number(d.baseAmount)) })
+    }));
+    return toCsv(CSV_COLUMNS[collection], rows);
+}
+
+// References a transaction makes outside the archive: member keys, accounts and savings goals
+interface HouseholdRefs {
+    keys: Owner[];
+    accountIds: string[];
+    goalIds: string[];
+}
+
+// Checks a transaction's members, accounts and goal the way POST /api/transactions does. Shares are
+// derived data and replaceOne/insertMany skip the hook that computes them, so they are rebuilt here;
+// archives from two-person households may predate splitAmong entirely.
+const resolveTransaction = (doc: Record<string, unknown>, { keys, accountIds, goalIds }: HouseholdRefs) => {
+    const tx = resolveMemberFields(resolveGoalField(resolveAccountFields(doc, accountIds), goalIds), keys) as Parameters<typeof sharesFor>[0] & Record<string, unknown>;
+    const shares = sharesFor(tx);
+    return { ...tx, shares: shares.length > 0 ? shares : undefined };
+};
+
+// Version 1 was never bumped while accounts, currencies, tags, goals, versions and the trash were added,
+// so a v1 archive may or may not carry those fields. All of them are optional and checked again below,
+// and baseAmount is recomputed, so both kinds upgrade unchanged.
+const upgradeArchive = (archive: Partial<Archive>): Partial<Archive> =>
+    archive.version === 1 ? { ...archive, version: 2 } : archive;
+
+// Checks the archive's shape and validates every document against its schema, and every reference
+// against the household, before anything is written. Amounts are converted to the household's base
+// currency at its own exchange rates, as the archive may come from a household with a different one.
+const validateArchive = async (archive: unknown, householdId: mongoose.Types.ObjectId, refs: HouseholdRefs): Promise<Archive> => {
+    if (!archive || typeof archive !== 'object') throw new ArchiveError('Archive must be a JSON object');
+    const candidate = upgradeArchive(archive as Partial<Archive>);
+    if (candidate.version !== ARCHIVE_VERSION) {
+        throw new ArchiveError(`Unsupported archive version ${candidate.version}; expected ${ARCHIVE_VERSION}`);
+    }
+
+    for (const name of ARCHIVE_COLLECTIONS) {
+        const docs = candidate[name];
+        if (!Array.isArray(docs)) throw new ArchiveError(`Archive is missing the "${name}" array`);
+        candidate[name] = docs.map((doc, i) => {
+            if (name !== 'transactions') return { ...doc, householdId };
+            try {
+                return { ...resolveTransaction(doc, refs), householdId };
+            } catch (error) {
+                if (error instanceof InputError) throw new ArchiveError(`${name}[${i}]: ${error.message}`);
+                throw error;
+            }
+        });
+    }
+    candidate.transactions = await withBaseAmounts(householdId, candidate.transactions!);
+
+    for (const name of ARCHIVE_COLLECTIONS) {
+        candidate[name]!.forEach((doc, i) => {
+            const error = new MODELS[name](doc).validateSync();
+            if (error) throw new ArchiveError(`${name}[${i}]: ${error.message}`);
+        });
+    }
+    return candidate as Archive;
+};
+
+// The key each collection's documents are unique by within a household
+const identityOf = (name: ArchiveCollection, doc: Record<string, unknown>) =>
+    name === 'budgets' ? `${doc.owner}:${doc.category}` : String(doc._id);
+
+// Archives keep their _ids (and transactions the recurring rule that made them), so one exported from a
+// household that still has those documents can't be loaded into another. Checked before anything is
+// written, as replace deletes the current documents first and a duplicate key would leave them gone.
+// Merge matches budgets on (category, owner) and drops their _id, so only replace checks those.
+const checkCollisions = async (householdId: mongoose.Types.ObjectId, archive: Archive, mode: RestoreMode) => {
+    for (const name of ARCHIVE_COLLECTIONS) {
+        const docs = archive[name];
+        if (new Set(docs.map(doc => identityOf(name, doc))).size !== docs.length) {
+            throw new ArchiveError(`The archive lists some ${name} more than once`);
+        }
+        if (name === 'budgets' && mode === 'merge') continue;
+
+        const idsOf = (field: string) => docs.flatMap(doc => doc[field] == null ? [] : [String(doc[field])]);
+        const ids = idsOf('_id');
+        const recurringIds = idsOf('recurringId');
+        const foreign = await MODELS[name].exists({
+            householdId: { $ne: householdId },
+            $or: [{ _id: { $in: ids } }, ...(recurringIds.length > 0 ? [{ recurringId: { $in: recurringIds } }] : [])]
+        }).setOptions({ withDeleted: true });
+        if (foreign) throw new ArchiveError(`Some ${name} in this archive belong to another household, so it can't be restored here`);
+    }
+};
+
+// A merged document continues from the higher of its stored and archived versions, so it never goes
+// back to a version that an edit based on the stored document could still name
+const withNextVersions = async (householdId: mongoose.Types.ObjectId, name: ArchiveCollection, docs: Record<string, unknown>[]) => {
+    const filter = name === 'budgets' ? { householdId } : { householdId, _id: { $in: docs.map(doc => String(doc._id)) } };
+    const stored = await MODELS[name].find(filter, 'category owner version').setOptions({ withDeleted: true })
+        .lean<Record<string, unknown>[]>();
+    const versions = new Map(stored.map(doc => [identityOf(name, doc), Number(doc.version ?? 0)]));
+    return docs.map(doc => {
+        const current = versions.get(identityOf(name, doc));
+        return current === undefined ? doc : { ...doc, version: Math.max(current, Number(doc.version ?? 0)) + 1 };
+    });
+};
+
+// Replace wipes the household's three collections first. Merge upserts by _id, except budgets, which are
+// matched on their unique (category, owner) pair so an archived limit overwrites the current one.
+// Budget snapshots are not archived: replace drops them, merge re-syncs the current month.
+export async function restoreArchive(
+    householdId: mongoose.Types.ObjectId,
+    input: unknown,
+    mode: RestoreMode
+): Promise<Record<ArchiveCollection, number>> {
+    const [keys, accountIds, goalIds] = await Promise.all([
+        getMemberKeys(householdId),
+        getAccountIds(householdId),
+        getGoalIds(householdId)
+    ]);
+    const archive = await validateArchive(input, householdId, { keys, accountIds, goalIds });
+    await checkCollisions(householdId, archive, mode);
+    const counts = { transactions: 0, budgets: 0, todos: 0 };
+
+    for (const name of ARCHIVE_COLLECTIONS) {
+        const Model = MODELS[name];
+        const docs = mode === 'merge' ? await withNextVersions(householdId, name, archive[name]) : archive[name];
+
+        if (mode === 'replace') {
+            await Model.deleteMany({ householdId });
+            if (docs.length > 0) await Model.insertMany(docs);
+            counts[name] = docs.length;
+            continue;
+        }
+
+        if (docs.length === 0) continue;
+        const result = await Model.bulkWrite(docs.map(doc => {
+            if (name === 'budgets') {
+                const fields = { ...doc };
+                delete fields._id;
+                return { replaceOne: { filter: { householdId, category: doc.category, owner: doc.owner }, replacement: fields, upsert: true } };
+            }
+            return { replaceOne: { filter: { _id: doc._id, householdId }, replacement: doc, upsert: true } };
+        }));
+        counts[name] = result.upsertedCount + result.modifiedCount;
+    }
+
+    await Promise.all(ARCHIVE_COLLECTIONS.map(name => recordReset(householdId, name)));
+
+    if (mode === 'replace') {
+        await BudgetSnapshot.deleteMany({ householdId });
+    } else {
+        await Promise.all(archive.budgets.map(b => syncCurrentSnapshot(householdId, b as Parameters<typeof syncCurrentSnapshot>[1])));
+    }
+
+    return counts;
+}
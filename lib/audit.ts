@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import AuditLog from '@/models/audit-log';
+import { AuthContext } from '@/lib/auth';
+import { AuditAction, AuditEntity } from '@/types';
+
+// Edits by one member to the same entity in quick succession (a budget limit typed digit by digit)
+// are kept as a single entry, from the first `before` to the last `after`
+const COALESCE_WINDOW_MS = 2 * 60 * 1000;
+
+// Bookkeeping and derived fields, left out so they never show up as changes of their own
+const UNTRACKED = ['_id', 'householdId', '__v', 'createdAt', 'updatedAt', 'shares', 'baseAmount', 'deletedAt', 'deletedBy', 'version'];
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditInput {
+    entity: AuditEntity;
+    action: AuditAction;
+    entityId: mongoose.Types.ObjectId | string;
+    before?: unknown; // Document or plain object
+    after?: unknown;
+}
+
+const snapshot = (doc: unknown): Snapshot | undefined => {
+    if (!doc) return undefined;
+    const plain = doc instanceof mongoose.Document ? doc.toObject() : { ...(doc as Snapshot) };
+    UNTRACKED.forEach(key => delete plain[key]);
+    // Stored as Mixed: ObjectIds and dates become the strings the client sees anyway
+    return JSON.parse(JSON.stringify(plain));
+};
+
+const sameFields = (a?: Snapshot, b?: Snapshot) => JSON.stringify(a) === JSON.stringify(b);
+
+// Folds an update into the entity's latest entry when that is a recent update by the same member
+async function coalesce(auth: AuthContext, entityId: AuditInput['entityId'], after?: Snapshot): Promise<boolean> {
+    const last = await AuditLog.findOne({ householdId: auth.householdId, entityId }).sort({ _id: -1 });
+    if (!last || last.actor !== auth.member || last.action !== 'update') return false;
+    if (Date.now() - last.createdAt.getTime() > COALESCE_WINDOW_MS) return false;
+    last.set('after', after);
+    await last.save();
+    return true;
+}
+
+// Records writes made by the signed-in member. The write has already happened, so a failure here
+// is logged rather than failing the request. Updates that changed nothing are skipped.
+export async function recordAudit(auth: AuthContext, inputs: AuditInput[]): Promise<void> {
+    try {
+        const entries = inputs
+            .map(({ before, after, ...input }) => ({ ...input, before: snapshot(before), after: snapshot(after) }))
+            .filter(entry => entry.action !== 'update' || !sameFields(entry.before, entry.after));
+        if (entries.length === 0) return;
+        if (entries.length === 1 && entries[0].action === 'update' && await coalesce(auth, entries[0].entityId, entries[0].after)) return;
+        await AuditLog.insertMany(entries.map(entry => ({ ...entry, householdId: auth.householdId, actor: auth.member })));
+    } catch (error) {
+        console.error('Failed to record audit entry', error);
+    }
+}
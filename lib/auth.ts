@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import mongoose from 'mongoose';
+import { cookies, headers } from 'next/headers';
+import { NextResponse } from 'next/server';
+import Session from '@/models/session';
+import { Owner } from '@/types';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'duofinance_session';
+// Sent with changes queued offline (lib/offline-store.ts), which only apply to the household they were made in
+const HOUSEHOLD_HEADER = 'x-household-id';
+const SESSION_DAYS = 30;
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Who is calling. Every route handler scopes its queries to `householdId`.
+export interface AuthContext {
+    userId: mongoose.Types.ObjectId;
+    householdId: mongoose.Types.ObjectId;
+    member: Owner; // The caller's key within the household; replaces the old "Who Paid?" choice
+}
+
+// Stored as `salt:hash`, both hex
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scrypt(password, salt, expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export async function createSession(user: { _id: mongoose.Types.ObjectId; householdId: mongoose.Types.ObjectId }, member: Owner) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+    await Session.create({ tokenHash: hashToken(token), userId: user._id, householdId: user.householdId, member, expiresAt });
+
+    (await cookies()).set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: expiresAt,
+    });
+}
+
+export async function destroySession() {
+    const store = await cookies();
+    const token = store.get(SESSION_COOKIE)?.value;
+    if (token) await Session.deleteOne({ tokenHash: hashToken(token) });
+    store.delete(SESSION_COOKIE);
+}
+
+// Resolves the session cookie; null when signed out or expired, or when the request names a household
+// other than the session's (a change queued under an account that has since signed out)
+export async function getAuth(): Promise<AuthContext | null> {
+    const token = (await cookies()).get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+
+    const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } }).lean<AuthContext>();
+    if (!session) return null;
+    const household = (await headers()).get(HOUSEHOLD_HEADER);
+    if (household !== null && household !== session.householdId.toString()) return null;
+    return { userId: session.userId, householdId: session.householdId, member: session.member };
+}
+
+// Scheduled jobs have no session; they send `Authorization: Bearer <CRON_SECRET>` instead.
+// Always false unless the CRON_SECRET environment variable is set.
+export function isCronRequest(req: Request): boolean {
+    const secret = process.env.CRON_SECRET;
+    const header = req.headers.get('authorization');
+    if (!secret || !header) return false;
+    // Hashed so both sides are the same length for the constant-time comparison
+    const expected = Buffer.from(hashToken(`Bearer ${secret}`), 'hex');
+    return crypto.timingSafeEqual(Buffer.from(hashToken(header), 'hex'), expected);
+}
+
+export const unauthorized = () =>
+    NextResponse.json({ success: false, message: 'Not signed in' }, { status: 401 });
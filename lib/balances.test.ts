@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { buildBalanceMatrix, netPositions, simplifyDebts } from '@/lib/balances';
+
+describe('buildBalanceMatrix', () => {
+    it('nets debts pair by pair', () => {
+        expect(buildBalanceMatrix([
+            { from: 'a', to: 'b', amount: 500 },
+            { from: 'b', to: 'a', amount: 200 },
+            { from: 'a', to: 'a', amount: 100 }
+        ])).toEqual({ a: { b: 300 } });
+    });
+
+    it('leaves out balances that cancel', () => {
+        expect(buildBalanceMatrix([{ from: 'a', to: 'b', amount: 100 }, { from: 'b', to: 'a', amount: 100 }])).toEqual({});
+    });
+});
+
+describe('simplifyDebts', () => {
+    it('collapses a chain into a direct payment', () => {
+        expect(simplifyDebts({ a: { b: 100 }, b: { c: 100 } })).toEqual([{ from: 'a', to: 'c', amount: 100 }]);
+    });
+
+    it('clears every balance in at most N - 1 payments', () => {
+        const matrix = { a: { b: 300, c: 200 }, b: { c: 100 }, d: { a: 50 } };
+        const payments = simplifyDebts(matrix);
+        expect(payments.length).toBeLessThanOrEqual(3);
+
+        const settled = netPositions(matrix);
+        payments.forEach(({ from, to, amount }) => {
+            settled.set(from, settled.get(from)! + amount);
+            settled.set(to, settled.get(to)! - amount);
+        });
+        expect([...settled.values()].every(amount => amount === 0)).toBe(true);
+    });
+});
@@ -0,0 +1,59 @@
+import { BalanceMatrix, Debt, Owner } from '@/types';
+
+// Nets raw debts pair by pair: if A owes B 500 and B owes A 200, the matrix holds
+// matrix[A][B] = 300 and nothing for B -> A. Zero balances are left out.
+export const buildBalanceMatrix = (debts: Debt[]): BalanceMatrix => {
+    const raw = new Map<string, number>();
+    const pairKey = (from: Owner, to: Owner) => JSON.stringify([from, to]);
+    debts.forEach(({ from, to, amount }) => {
+        if (from !== to) raw.set(pairKey(from, to), (raw.get(pairKey(from, to)) || 0) + amount);
+    });
+
+    const matrix: BalanceMatrix = {};
+    raw.forEach((amount, k) => {
+        const [from, to] = JSON.parse(k) as [Owner, Owner];
+        const net = amount - (raw.get(pairKey(to, from)) || 0);
+        if (net > 0) matrix[from] = { ...matrix[from], [to]: net };
+    });
+    return matrix;
+};
+
+// What each member is owed overall (positive) or owes overall (negative)
+export const netPositions = (matrix: BalanceMatrix): Map<Owner, number> => {
+    const net = new Map<Owner, number>();
+    Object.entries(matrix).forEach(([from, row]) => Object.entries(row).forEach(([to, amount]) => {
+        net.set(from, (net.get(from) || 0) - amount);
+        net.set(to, (net.get(to) || 0) + amount);
+    }));
+    return net;
+};
+
+// Suggests payments that clear every balance: the biggest debtor repeatedly pays the biggest
+// creditor. Each payment zeroes at least one member, so N people need at most N - 1 payments,
+// and who-owes-whom chains (A -> B -> C) collapse into direct payments (A -> C).
+export const simplifyDebts = (matrix: BalanceMatrix): Debt[] => {
+    const net = netPositions(matrix);
+    const byAmount = (sign: 1 | -1) => [...net.entries()]
+        .filter(([, amount]) => sign * amount > 0)
+        .map(([member, amount]) => ({ member, amount: Math.abs(amount) }))
+        .sort((a, b) => b.amount - a.amount || a.member.localeCompare(b.member));
+
+    const debtors = byAmount(-1);
+    const creditors = byAmount(1);
+    const payments: Debt[] = [];
+
+    while (debtors.length > 0 && creditors.length > 0) {
+        const debtor = debtors[0];
+        const creditor = creditors[0];
+        const amount = Math.min(debtor.amount, creditor.amount);
+        payments.push({ from: debtor.member, to: creditor.member, amount });
+
+        debtor.amount -= amount;
+        creditor.amount -= amount;
+        if (debtor.amount === 0) debtors.shift();
+        if (creditor.amount === 0) creditors.shift();
+        debtors.sort((a, b) => b.amount - a.amount);
+        creditors.sort((a, b) => b.amount - a.amount);
+    }
+    return payments;
+};
@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import Budget from '@/models/budget';
+import BudgetSnapshot from '@/models/budget-snapshot';
+import { prorateLimit } from '@/lib/budgets';
+import { monthRange, shiftMonth, toDateKey, toMonthKey } from '@/lib/dates';
+import { getCategorySpend } from '@/lib/summary';
+import { Budget as BudgetItem, BudgetPeriod, CategorySpend } from '@/types';
+
+type Limits = Pick<BudgetItem, 'amount' | 'period' | 'rollover'>;
+type SnapshotFields = Pick<BudgetItem, 'category' | 'owner'> & Limits;
+
+interface Snapshot {
+    month: string;
+    amount: number;
+    period: BudgetPeriod;
+    rollover: boolean;
+}
+
+type SpendLookup = (month: string) => Promise<CategorySpend[]>;
+
+// Rollover is followed back at most this far, so a long-untouched budget doesn't replay every month
+const MAX_CATCH_UP_MONTHS = 24;
+
+const keyOf = (b: { category: string; owner: string }) => `${b.owner}:${b.category}`;
+
+const monthFilter = (month: string) => {
+    const { start, end } = monthRange(month);
+    return { date: { $gte: toDateKey(start), $lte: toDateKey(end) } };
+};
+
+// Budgets saved before timestamps were added have no creation date; they count as always existing
+const existedIn = (budget: BudgetItem, month: string) => !budget.createdAt || toMonthKey(new Date(budget.createdAt)) <= month;
+
+// The limits that applied in `month`: the latest snapshot up to it, else the earliest one (which holds
+// the values from before the first edit), else the live budget, which has never been edited
+const limitsIn = (budget: BudgetItem, history: Snapshot[], month: string): Limits =>
+    history.filter(s => s.month <= month).pop() || history[0] || budget;
+
+// Limit left over (or overspent, negative) at the end of the month before `month`, including what
+// that month carried in itself. Spend can still change after a month ends, so this is never stored.
+const carriedInto = async (budget: BudgetItem, history: Snapshot[], month: string, spendFor: SpendLookup, depth = 0): Promise<number> => {
+    const previous = shiftMonth(month, -1);
+    if (depth >= MAX_CATCH_UP_MONTHS || !existedIn(budget, previous)) return 0;
+    const limits = limitsIn(budget, history, previous);
+    if (!limits.rollover) return 0;
+
+    const spend = await spendFor(previous);
+    const spent = spend.find(s => s.category === budget.category && s.owner === budget.owner)?.amount || 0;
+    const carried = await carriedInto(budget, history, previous, spendFor, depth + 1);
+    return prorateLimit(limits.amount, limits.period || 'monthly', monthRange(previous)) + carried - spent;
+};
+
+// Budgets as they applied in `month` ('YYYY-MM'), with any rollover carried in from the month before.
+// Only reads: snapshots are written when a budget is, and budgets created later are left out.
+// Future months show today's limits with nothing carried yet.
+export async function getBudgetsForMonth(householdId: mongoose.Types.ObjectId, month: string): Promise<BudgetItem[]> {
+    // Lean skips defaults: budgets saved before versions existed are at version 0
+    const budgets = (await Budget.find({ householdId }).lean<BudgetItem[]>()).map(b => ({ ...b, version: b.version ?? 0 }));
+    const currentMonth = toMonthKey(new Date());
+    if (month > currentMonth) return budgets.map(b => ({ ...b, carriedIn: 0 }));
+
+    const history = new Map<string, Snapshot[]>();
+    const snapshots = await BudgetSnapshot.find({ householdId }).sort({ month: 1 })
+        .lean<(Snapshot & { category: string; owner: string })[]>();
+    snapshots.forEach(s => history.set(keyOf(s), [...(history.get(keyOf(s)) || []), s]));
+
+    // Several budgets share a month's spend; aggregate it once
+    const spendCache = new Map<string, Promise<CategorySpend[]>>();
+    const spendFor: SpendLookup = (m) => {
+        if (!spendCache.has(m)) spendCache.set(m, getCategorySpend(householdId, monthFilter(m)));
+        return spendCache.get(m)!;
+    };
+
+    return Promise.all(budgets.filter(b => existedIn(b, month)).map(async budget => {
+        const past = history.get(keyOf(budget)) || [];
+        const limits = month === currentMonth ? budget : limitsIn(budget, past, month);
+        return {
+            ...budget,
+            amount: limits.amount,
+            period: limits.period || 'monthly',
+            rollover: !!limits.rollover,
+            carriedIn: await carriedInto(budget, past, month, spendFor)
+        };
+    }));
+}
+
+const writeSnapshot = (householdId: mongoose.Types.ObjectId, budget: SnapshotFields, month: string) =>
+    BudgetSnapshot.updateOne(
+        { householdId, category: budget.category, owner: budget.owner, month },
+        { amount: budget.amount, period: budget.period || 'monthly', rollover: !!budget.rollover },
+        { upsert: true }
+    );
+
+// Records a budget's limits for this month whenever it is written. The first edit of a budget that
+// already existed before this month also records the limits it had until then, for the months before.
+export async function syncCurrentSnapshot(
+    householdId: mongoose.Types.ObjectId,
+    budget: SnapshotFields,
+    before?: (SnapshotFields & Pick<BudgetItem, 'createdAt'>) | null
+) {
+    const currentMonth = toMonthKey(new Date());
+    const lastMonth = shiftMonth(currentMonth, -1);
+    if (before && (!before.createdAt || toMonthKey(new Date(before.createdAt)) <= lastMonth)) {
+        const recorded = await BudgetSnapshot.exists({ householdId, category: budget.category, owner: budget.owner, month: { $lt: currentMonth } });
+        if (!recorded) await writeSnapshot(householdId, before, lastMonth);
+    }
+    await writeSnapshot(householdId, budget, currentMonth);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateBudgets, JOINT_BUDGET, prorateLimit } from '@/lib/budgets';
+import { monthRange } from '@/lib/dates';
+
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+describe('prorateLimit', () => {
+    it('gives a monthly budget in full for its month', () => {
+        expect(prorateLimit(3100, 'monthly', monthRange('2026-03'))).toBe(3100);
+    });
+
+    it('prorates a week straddling two months day by day', () => {
+        // 3 days of January (31 days) and 4 of February (28 days)
+        const range = { start: day(2026, 1, 29), end: day(2026, 2, 4) };
+        expect(prorateLimit(86800, 'monthly', range)).toBe(Math.round(86800 * (3 / 31 + 4 / 28)));
+    });
+
+    it('scales a weekly budget to a month', () => {
+        expect(prorateLimit(700, 'weekly', monthRange('2026-02'))).toBe(2800);
+    });
+});
+
+describe('evaluateBudgets', () => {
+    const range = monthRange('2026-03');
+    const base = { owners: [JOINT_BUDGET], categories: ['Food'], range };
+
+    it('adds what was carried in to the limit', () => {
+        const [stat] = evaluateBudgets({
+            ...base,
+            budgets: [{ _id: '1', category: 'Food', owner: JOINT_BUDGET, amount: 1000, rollover: true, carriedIn: -200 }],
+            spending: [{ category: 'Food', owner: JOINT_BUDGET, amount: 400 }],
+            includeCarry: true
+        });
+        expect(stat).toMatchObject({ limit: 1000, carriedIn: -200, effectiveLimit: 800, spent: 400, pct: 50 });
+    });
+
+    it('ignores the carry outside monthly views and without rollover', () => {
+        const budget = { _id: '1', category: 'Food', owner: JOINT_BUDGET, amount: 1000, carriedIn: 500 };
+        const [withoutRollover] = evaluateBudgets({ ...base, budgets: [budget], spending: [], includeCarry: true });
+        const [yearly] = evaluateBudgets({ ...base, budgets: [{ ...budget, rollover: true }], spending: [], includeCarry: false });
+        expect(withoutRollover.effectiveLimit).toBe(1000);
+        expect(yearly.effectiveLimit).toBe(1000);
+    });
+
+    it('counts any spend against a limit used up by overspending', () => {
+        const [stat] = evaluateBudgets({
+            ...base,
+            budgets: [{ _id: '1', category: 'Food', owner: JOINT_BUDGET, amount: 1000, rollover: true, carriedIn: -1500 }],
+            spending: [{ category: 'Food', owner: JOINT_BUDGET, amount: 1 }],
+            includeCarry: true
+        });
+        expect(stat.pct).toBe(100);
+    });
+});
@@ -0,0 +1,68 @@
+import { Budget, BudgetOwner, BudgetPeriod, BudgetStat, CategorySpend } from '@/types';
+import { DateRange, daysInMonth, daysInYear, eachDay } from '@/lib/dates';
+
+// Budget owner for shared expenses; every other budget owner is a member key
+export const JOINT_BUDGET: BudgetOwner = 'joint';
+export const BUDGET_PERIODS: BudgetPeriod[] = ['weekly', 'monthly', 'yearly'];
+
+// Fraction of one budget period that a single calendar day represents
+const dayShare = (day: Date, period: BudgetPeriod): number =>
+    period === 'weekly' ? 1 / 7 : period === 'yearly' ? 1 / daysInYear(day) : 1 / daysInMonth(day);
+
+// How many budget periods the range covers, day by day: a week inside February is 7/28 of a
+// monthly budget, a week straddling Jan/Feb is 3/31 + 4/28, a full month is exactly 1.
+export const periodScale = (period: BudgetPeriod, range: DateRange): number =>
+    eachDay(range).reduce((sum, day) => sum + dayShare(day, period), 0);
+
+// Limit available for the range, in whole paise
+export const prorateLimit = (limit: number, period: BudgetPeriod, range: DateRange): number =>
+    Math.round(limit * periodScale(period, range));
+
+interface EvaluateBudgetsInput {
+    budgets: Budget[];
+    owners: BudgetOwner[]; // JOINT_BUDGET plus the household's member keys
+    spending: CategorySpend[];
+    categories: string[];
+    range: DateRange;
+    includeCarry: boolean; // Rollover is tracked per calendar month, so it only applies to monthly views
+}
+
+// Joins Budget documents with the period's spend for every (owner, category) pair.
+// `spending` comes from /api/summary, where shared expenses count against the joint budget
+// and personal ones against the budget of whoever paid.
+// Pairs without a budget are still returned (limit 0) so the planner can offer an input for them.
+export const evaluateBudgets = ({ budgets, owners, spending, categories, range, includeCarry }: EvaluateBudgetsInput): BudgetStat[] => {
+    const key = (owner: BudgetOwner, category: string) => `${owner}:${category}`;
+
+    const byKey = new Map<string, Budget>();
+    budgets.forEach(b => byKey.set(key(b.owner, b.category), b));
+
+    const spent = new Map<string, number>();
+    spending.forEach(s => spent.set(key(s.owner, s.category), (spent.get(key(s.owner, s.category)) || 0) + s.amount));
+
+    return owners.flatMap(owner => categories.map(category => {
+        const budget = byKey.get(key(owner, category));
+        const limit = budget?.amount || 0;
+        const period = budget?.period || 'monthly';
+        const carriedIn = includeCarry && budget?.rollover ? budget.carriedIn || 0 : 0;
+        const effectiveLimit = prorateLimit(limit, period, range) + carriedIn;
+        const categorySpent = spent.get(key(owner, category)) || 0;
+
+        // Overspending carried in can push the limit to zero or below; any spend then uses it all
+        const pct = effectiveLimit > 0
+            ? (categorySpent / effectiveLimit) * 100
+            : limit > 0 && categorySpent > 0 ? 100 : 0;
+
+        return {
+            category,
+            owner,
+            period,
+            limit,
+            rollover: !!budget?.rollover,
+            carriedIn,
+            effectiveLimit,
+            spent: categorySpent,
+            pct
+        };
+    }));
+};
@@ -0,0 +1,46 @@
+import { Category, CategoryKind } from '@/types';
+
+// Icon names a category may use; components/category-icon.tsx draws them
+export const CATEGORY_ICONS = [
+    'utensils', 'shopping-cart', 'home', 'zap', 'car', 'shopping-bag', 'film', 'heart-pulse', 'plane',
+    'piggy-bank', 'wallet', 'tag', 'gift', 'graduation-cap', 'baby', 'dog', 'phone', 'shirt', 'coffee', 'briefcase'
+] as const;
+export type CategoryIcon = typeof CATEGORY_ICONS[number];
+
+export const CATEGORY_KINDS: CategoryKind[] = ['expense', 'income'];
+
+export type DefaultCategory = Pick<Category, 'name' | 'kind' | 'icon' | 'color' | 'budgeted'>;
+
+// What every household starts with. Colours match the analytics palette used before categories
+// were editable, so existing charts keep their look.
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+    { name: 'Food & Dining', kind: 'expense', icon: 'utensils', color: '#3b82f6', budgeted: true },
+    { name: 'Groceries', kind: 'expense', icon: 'shopping-cart', color: '#d946ef', budgeted: true },
+    { name: 'Rent & Housing', kind: 'expense', icon: 'home', color: '#14b8a6', budgeted: true },
+    { name: 'Utilities', kind: 'expense', icon: 'zap', color: '#f59e0b', budgeted: true },
+    { name: 'Transport', kind: 'expense', icon: 'car', color: '#10b981', budgeted: true },
+    { name: 'Shopping', kind: 'expense', icon: 'shopping-bag', color: '#6366f1', budgeted: true },
+    { name: 'Entertainment', kind: 'expense', icon: 'film', color: '#ec4899', budgeted: true },
+    { name: 'Health', kind: 'expense', icon: 'heart-pulse', color: '#84cc16', budgeted: true },
+    { name: 'Travel', kind: 'expense', icon: 'plane', color: '#06b6d4', budgeted: true },
+    // Money set aside rather than spent, so it gets no spending limit
+    { name: 'Savings', kind: 'expense', icon: 'piggy-bank', color: '#8b5cf6', budgeted: false },
+    { name: 'Income', kind: 'income', icon: 'wallet', color: '#22c55e', budgeted: false },
+    { name: 'Other', kind: 'expense', icon: 'tag', color: '#64748b', budgeted: true },
+];
+
+// Subcategories are one level deep. Their spending counts towards the parent in budgets and charts.
+export const topLevelName = (name: string, categories: Category[]): string => {
+    const category = categories.find(c => c.name === name);
+    const parent = category?.parentId ? categories.find(c => c._id === category.parentId) : undefined;
+    return parent ? parent.name : name;
+};
+
+// Parents in name order, each followed by its children; for pickers and the settings list
+export const orderedCategories = (categories: Category[]): Category[] => {
+    const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+    return categories
+        .filter(c => !c.parentId)
+        .sort(byName)
+        .flatMap(parent => [parent, ...categories.filter(c => c.parentId === parent._id).sort(byName)]);
+};
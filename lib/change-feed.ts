@@ -0,0 +1,174 @@
+import mongoose from 'mongoose';
+import Change from '@/models/change';
+import { ChangeEvent, SyncedCollection } from '@/types';
+
+type ChangeOp = ChangeEvent['op'];
+
+interface ChangeDoc {
+    _id: mongoose.Types.ObjectId;
+    collectionName: SyncedCollection;
+    op: ChangeOp;
+    docId?: mongoose.Types.ObjectId;
+    doc?: unknown;
+    version?: number;
+}
+
+type SyncedDoc = mongoose.Document & { householdId: mongoose.Types.ObjectId; deletedAt?: Date };
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_BATCH = 200;
+// How long after its id was made an entry may still commit; see watchChanges
+const LATE_WINDOW_S = 60;
+
+const entryFor = (collectionName: SyncedCollection, op: ChangeOp, doc: SyncedDoc) => ({
+    householdId: doc.householdId,
+    collectionName,
+    op,
+    docId: doc._id,
+    ...(op === 'upsert' ? { doc: doc.toObject() } : { version: Number(doc.get('version') ?? 0) })
+});
+
+// Moving a document to the trash (lib/trash.ts) is an update, but open pages should drop it
+const opOf = (doc: SyncedDoc): ChangeOp => doc.deletedAt ? 'delete' : 'upsert';
+
+// The write has already happened by the time the entry is recorded, so a failure here is logged
+// rather than failing the request; clients miss the event until their next full fetch.
+async function record(entries: ReturnType<typeof entryFor>[]): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+        await Change.insertMany(entries);
+    } catch (error) {
+        console.error('Failed to record change', error);
+    }
+}
+
+// Schema plugin that records every document-level write made through save, create, insertMany,
+// findOneAndUpdate and findOneAndDelete. Bulk writes (updateMany, bulkWrite, upserting updateOne)
+// don't return their documents, so their callers use recordReset instead.
+export const changeFeed = (collectionName: SyncedCollection) => (schema: mongoose.Schema) => {
+    schema.post('save', async function (doc: SyncedDoc) {
+        await record([entryFor(collectionName, opOf(doc), doc)]);
+    });
+    schema.post('insertMany', async function (docs: unknown) {
+        await record((docs as SyncedDoc[]).map(doc => entryFor(collectionName, 'upsert', doc)));
+    });
+    schema.post('findOneAndUpdate', async function (doc: SyncedDoc | null) {
+        if (doc) await record([entryFor(collectionName, opOf(doc), doc)]);
+    });
+    schema.post('findOneAndDelete', async function (doc: SyncedDoc | null) {
+        if (doc) await record([entryFor(collectionName, 'delete', doc)]);
+    });
+};
+
+// Tells clients to refetch a whole collection after a write too broad to describe document by document
+export async function recordReset(householdId: mongoose.Types.ObjectId, collectionName: SyncedCollection): Promise<void> {
+    try {
+        await Change.create({ householdId, collectionName, op: 'reset' });
+    } catch (error) {
+        console.error('Failed to record change', error);
+    }
+}
+
+const toEvent = (change: ChangeDoc): ChangeEvent => ({
+    id: change._id.toString(),
+    collection: change.collectionName,
+    op: change.op,
+    ...(change.docId && { docId: change.docId.toString() }),
+    ...(change.doc !== undefined && { doc: change.doc }),
+    ...(change.version !== undefined && { version: change.version })
+});
+
+// Calls `onChange` for each of the household's changes after `lastEventId` (or from now, without one)
+// until the returned function is called. Uses a MongoDB change stream where the server supports one
+// (replica sets, Atlas) and falls back to polling the Change collection on a standalone server.
+//
+// Entry ids are made by whichever app instance recorded the entry, so they don't follow commit order:
+// an entry can commit after one with a later id has already gone out. Rather than trusting the ids as
+// a cursor, every read goes back LATE_WINDOW_S behind the newest entry delivered and skips the ones
+// already seen. Late entries can arrive after newer ones; clients keep the newest version of a document.
+export function watchChanges(
+    householdId: mongoose.Types.ObjectId,
+    lastEventId: string | null,
+    onChange: (change: ChangeEvent) => void
+): () => void {
+    const secondsOf = (id: mongoose.Types.ObjectId) => Math.floor(id.getTimestamp().getTime() / 1000);
+    const idAt = (seconds: number) => mongoose.Types.ObjectId.createFromTime(Math.max(0, seconds));
+
+    // Nothing older than this is delivered: the window behind the last id the client saw, or behind now
+    const start = lastEventId && mongoose.isValidObjectId(lastEventId)
+        ? secondsOf(new mongoose.Types.ObjectId(lastEventId))
+        : Math.floor(Date.now() / 1000);
+    const floor = idAt(start - LATE_WINDOW_S).toHexString();
+    let newest = start;
+    const seen = new Map<string, number>(); // Delivered ids still inside the window, with their second
+    let closed = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stream: ReturnType<typeof Change.watch> | undefined;
+
+    // Ids that have dropped out of the window are never read again, so they needn't be remembered
+    const forget = (since: number) => seen.forEach((seconds, id) => {
+        if (seconds < since) seen.delete(id);
+    });
+
+    // The catch-up read, the polls and the change stream can all see the same entry
+    const deliver = (change: ChangeDoc) => {
+        const id = change._id.toHexString();
+        if (closed || seen.has(id) || id < floor) return;
+        const seconds = secondsOf(change._id);
+        seen.set(id, seconds);
+        // An instance whose clock runs ahead mustn't move the window past entries still to come
+        newest = Math.max(newest, Math.min(seconds, Math.floor(Date.now() / 1000)));
+        forget(newest - LATE_WINDOW_S);
+        onChange(toEvent(change));
+    };
+
+    const poll = async () => {
+        const since = idAt(newest - LATE_WINDOW_S).toHexString();
+        // Ids first, so the entries already delivered in the window aren't read again in full
+        const ids = (await Change.find({ householdId, _id: { $gte: since < floor ? floor : since } }, '_id').sort({ _id: 1 }).lean<{ _id: mongoose.Types.ObjectId }[]>())
+            .map(c => c._id)
+            .filter(id => !seen.has(id.toHexString()));
+        for (let i = 0; i < ids.length && !closed; i += POLL_BATCH) {
+            const changes = await Change.find({ _id: { $in: ids.slice(i, i + POLL_BATCH) } }).sort({ _id: 1 }).lean<ChangeDoc[]>();
+            changes.forEach(deliver);
+        }
+    };
+
+    const startPolling = () => {
+        if (closed || timer) return;
+        timer = setInterval(() => poll().catch(error => console.error('Failed to poll changes', error)), POLL_INTERVAL_MS);
+    };
+
+    // The stream is opened before the catch-up read so nothing recorded in between is missed;
+    // what it sees meanwhile is held back until the older entries have gone out
+    let caughtUp = false;
+    const pending: ChangeDoc[] = [];
+    try {
+        stream = Change.watch([{ $match: { operationType: 'insert', 'fullDocument.householdId': householdId } }]);
+        stream.on('change', (event: { fullDocument: ChangeDoc }) => {
+            if (caughtUp) deliver(event.fullDocument);
+            else pending.push(event.fullDocument);
+        });
+        // Standalone servers reject change streams once the cursor opens
+        stream.on('error', () => {
+            stream?.close();
+            stream = undefined;
+            startPolling();
+        });
+    } catch {
+        startPolling();
+    }
+
+    poll()
+        .catch(error => console.error('Failed to poll changes', error))
+        .finally(() => {
+            caughtUp = true;
+            pending.forEach(deliver);
+        });
+
+    return () => {
+        closed = true;
+        if (timer) clearInterval(timer);
+        stream?.close();
+    };
+}
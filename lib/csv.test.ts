@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from '@/lib/csv';
+
+describe('parseCsv', () => {
+    it('reads quoted fields with commas, escaped quotes and line breaks', () => {
+        expect(parseCsv('date,note\r\n2026-03-01,"Dinner, ""The Place""\nwith friends"\r\n')).toEqual([
+            ['date', 'note'],
+            ['2026-03-01', 'Dinner, "The Place"\nwith friends']
+        ]);
+    });
+
+    it('strips a byte order mark and skips blank lines', () => {
+        expect(parseCsv('\uFEFFa,b\n\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('keeps empty cells', () => {
+        expect(parseCsv('a,,c')).toEqual([['a', '', 'c']]);
+    });
+});
+
+describe('toCsv', () => {
+    it('round-trips through parseCsv', () => {
+        const rows = [{ note: 'Say "hi", then\nleave', amount: 12.5 }, { note: null, amount: 0 }];
+        expect(parseCsv(toCsv(['note', 'amount'], rows))).toEqual([
+            ['note', 'amount'],
+            ['Say "hi", then\nleave', '12.5'],
+            ['', '0']
+        ]);
+    });
+});
@@ -0,0 +1,57 @@
+// Minimal RFC 4180 parsing: quoted fields, escaped quotes ("") and CRLF/LF line endings.
+// Bank exports rarely need more, and this keeps a CSV dependency out of the bundle.
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 BOM, which Excel likes to add
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Blank lines come through as a single empty field
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const escapeCell = (value: unknown): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Serializes rows under a fixed column order; missing values become empty cells
+export const toCsv = (columns: string[], rows: Record<string, unknown>[]): string =>
+    [columns, ...rows.map(row => columns.map(c => row[c]))]
+        .map(cells => cells.map(escapeCell).join(','))
+        .join('\r\n');
@@ -0,0 +1,75 @@
+import { FilterState } from '@/types';
+
+export interface DateRange {
+    start: Date;
+    end: Date;
+}
+
+// Local-time 'YYYY-MM-DD', the format transactions store their date in
+export const toDateKey = (d: Date): string =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Parses a 'YYYY-MM-DD' key as local midnight (new Date('YYYY-MM-DD') would be UTC)
+export const fromDateKey = (key: string): Date => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+export const daysInMonth = (d: Date): number => new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+
+export const daysInYear = (d: Date): number => {
+    const y = d.getFullYear();
+    return (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0 ? 366 : 365;
+};
+
+// Every calendar day in the range, inclusive. Steps by date rather than by 24h so DST changes don't skip a day.
+export const eachDay = (range: DateRange): Date[] => {
+    const days: Date[] = [];
+    const cursor = new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate());
+    while (cursor <= range.end) {
+        days.push(new Date(cursor));
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    return days;
+};
+
+// The Monday-to-Sunday week, calendar month or calendar year containing `date`
+export const getPeriodRange = (date: Date, filter: FilterState): DateRange => {
+    const start = new Date(date);
+    const end = new Date(date);
+
+    if (filter === 'weekly') {
+        const day = start.getDay();
+        const diff = start.getDate() - day + (day === 0 ? -6 : 1);
+        start.setDate(diff);
+        start.setHours(0,0,0,0);
+        end.setTime(start.getTime());
+        end.setDate(start.getDate() + 6);
+        end.setHours(23,59,59,999);
+    } else if (filter === 'monthly') {
+        start.setDate(1);
+        start.setHours(0,0,0,0);
+        end.setMonth(end.getMonth() + 1, 0);
+        end.setHours(23,59,59,999);
+    } else {
+        start.setMonth(0, 1);
+        start.setHours(0,0,0,0);
+        end.setMonth(11, 31);
+        end.setHours(23,59,59,999);
+    }
+    return { start, end };
+};
+
+// 'YYYY-MM' of a local date; budget snapshots are keyed by it
+export const toMonthKey = (d: Date): string =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+
+export const shiftMonth = (month: string, offset: number): string => {
+    const [y, m] = month.split('-').map(Number);
+    return toMonthKey(new Date(y, m - 1 + offset, 1));
+};
+
+export const monthRange = (month: string): DateRange => {
+    const [y, m] = month.split('-').map(Number);
+    return { start: new Date(y, m - 1, 1), end: new Date(y, m, 0, 23, 59, 59, 999) };
+};
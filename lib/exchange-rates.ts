@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+import Household from '@/models/household';
+import ExchangeRate from '@/models/exchange-rate';
+import { DEFAULT_CURRENCY } from '@/lib/money';
+import { InputError } from '@/lib/validation';
+
+export class RateError extends InputError {}
+
+export async function getBaseCurrency(householdId: mongoose.Types.ObjectId): Promise<string> {
+    const household = await Household.findById(householdId, 'baseCurrency').lean<{ baseCurrency?: string }>();
+    return household?.baseCurrency || DEFAULT_CURRENCY;
+}
+
+// Stamps each document with its currency (the base currency when missing) and its amount in the
+// base currency, converted at the latest rate dated on or before the document's date. Rates for
+// the whole batch are loaded in one query. Throws RateError when a foreign amount has no rate yet.
+export async function withBaseAmounts<T extends Record<string, unknown>>(
+    householdId: mongoose.Types.ObjectId,
+    docs: T[]
+): Promise<(T & { currency: string; baseAmount: number })[]> {
+    const base = await getBaseCurrency(householdId);
+    const currencyOf = (doc: T) => typeof doc.currency === 'string' && doc.currency ? doc.currency.toUpperCase() : base;
+
+    const foreign = [...new Set(docs.map(currencyOf).filter(c => c !== base))];
+    const rates = foreign.length === 0 ? [] : await ExchangeRate
+        .find({ householdId, currency: { $in: foreign } }, 'currency date rate')
+        .sort({ date: -1 })
+        .lean<{ currency: string; date: string; rate: number }[]>();
+
+    return docs.map(doc => {
+        const currency = currencyOf(doc);
+        const amount = Number(doc.amount);
+        if (currency === base) return { ...doc, currency, baseAmount: amount };
+
+        const date = String(doc.date);
+        const rate = rates.find(r => r.currency === currency && r.date <= date);
+        if (!rate) throw new RateError(`No ${currency} exchange rate on or before ${date}`);
+        return { ...doc, currency, baseAmount: Math.round(amount * rate.rate) };
+    });
+}
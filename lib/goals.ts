@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import Goal from '@/models/goal';
+import Transaction from '@/models/transactions';
+import { BASE_AMOUNT } from '@/lib/summary';
+import { toDateKey } from '@/lib/dates';
+import { InputError } from '@/lib/validation';
+import { Goal as GoalWithProgress, GoalContribution } from '@/types';
+
+export class GoalError extends InputError {}
+
+export async function getGoalIds(householdId: mongoose.Types.ObjectId): Promise<string[]> {
+    const goals = await Goal.find({ householdId }, '_id').lean<{ _id: mongoose.Types.ObjectId }[]>();
+    return goals.map(g => g._id.toString());
+}
+
+// Checks that the goal an entry contributes to belongs to the household; empty means none.
+// Only expenses can count towards a goal (see transactionRules).
+export const resolveGoalField = <T extends { goalId?: unknown }>(fields: T, goalIds: string[]): T => {
+    const goalId = fields.goalId || undefined;
+    if (goalId !== undefined && !(typeof goalId === 'string' && goalIds.includes(goalId))) throw new GoalError('Unknown savings goal');
+    return { ...fields, goalId };
+};
+
+// Months left to save in, counting the current one: a deadline later this month leaves one
+export const monthsUntil = (deadline: string, today: string): number => {
+    if (deadline < today) return 0;
+    const [deadlineYear, deadlineMonth] = deadline.split('-').map(Number);
+    const [year, month] = today.split('-').map(Number);
+    return (deadlineYear - year) * 12 + (deadlineMonth - month) + 1;
+};
+
+type ContributionRow = { _id: { goal: mongoose.Types.ObjectId; member: string }; amount: number };
+
+// Every goal with what has been put towards it. A contribution belongs to whoever bore it: the payer
+// of a personal entry, or each member's share of a shared one. Amounts are in the base currency.
+export async function getGoalProgress(householdId: mongoose.Types.ObjectId): Promise<GoalWithProgress[]> {
+    const [goals, rows] = await Promise.all([
+        Goal.find({ householdId }).sort({ deadline: 1, name: 1 }).lean<Pick<GoalWithProgress, '_id' | 'name' | 'targetAmount' | 'deadline' | 'owner'>[]>(),
+        Transaction.aggregate<ContributionRow>([
+            { $match: { householdId, goalId: { $ne: null } } },
+            {
+                $project: {
+                    goalId: 1,
+                    parts: {
+                        $cond: [
+                            { $gt: [{ $size: { $ifNull: ['$shares', []] } }, 0] },
+                            '$shares',
+                            [{ member: '$owner', amount: BASE_AMOUNT }]
+                        ]
+                    }
+                }
+            },
+            { $unwind: '$parts' },
+            { $group: { _id: { goal: '$goalId', member: '$parts.member' }, amount: { $sum: '$parts.amount' } } }
+        ])
+    ]);
+
+    const today = toDateKey(new Date());
+    return goals.map(g => {
+        const contributions: GoalContribution[] = rows
+            .filter(r => r._id.goal.toString() === g._id.toString())
+            .map(r => ({ member: r._id.member, amount: r.amount }))
+            .sort((a, b) => b.amount - a.amount);
+        const saved = contributions.reduce((sum, c) => sum + c.amount, 0);
+        const monthsLeft = monthsUntil(g.deadline, today);
+        const monthlyNeeded = monthsLeft > 0 ? Math.ceil(Math.max(0, g.targetAmount - saved) / monthsLeft) : null;
+        return { ...g, saved, contributions, monthsLeft, monthlyNeeded };
+    });
+}
+
+// Entries that contributed to a deleted goal stay, as ordinary savings; those in the trash are
+// unlinked too. Versions are bumped so an edit made before the deletion can't link them back.
+export async function unlinkGoal(householdId: mongoose.Types.ObjectId, goalId: string): Promise<number> {
+    const { modifiedCount } = await Transaction.updateMany(
+        { householdId, goalId },
+        { $unset: { goalId: 1 }, $inc: { version: 1 } }
+    );
+    return modifiedCount;
+}
@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import Category from '@/models/category';
+import Transaction from '@/models/transactions';
+import RecurringTransaction from '@/models/recurring-transaction';
+import Budget from '@/models/budget';
+import BudgetSnapshot from '@/models/budget-snapshot';
+import Household from '@/models/household';
+import { DEFAULT_CATEGORIES } from '@/lib/categories';
+import { recordReset } from '@/lib/change-feed';
+import { InputError } from '@/lib/validation';
+import { CategorySplit } from '@/types';
+
+export class CategoryError extends InputError {}
+
+type CategoryDoc = { _id: mongoose.Types.ObjectId; name: string; kind: string; parentId?: mongoose.Types.ObjectId };
+
+// Households get the default set the first time they ask. Upserting by name keeps two
+// concurrent first requests from creating duplicates.
+export async function getCategories(householdId: mongoose.Types.ObjectId) {
+    if (!(await Category.exists({ householdId }))) {
+        await Category.bulkWrite(DEFAULT_CATEGORIES.map(c => ({
+            updateOne: { filter: { householdId, name: c.name }, update: { $setOnInsert: c }, upsert: true }
+        })));
+    }
+    return Category.find({ householdId }).sort({ name: 1 });
+}
+
+// A parent must be a top-level category of the same kind, and a category with subcategories
+// can't itself become one
+export async function checkParent(
+    householdId: mongoose.Types.ObjectId,
+    category: { _id?: unknown; kind: unknown },
+    parentId: unknown
+): Promise<void> {
+    if (!parentId) return;
+    if (!mongoose.isValidObjectId(parentId)) throw new CategoryError('Unknown parent category');
+    const parent = await Category.findOne({ _id: parentId, householdId }).lean<CategoryDoc>();
+    if (!parent) throw new CategoryError('Unknown parent category');
+    if (category._id && parent._id.equals(String(category._id))) throw new CategoryError('A category can\'t be its own parent');
+    if (parent.parentId) throw new CategoryError('Subcategories can\'t have subcategories');
+    if (parent.kind !== category.kind) throw new CategoryError('A subcategory must be the same kind as its parent');
+    if (category._id && await Category.exists({ householdId, parentId: category._id })) {
+        throw new CategoryError('A category with subcategories can\'t be moved under another');
+    }
+}
+
+// Points everything that names `from` at `to` instead. Budgets (and their monthly snapshots)
+// are unique per category and owner: where `to` already has one, the `from` budget is dropped
+// and `to` keeps its limit. The same goes for default splits.
+export async function reassignCategory(householdId: mongoose.Types.ObjectId, from: string, to: string): Promise<number> {
+    const [transactions] = await Promise.all([
+        // Versions are bumped so an edit made before the merge can't put the old name back
+        Transaction.updateMany({ householdId, category: from }, { $set: { category: to }, $inc: { version: 1 } }),
+        RecurringTransaction.updateMany({ householdId, 'template.category': from }, { $set: { 'template.category': to } })
+    ]);
+
+    const budgetOwners = (await Budget.find({ householdId, category: to }, 'owner').lean<{ owner: string }[]>()).map(b => b.owner);
+    await Budget.deleteMany({ householdId, category: from, owner: { $in: budgetOwners } });
+    await Budget.updateMany({ householdId, category: from }, { $set: { category: to }, $inc: { version: 1 } });
+
+    const snapshots = await BudgetSnapshot.find({ householdId, category: to }, 'owner month').lean<{ owner: string; month: string }[]>();
+    if (snapshots.length > 0) {
+        await BudgetSnapshot.deleteMany({ householdId, category: from, $or: snapshots.map(({ owner, month }) => ({ owner, month })) });
+    }
+    await BudgetSnapshot.updateMany({ householdId, category: from }, { $set: { category: to } });
+
+    const household = await Household.findById(householdId);
+    if (household) {
+        const splits = household.categorySplits as CategorySplit[];
+        const hasTarget = splits.some(s => s.category === to);
+        household.categorySplits = splits
+            .filter(s => !(hasTarget && s.category === from))
+            .map(s => s.category === from ? { ...s, category: to } : s);
+        await household.save();
+    }
+
+    await Promise.all([recordReset(householdId, 'transactions'), recordReset(householdId, 'budgets')]);
+    return transactions.modifiedCount;
+}
+
+// Folds `source` into `target`: its transactions, budgets and splits move over, its subcategories
+// join the target (or the target's parent, since nesting is one level deep), and it is deleted.
+export async function mergeCategories(householdId: mongoose.Types.ObjectId, sourceId: unknown, targetId: unknown): Promise<number> {
+    if (!mongoose.isValidObjectId(sourceId) || !mongoose.isValidObjectId(targetId)) throw new CategoryError('Unknown category');
+    const [source, target] = await Promise.all([
+        Category.findOne({ _id: sourceId, householdId }).lean<CategoryDoc>(),
+        Category.findOne({ _id: targetId, householdId }).lean<CategoryDoc>()
+    ]);
+    if (!source || !target) throw new CategoryError('Unknown category');
+    if (source._id.equals(target._id)) throw new CategoryError('Pick two different categories');
+    if (source.kind !== target.kind) throw new CategoryError('Only categories of the same kind can be merged');
+    if (target.parentId?.equals(source._id)) throw new CategoryError('Move the subcategory out before merging its parent into it');
+
+    const moved = await reassignCategory(householdId, source.name, target.name);
+    await Category.updateMany({ householdId, parentId: source._id }, { $set: { parentId: target.parentId ?? target._id } });
+    await Category.deleteOne({ _id: source._id, householdId });
+    return moved;
+}
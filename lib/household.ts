@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+import Household from '@/models/household';
+import { splitError } from '@/lib/splits';
+import { InputError } from '@/lib/validation';
+import { CategorySplit, HouseholdMember, Owner, SplitMode, SplitValue } from '@/types';
+
+export class MemberError extends InputError {}
+
+export async function getMemberKeys(householdId: mongoose.Types.ObjectId): Promise<Owner[]> {
+    return (await getSplitSettings(householdId)).keys;
+}
+
+export interface SplitSettings {
+    keys: Owner[];
+    categorySplits: CategorySplit[];
+}
+
+export async function getSplitSettings(householdId: mongoose.Types.ObjectId): Promise<SplitSettings> {
+    const household = await Household.findById(householdId, 'members.key categorySplits')
+        .lean<{ members: Pick<HouseholdMember, 'key'>[]; categorySplits?: CategorySplit[] }>();
+    return { keys: household?.members.map(m => m.key) ?? [], categorySplits: household?.categorySplits ?? [] };
+}
+
+interface MemberFields {
+    type?: unknown;
+    amount?: unknown;
+    category?: unknown;
+    split?: unknown;
+    splitAmong?: unknown;
+    splitMode?: unknown;
+    splitValues?: unknown;
+    from?: unknown;
+    to?: unknown;
+}
+
+// Checks that every member key a transaction (or recurring template) references belongs to the
+// household and that its split adds up. A shared expense without an explicit split mode takes its
+// category's default from `categorySplits`, falling back to an equal split among everyone.
+export const resolveMemberFields = <T extends MemberFields>(fields: T, keys: Owner[], categorySplits: CategorySplit[] = []): T => {
+    const isMember = (key: unknown) => typeof key === 'string' && keys.includes(key);
+
+    if (fields.type === 'settlement' && (!isMember(fields.from) || !isMember(fields.to))) {
+        throw new MemberError('Settlements must be between members of the household');
+    }
+    if (fields.split !== 'shared') return fields;
+
+    const fallback = fields.splitMode ? undefined : categorySplits.find(c => c.category === fields.category);
+    const splitMode = (fields.splitMode || fallback?.mode || 'equal') as SplitMode;
+
+    if (splitMode === 'equal') {
+        const splitAmong = Array.isArray(fields.splitAmong) && fields.splitAmong.length > 0 ? fields.splitAmong : keys;
+        if (!splitAmong.every(isMember)) throw new MemberError('`splitAmong` may only list members of the household');
+        return { ...fields, splitMode, splitValues: undefined, splitAmong: [...new Set(splitAmong)] };
+    }
+
+    const splitValues = (fallback ? fallback.values : fields.splitValues) as SplitValue[];
+    if (!Array.isArray(splitValues)) throw new MemberError('`splitValues` is required for this split mode');
+    if (!splitValues.every(v => isMember(v?.member))) throw new MemberError('`splitValues` may only list members of the household');
+    const error = splitError(splitMode, splitValues, typeof fields.amount === 'number' ? fields.amount : undefined);
+    if (error) throw new MemberError(error);
+
+    // splitAmong mirrors whoever has a part so filters and exports don't need to know the mode
+    return { ...fields, splitMode, splitValues, splitAmong: splitValues.map(v => v.member) };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { applyChange, Tombstones } from '@/lib/live-sync';
+import { ChangeEvent } from '@/types';
+
+interface Item {
+    _id: string;
+    version: number;
+    name: string;
+}
+
+const upsert = (doc: Item): ChangeEvent => ({ id: `e-${doc._id}-${doc.version}`, collection: 'todos', op: 'upsert', docId: doc._id, doc });
+const remove = (docId: string, version: number): ChangeEvent => ({ id: `d-${docId}`, collection: 'todos', op: 'delete', docId, version });
+
+describe('applyChange', () => {
+    const a1 = { _id: 'a', version: 1, name: 'first' };
+    const a2 = { _id: 'a', version: 2, name: 'second' };
+
+    it('puts a new document first and replaces an updated one in place', () => {
+        const b = { _id: 'b', version: 0, name: 'b' };
+        const items = applyChange([b], upsert(a1), new Map());
+        expect(items).toEqual([a1, b]);
+        expect(applyChange(items, upsert(a2), new Map())).toEqual([a2, b]);
+    });
+
+    it('never replaces a newer version with an older one', () => {
+        expect(applyChange([a2], upsert(a1), new Map())).toEqual([a2]);
+    });
+
+    it('does not bring back a document deleted before its older upsert arrived', () => {
+        const tombstones: Tombstones = new Map();
+        const items = applyChange([a1], remove('a', 2), tombstones);
+        expect(items).toEqual([]);
+        expect(applyChange(items, upsert(a1), tombstones)).toEqual([]);
+        expect(applyChange(items, upsert(a2), tombstones)).toEqual([]);
+    });
+
+    it('lets a document restored from the trash back in', () => {
+        const tombstones: Tombstones = new Map();
+        applyChange([a1], remove('a', 1), tombstones);
+        expect(applyChange([], upsert(a2), tombstones)).toEqual([a2]);
+    });
+
+    it('drops a document that no longer belongs to the list', () => {
+        expect(applyChange([a1], upsert(a2), new Map(), doc => doc.name !== 'second')).toEqual([]);
+    });
+
+    it('restores the order with compare', () => {
+        const b = { _id: 'b', version: 0, name: 'b' };
+        const byName = (x: Item, y: Item) => x.name.localeCompare(y.name);
+        expect(applyChange([b], upsert(a1), new Map(), undefined, byName)).toEqual([b, a1]);
+    });
+});
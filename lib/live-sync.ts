@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+import { ChangeEvent } from '@/types';
+
+// How often the page refetches everything while the stream is down
+const POLL_FALLBACK_MS = 5000;
+
+// The last version of each document a delete event removed, by id. Kept for the life of the page, one
+// per list, so that an upsert arriving after the delete it preceded can't bring the document back.
+export type Tombstones = Map<string, number>;
+
+const versionOf = (doc: unknown) => (doc as { version?: number }).version ?? 0;
+
+// Applies one upsert or delete from GET /api/stream to a list held in state. An updated document
+// keeps its place and a new one goes first; `compare`, if given, then restores the order the API
+// returns. Upserted documents that `belongs` rejects (a transaction moved out of the viewed period)
+// are dropped.
+//
+// Changes can arrive out of order (see lib/change-feed.ts): an older version never replaces a newer
+// one, and an upsert at or below a deleted document's last version is ignored. Restoring a document
+// from the trash bumps its version, so that upsert gets through.
+export function applyChange<T extends { _id: string }>(
+    items: T[],
+    change: ChangeEvent,
+    tombstones: Tombstones,
+    belongs: (doc: T) => boolean = () => true,
+    compare?: (a: T, b: T) => number
+): T[] {
+    const doc = change.doc as T | undefined;
+    if (change.op === 'delete' && change.docId) {
+        tombstones.set(change.docId, Math.max(tombstones.get(change.docId) ?? 0, change.version ?? 0));
+    }
+    if (change.op !== 'upsert' || !doc) return items.filter(item => item._id !== change.docId);
+
+    const deleted = tombstones.get(doc._id);
+    if (deleted !== undefined && versionOf(doc) <= deleted) return items;
+    if (!belongs(doc)) return items.filter(item => item._id !== doc._id);
+
+    const next = items.some(item => item._id === doc._id)
+        ? items.map(item => item._id === doc._id && versionOf(item) <= versionOf(doc) ? doc : item)
+        : [doc, ...items];
+    return compare ? next.sort(compare) : next;
+}
+
+interface ChangeStreamHandlers {
+    onChange: (change: ChangeEvent) => void;
+    // Called when the page should refetch everything: on every poll while the stream is down,
+    // and once when it reconnects, for whatever happened in between
+    onResync: () => void;
+}
+
+// Subscribes the page to its household's changes. The browser reconnects a dropped EventSource
+// by itself; polling covers the gap until it does.
+export function useChangeStream(handlers: ChangeStreamHandlers): void {
+    const latest = useRef(handlers);
+    useEffect(() => {
+        latest.current = handlers;
+    });
+
+    useEffect(() => {
+        let poller: ReturnType<typeof setInterval> | null = null;
+        const startPolling = () => {
+            if (!poller) poller = setInterval(() => latest.current.onResync(), POLL_FALLBACK_MS);
+        };
+        const stopPolling = () => {
+            if (poller) clearInterval(poller);
+            poller = null;
+        };
+
+        if (typeof EventSource === 'undefined') {
+            startPolling();
+            return stopPolling;
+        }
+
+        let connected = false;
+        const source = new EventSource('/api/stream');
+        source.onopen = () => {
+            stopPolling();
+            if (connected) latest.current.onResync();
+            connected = true;
+        };
+        source.onerror = startPolling;
+        source.addEventListener('change', event => {
+            latest.current.onChange(JSON.parse((event as MessageEvent<string>).data));
+        });
+
+        return () => {
+            source.close();
+            stopPolling();
+        };
+    }, []);
+}
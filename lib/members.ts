@@ -0,0 +1,49 @@
+import { BudgetOwner, HouseholdMember, Owner } from '@/types';
+import { JOINT_BUDGET } from '@/lib/budgets';
+
+export const MAX_MEMBERS = 12;
+export const MAX_INITIALS = 3;
+export const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Offered in the profile editor; new members get the next unused one
+export const MEMBER_PALETTE = ['#3b82f6', '#d946ef', '#f97316', '#10b981', '#8b5cf6', '#ef4444', '#0ea5e9', '#eab308'];
+
+// Used until a member picks their own colour. The original two keys keep their old colours.
+const defaultColor = (key: Owner): string => {
+    if (key === 'me') return MEMBER_PALETTE[0];
+    if (key === 'her') return MEMBER_PALETTE[1];
+    const hash = [...key].reduce((sum, c) => sum + c.charCodeAt(0), 0);
+    return MEMBER_PALETTE[hash % MEMBER_PALETTE.length];
+};
+
+// The keys documents from before households were stored under. The first two members get them, so
+// entries assigned to a household by scripts/migrate-households.mjs still name real members.
+const LEGACY_KEYS: Owner[] = ['me', 'her'];
+
+// Short, URL-safe and unique within the household; stored on every document the member owns
+export const newMemberKey = (existing: Owner[]): Owner => {
+    const legacy = LEGACY_KEYS.find(key => !existing.includes(key));
+    if (legacy) return legacy;
+    for (;;) {
+        const key = `m${Math.random().toString(36).slice(2, 8)}`;
+        if (!existing.includes(key)) return key;
+    }
+};
+
+// "Asha Rao" -> "AR", "asha" -> "A"
+export const initialsOf = (name: string): string =>
+    name.trim().split(/\s+/).map(part => part[0] || '').join('').slice(0, MAX_INITIALS).toUpperCase();
+
+// Fills any blank profile fields so every view can render a member without checks
+export const resolveMember = (key: Owner, profile: Partial<HouseholdMember> = {}): HouseholdMember => {
+    const name = profile.name?.trim() || 'Member';
+    return {
+        key,
+        name,
+        initials: profile.initials?.trim() || initialsOf(name),
+        color: profile.color && HEX_COLOR.test(profile.color) ? profile.color : defaultColor(key),
+    };
+};
+
+export const budgetOwnerLabel = (owner: BudgetOwner, member: (key: Owner) => HouseholdMember): string =>
+    owner === JOINT_BUDGET ? 'Joint' : member(owner).name;
@@ -0,0 +1,35 @@
+// Amounts are stored as integer paise so sums never drift. These helpers are the only
+// place that converts between the rupee values people type/read and the stored units.
+
+// Parses a user-entered rupee value ("1,250.5") into paise. Returns NaN for anything that isn't a number.
+export const toMinorUnits = (value: string | number): number => {
+    if (typeof value === 'string' && value.trim() === '') return NaN;
+    const rupees = typeof value === 'number' ? value : Number(value.replace(/,/g, '').trim());
+    return Number.isFinite(rupees) ? Math.round(rupees * 100) : NaN;
+};
+
+export const fromMinorUnits = (paise: number): number => paise / 100;
+
+// Display helper used in place of `Number(amount).toLocaleString()`; keeps up to 2 decimals
+export const formatAmount = (paise: number, fractionDigits?: number): string =>
+    fromMinorUnits(paise).toLocaleString(undefined, fractionDigits === undefined
+        ? { maximumFractionDigits: 2 }
+        : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+
+// Every currency is stored the same way, in hundredths of its unit. Codes outside this list still
+// work; they are shown with the code as the symbol.
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+    INR: '₹', USD: '$', EUR: '€', GBP: '£', JPY: '¥', AUD: 'A$', CAD: 'C$', SGD: 'S$', AED: 'AED ', THB: '฿'
+};
+export const CURRENCIES = Object.keys(CURRENCY_SYMBOLS);
+export const DEFAULT_CURRENCY = 'INR';
+
+export const currencySymbol = (currency: string): string => CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+
+// formatAmount with the currency's symbol in front, e.g. "$12.50"
+export const formatMoney = (minor: number, currency: string, fractionDigits?: number): string =>
+    `${currencySymbol(currency)}${formatAmount(minor, fractionDigits)}`;
+
+// What a transaction counts for in totals: its amount in the household's base currency. Entries
+// from before multi-currency support have no baseAmount and were always in the base currency.
+export const baseAmountOf = (t: { amount: number; baseAmount?: number | null }): number => t.baseAmount ?? t.amount;
@@ -0,0 +1,373 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { SyncedCollection } from '@/types';
+
+// The page keeps its transactions, budgets and todos in IndexedDB so it can open and take edits
+// without a connection. Edits are applied to that copy straight away and queued in an outbox,
+// which is replayed in order whenever the server can be reached.
+//
+// Each household gets its own database, so nothing cached or queued for one account is shown to,
+// or sent as, another. The last household signed in on this device is remembered, so the page can
+// still open offline before /api/auth/me has answered.
+
+const DB_PREFIX = 'duofinance_next_v1';
+const DB_VERSION = 1;
+const HOUSEHOLD_KEY = 'duofinance_household'; // localStorage
+
+const RESPONSES = 'responses'; // Last good JSON of the aggregate endpoints (summary, accounts, other months' budgets), by URL
+const OUTBOX = 'outbox';
+const COLLECTIONS: SyncedCollection[] = ['transactions', 'budgets', 'todos']; // Stored by _id
+
+// While changes are waiting, how often to retry in case the browser never fires 'online'
+const RETRY_MS = 30000;
+
+type SyncedDoc = { _id: string };
+
+const field = (doc: SyncedDoc, key: string) => String((doc as Record<string, unknown>)[key]);
+
+export interface Mutation {
+    collection: SyncedCollection;
+    // Applied to the local copy now, and again after every refresh until the request goes through
+    local: { op: 'put'; doc: SyncedDoc } | { op: 'delete'; id: string };
+    request: { url: string; method: 'POST' | 'PUT' | 'DELETE'; body?: unknown };
+}
+
+type OutboxEntry = Mutation & { seq: number };
+
+// Which documents a GET returned: a period of transactions, or the whole collection
+export type CacheScope =
+    | { collection: 'transactions'; from: string; to: string }
+    | { collection: 'budgets' | 'todos' };
+
+// Same layout as a Mongo ObjectId (seconds, then random bytes), so ids made offline are accepted
+// by the API and sort roughly by creation time
+export const newObjectId = (): string => {
+    const seconds = Math.floor(Date.now() / 1000).toString(16).padStart(8, '0');
+    const random = Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, '0')).join('');
+    return seconds + random;
+};
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+const dbName = (householdId: string) => `${DB_PREFIX}_${householdId}`;
+
+const storedHousehold = (): string | null => {
+    try {
+        return localStorage.getItem(HOUSEHOLD_KEY);
+    } catch {
+        return null;
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Rejects until a household is known; every caller falls back to the network
+const openDb = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const householdId = storedHousehold();
+        if (!householdId) {
+            dbPromise = null;
+            reject(new Error('No household to keep an offline copy for'));
+            return;
+        }
+        const request = indexedDB.open(dbName(householdId), DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            db.createObjectStore(RESPONSES);
+            db.createObjectStore(OUTBOX, { keyPath: 'seq', autoIncrement: true });
+            for (const name of COLLECTIONS) db.createObjectStore(name, { keyPath: '_id' });
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab signing out deletes the database; let it, and reopen on next use
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+async function deleteDb(householdId: string): Promise<void> {
+    const open = dbPromise;
+    dbPromise = null;
+    await open?.then(db => db.close()).catch(() => undefined);
+    await new Promise<void>(resolve => {
+        const request = indexedDB.deleteDatabase(dbName(householdId));
+        request.onsuccess = request.onerror = request.onblocked = () => resolve();
+    });
+}
+
+// Called with the signed-in household once /api/auth/me answers. Switching to another household
+// drops the previous one's copy and outbox from this device.
+export async function setOfflineHousehold(householdId: string): Promise<void> {
+    const previous = storedHousehold();
+    if (previous === householdId) return;
+    try {
+        if (previous) await deleteDb(previous);
+        // From before databases were per household; its outbox can't be attributed to anyone
+        else indexedDB.deleteDatabase(DB_PREFIX);
+        localStorage.setItem(HOUSEHOLD_KEY, householdId);
+    } catch (error) {
+        console.error('Failed to switch offline copy', error);
+    }
+    notify();
+}
+
+// On sign-out: nothing cached stays readable and nothing queued is sent under the next session
+export async function clearOfflineStore(): Promise<void> {
+    const householdId = storedHousehold();
+    try {
+        localStorage.removeItem(HOUSEHOLD_KEY);
+        if (householdId) await deleteDb(householdId);
+    } catch (error) {
+        console.error('Failed to clear offline copy', error);
+    }
+}
+
+const done = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const committed = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const applyLocal = (tx: IDBTransaction, { collection, local }: Mutation) => {
+    const store = tx.objectStore(collection);
+    if (local.op === 'put') store.put(local.doc);
+    else store.delete(local.id);
+};
+
+const inScope = (scope: CacheScope, doc: SyncedDoc) =>
+    scope.collection !== 'transactions' || (field(doc, 'date') >= scope.from && field(doc, 'date') <= scope.to);
+
+// In the order the API returns each collection
+const SORTS: Record<SyncedCollection, (a: SyncedDoc, b: SyncedDoc) => number> = {
+    transactions: (a, b) => field(b, 'date').localeCompare(field(a, 'date')) || b._id.localeCompare(a._id),
+    budgets: () => 0,
+    todos: (a, b) => Number(field(a, 'completed') === 'true') - Number(field(b, 'completed') === 'true')
+        || field(b, 'createdAt').localeCompare(field(a, 'createdAt'))
+};
+
+async function readScope(scope: CacheScope): Promise<SyncedDoc[]> {
+    const db = await openDb();
+    const docs = await done(db.transaction(scope.collection).objectStore(scope.collection).getAll()) as SyncedDoc[];
+    return docs.filter(doc => inScope(scope, doc)).sort(SORTS[scope.collection]);
+}
+
+// Swaps the documents in `scope` for what the server returned, then re-applies the edits still
+// waiting in the outbox so they don't disappear until they are sent
+async function replaceScope(scope: CacheScope, docs: SyncedDoc[]): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction([scope.collection, OUTBOX], 'readwrite');
+    const store = tx.objectStore(scope.collection);
+    const [stored, pending] = await Promise.all([
+        done(store.getAll()) as Promise<SyncedDoc[]>,
+        done(tx.objectStore(OUTBOX).getAll()) as Promise<OutboxEntry[]>
+    ]);
+    stored.filter(doc => inScope(scope, doc)).forEach(doc => store.delete(doc._id));
+    docs.forEach(doc => store.put(doc));
+    pending.filter(entry => entry.collection === scope.collection).forEach(entry => applyLocal(tx, entry));
+    await committed(tx);
+}
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+
+// GETs an API endpoint, falling back to the local copy when the network is unreachable. With a
+// scope the response is always read back from IndexedDB, so it includes edits not yet sent;
+// without one, the last good response for the URL is kept and replayed as-is.
+export async function cachedFetch(url: string, scope?: CacheScope): Promise<Response> {
+    let res: Response;
+    try {
+        res = await fetch(url);
+    } catch (error) {
+        try {
+            if (scope) return json({ success: true, data: await readScope(scope) });
+            const db = await openDb();
+            const saved = await done(db.transaction(RESPONSES).objectStore(RESPONSES).get(url));
+            if (saved) return json(saved);
+        } catch (storeError) {
+            console.error('Failed to read offline copy', storeError);
+        }
+        throw error;
+    }
+    if (!res.ok) return res;
+
+    const body = await res.json();
+    try {
+        if (body.success && scope) {
+            await replaceScope(scope, body.data);
+            body.data = await readScope(scope);
+        } else if (body.success) {
+            const db = await openDb();
+            const tx = db.transaction(RESPONSES, 'readwrite');
+            tx.objectStore(RESPONSES).put(body, url);
+            await committed(tx);
+        }
+    } catch (error) {
+        // Private browsing can refuse IndexedDB; the page still works online
+        console.error('Failed to save offline copy', error);
+    }
+    return json(body);
+}
+
+
+// Told about changes the server refused because the document had been changed by someone else (409)
+const conflictListeners = new Set<(mutation: Mutation) => void>();
+// Told about changes the server refused outright (invalid, or the document is gone), with its message
+const rejectionListeners = new Set<(mutation: Mutation, message: string) => void>();
+
+// Tells the listeners what became of a change the server didn't accept
+async function reportRefusal(mutation: Mutation, res: Response): Promise<void> {
+    if (res.status === 409) {
+        conflictListeners.forEach(listener => listener(mutation));
+        return;
+    }
+    const body = await res.json().catch(() => null);
+    const message = typeof body?.message === 'string' ? body.message : `The server answered ${res.status}`;
+    rejectionListeners.forEach(listener => listener(mutation, message));
+}
+
+async function pendingCount(): Promise<number> {
+    const db = await openDb();
+    return done(db.transaction(OUTBOX).objectStore(OUTBOX).count());
+}
+
+let flushing: Promise<number> | null = null;
+
+// Sends queued changes oldest first and resolves with how many the server accepted. Stops at the
+// first that can't be delivered (offline, signed out, server error) so later ones never overtake it.
+// One the server rejects as invalid or conflicting is dropped and reported to the listeners; the next
+// refresh replaces the local copy with what the server has.
+//
+// The queue belongs to this household. Each request names it (X-Household-Id, see getAuth), so if a
+// different account is signed in now, in another tab say, the server answers 401 and nothing is sent.
+export function flushOutbox(): Promise<number> {
+    flushing ??= (async () => {
+        let sent = 0;
+        try {
+            const db = await openDb();
+            const household = storedHousehold() ?? '';
+            for (;;) {
+                const entry = await done(db.transaction(OUTBOX).objectStore(OUTBOX).openCursor())
+                    .then(cursor => cursor?.value as OutboxEntry | undefined);
+                if (!entry) break;
+
+                const { url, method, body } = entry.request;
+                let res: Response;
+                try {
+                    res = await fetch(url, {
+                        method,
+                        headers: { 'X-Household-Id': household, ...(body !== undefined && { 'Content-Type': 'application/json' }) },
+                        ...(body !== undefined && { body: JSON.stringify(body) })
+                    });
+                } catch {
+                    break;
+                }
+                if (res.status === 401 || res.status >= 500) break;
+                if (res.ok) sent++;
+                else await reportRefusal(entry, res);
+
+                const tx = db.transaction(OUTBOX, 'readwrite');
+                tx.objectStore(OUTBOX).delete(entry.seq);
+                await committed(tx);
+                notify();
+            }
+        } catch (error) {
+            console.error('Failed to send queued changes', error);
+        } finally {
+            flushing = null;
+            notify();
+        }
+        return sent;
+    })();
+    return flushing;
+}
+
+// Applies a change to the local copy, queues its request and tries to send the queue. Resolves
+// once it has either been sent or safely queued; the caller refreshes afterwards either way.
+export async function queueMutation(mutation: Mutation): Promise<void> {
+    try {
+        const db = await openDb();
+        const tx = db.transaction([mutation.collection, OUTBOX], 'readwrite');
+        applyLocal(tx, mutation);
+        tx.objectStore(OUTBOX).add(mutation);
+        await committed(tx);
+    } catch (error) {
+        // Without IndexedDB there is nowhere to queue it: send it directly as before
+        console.error('Failed to queue change', error);
+        const { url, method, body } = mutation.request;
+        const res = await fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+        if (!res.ok && res.status !== 401) await reportRefusal(mutation, res);
+        return;
+    }
+    notify();
+    await flushOutbox();
+}
+
+const subscribeOnline = (onChange: () => void) => {
+    window.addEventListener('online', onChange);
+    window.addEventListener('offline', onChange);
+    return () => {
+        window.removeEventListener('online', onChange);
+        window.removeEventListener('offline', onChange);
+    };
+};
+
+// How many changes are waiting to be sent, and whether the browser thinks it is online. Queued
+// changes go out when the connection comes back, and `onSent` runs if any did. `onConflict` runs for
+// each one refused because someone else had changed the document first, and `onRejected` for each
+// one refused for any other reason, with the server's message.
+export function useOutbox(
+    onSent: () => void,
+    onConflict: (mutation: Mutation) => void,
+    onRejected: (mutation: Mutation, message: string) => void
+): { pending: number; online: boolean } {
+    const [pending, setPending] = useState(0);
+    // Assumed online while rendering on the server
+    const online = useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true);
+    const latest = useRef({ onSent, onConflict, onRejected });
+    useEffect(() => {
+        latest.current = { onSent, onConflict, onRejected };
+    });
+
+    useEffect(() => {
+        const refreshCount = () => {
+            pendingCount().then(setPending).catch(() => setPending(0));
+        };
+        const flush = () => {
+            flushOutbox().then(sent => {
+                if (sent > 0) latest.current.onSent();
+            });
+        };
+        const conflict = (mutation: Mutation) => latest.current.onConflict(mutation);
+        const rejected = (mutation: Mutation, message: string) => latest.current.onRejected(mutation, message);
+
+        listeners.add(refreshCount);
+        conflictListeners.add(conflict);
+        rejectionListeners.add(rejected);
+        window.addEventListener('online', flush);
+        const retry = setInterval(flush, RETRY_MS);
+        flush();
+
+        return () => {
+            listeners.delete(refreshCount);
+            conflictListeners.delete(conflict);
+            rejectionListeners.delete(rejected);
+            window.removeEventListener('online', flush);
+            clearInterval(retry);
+        };
+    }, []);
+
+    return { pending, online };
+}
@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import RecurringTransaction from '@/models/recurring-transaction';
+import Transaction from '@/models/transactions';
+import { occurrenceAfter } from '@/lib/recurring';
+import { sharesFor } from '@/lib/splits';
+import { RateError, withBaseAmounts } from '@/lib/exchange-rates';
+import { recordReset } from '@/lib/change-feed';
+import { RecurringTransaction as RecurringItem } from '@/types';
+
+// Creates a Transaction for every occurrence of every active rule in the household that is due on or before `today`.
+//
+// Safe to call repeatedly and concurrently (cron + page loads): each occurrence is upserted on the
+// unique (recurringId, date) index, and a rule's nextDate only advances from the value we read.
+// A foreign-currency rule with no exchange rate for an occurrence stops there until one is entered.
+export async function generateDueTransactions(householdId: mongoose.Types.ObjectId, today: string): Promise<number> {
+    const rules = await RecurringTransaction.find({ householdId, paused: false, nextDate: { $lte: today } }).lean<RecurringItem[]>();
+    let created = 0;
+
+    for (const rule of rules) {
+        let date = rule.nextDate;
+        while (date <= today) {
+            if (!rule.skipDates.includes(date)) {
+                let occurrence;
+                try {
+                    [occurrence] = await withBaseAmounts(householdId, [{ ...rule.template, date }]);
+                } catch (error) {
+                    if (error instanceof RateError) break;
+                    throw error;
+                }
+                // Upserts bypass the Transaction save hook, so shares are computed here
+                const shares = sharesFor(occurrence);
+                const fields = { ...occurrence, ...(shares.length > 0 && { shares }), recurringId: rule._id, householdId };
+                try {
+                    const result = await Transaction.updateOne(
+                        { recurringId: rule._id, date },
+                        { $setOnInsert: fields },
+                        { upsert: true }
+                    );
+                    created += result.upsertedCount;
+                } catch (error) {
+                    // A concurrent run inserted the same occurrence first
+                    if ((error as { code?: number }).code !== 11000) throw error;
+                }
+            }
+            date = occurrenceAfter(rule, date);
+        }
+
+        await RecurringTransaction.updateOne(
+            { _id: rule._id, nextDate: rule.nextDate },
+            // Skips behind the new nextDate have been consumed
+            { nextDate: date, $pull: { skipDates: { $lt: date } } }
+        );
+    }
+
+    if (created > 0) await recordReset(householdId, 'transactions');
+    return created;
+}
@@ -0,0 +1,44 @@
+import { RecurringSchedule } from '@/types';
+import { daysInMonth, fromDateKey, toDateKey } from '@/lib/dates';
+
+// Day `dayOfMonth` of the given month, clamped so "the 31st" means the last day of shorter months
+const clampedDay = (year: number, monthIndex: number, dayOfMonth: number): Date => {
+    const lastDay = daysInMonth(new Date(year, monthIndex, 1));
+    return new Date(year, monthIndex, Math.min(dayOfMonth, lastDay));
+};
+
+// First occurrence of the schedule on or after `fromKey` ('YYYY-MM-DD')
+export const occurrenceOnOrAfter = (schedule: RecurringSchedule, fromKey: string): string => {
+    const from = fromDateKey(fromKey);
+
+    if (schedule.frequency === 'weekly') {
+        const offset = (schedule.dayOfWeek - from.getDay() + 7) % 7;
+        from.setDate(from.getDate() + offset);
+        return toDateKey(from);
+    }
+
+    if (schedule.frequency === 'monthly') {
+        let candidate = clampedDay(from.getFullYear(), from.getMonth(), schedule.dayOfMonth);
+        if (candidate < from) candidate = clampedDay(from.getFullYear(), from.getMonth() + 1, schedule.dayOfMonth);
+        return toDateKey(candidate);
+    }
+
+    // Yearly: `month` is 1-12
+    let candidate = clampedDay(from.getFullYear(), schedule.month - 1, schedule.dayOfMonth);
+    if (candidate < from) candidate = clampedDay(from.getFullYear() + 1, schedule.month - 1, schedule.dayOfMonth);
+    return toDateKey(candidate);
+};
+
+// The occurrence strictly after `dateKey`
+export const occurrenceAfter = (schedule: RecurringSchedule, dateKey: string): string => {
+    const next = fromDateKey(dateKey);
+    next.setDate(next.getDate() + 1);
+    return occurrenceOnOrAfter(schedule, toDateKey(next));
+};
+
+// The next `count` occurrences starting at `fromKey` (inclusive)
+export const upcomingOccurrences = (schedule: RecurringSchedule, fromKey: string, count: number): string[] => {
+    const dates = [occurrenceOnOrAfter(schedule, fromKey)];
+    while (dates.length < count) dates.push(occurrenceAfter(schedule, dates[dates.length - 1]));
+    return dates;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parse, ValidationError } from '@/lib/validation';
+import { householdUpdateSchema, rateSchema, registerSchema, transactionSchema } from '@/lib/request-schemas';
+
+const fieldsOf = (run: () => unknown): Record<string, string> => {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof ValidationError) return error.fields;
+        throw error;
+    }
+    return {};
+};
+
+const expense = { amount: 1250, category: 'Food', date: '2026-03-05', type: 'expense' };
+
+describe('transactionSchema', () => {
+    it('drops fields the client may not set', () => {
+        expect(parse(transactionSchema, { ...expense, owner: 'her', householdId: 'x', shares: [] })).toEqual(expense);
+    });
+
+    it('needs whole paise and a YYYY-MM-DD date', () => {
+        expect(fieldsOf(() => parse(transactionSchema, { ...expense, amount: 12.5, date: '05/03/2026' }))).toEqual({
+            amount: 'Amount must be a whole number',
+            date: 'Date must be YYYY-MM-DD'
+        });
+    });
+
+    it('lets transfers leave the category out', () => {
+        expect(fieldsOf(() => parse(transactionSchema, { ...expense, type: 'transfer', category: undefined }))).toEqual({});
+        expect(fieldsOf(() => parse(transactionSchema, { ...expense, category: '' }))).toEqual({ category: 'Category is required' });
+    });
+
+    it('needs a settlement between two different members', () => {
+        expect(fieldsOf(() => parse(transactionSchema, { ...expense, type: 'settlement', from: 'a', to: 'a' }))).toEqual({
+            to: 'A settlement must be between two different members'
+        });
+    });
+
+    it('only lets expenses count towards a goal', () => {
+        expect(fieldsOf(() => parse(transactionSchema, { ...expense, type: 'income', goalId: 'g' }))).toEqual({
+            goalId: 'Only expenses can count towards a savings goal'
+        });
+    });
+});
+
+describe('registerSchema', () => {
+    it('keeps the password exactly as typed', () => {
+        const body = parse(registerSchema, { name: 'Ann', email: 'ann@example.com', password: '  spaced  ' });
+        expect(body.password).toBe('  spaced  ');
+    });
+
+    it('rejects a malformed email', () => {
+        expect(fieldsOf(() => parse(registerSchema, { name: 'Ann', email: 'ann', password: 'long enough' }))).toEqual({
+            email: 'Email is not valid'
+        });
+    });
+});
+
+describe('householdUpdateSchema', () => {
+    it('accepts an empty colour but not a malformed one', () => {
+        expect(fieldsOf(() => parse(householdUpdateSchema, { members: [{ key: 'me', color: '' }] }))).toEqual({});
+        expect(fieldsOf(() => parse(householdUpdateSchema, { members: [{ key: 'me', color: 'red' }] }))).toEqual({
+            'members.0.color': 'Colour must be #rrggbb'
+        });
+    });
+});
+
+describe('rateSchema', () => {
+    it('needs a positive rate', () => {
+        expect(fieldsOf(() => parse(rateSchema, { currency: 'USD', date: '2026-03-01', rate: 0 }))).toHaveProperty('rate');
+    });
+});
@@ -0,0 +1,232 @@
+import { array, boolean, dateKey, number, object, objectId, oneOf, optional, optionalFields, present, Rules, Shape, string } from '@/lib/validation';
+import { SPLIT_MODES } from '@/lib/splits';
+import { BUDGET_PERIODS } from '@/lib/budgets';
+import { TRASH_COLLECTIONS } from '@/lib/trash';
+import { HEX_COLOR, MAX_INITIALS } from '@/lib/members';
+import { CATEGORY_ICONS, CATEGORY_KINDS } from '@/lib/categories';
+import { MIN_PASSWORD_LENGTH } from '@/lib/auth';
+import {
+    AccountInput,
+    AccountKind,
+    AccountUpdate,
+    BudgetInput,
+    CategoryInput,
+    CategoryMergeInput,
+    CategorySplit,
+    CategorySplitMode,
+    CategoryUpdate,
+    GoalInput,
+    GoalUpdate,
+    HouseholdUpdate,
+    LoginInput,
+    MemberProfileInput,
+    RateInput,
+    RecurringFrequency,
+    RecurringInput,
+    RecurringTemplateInput,
+    RecurringUpdate,
+    RegisterInput,
+    RestoreInput,
+    RestoreMode,
+    SettlementMethod,
+    SplitType,
+    SplitValue,
+    TodoInput,
+    TodoUpdate,
+    TransactionInput,
+    TransactionType,
+    TransactionUpdate,
+    TrashItemInput
+} from '@/types';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['income', 'expense', 'settlement', 'transfer'];
+const SPLIT_TYPES: SplitType[] = ['personal', 'shared'];
+const SETTLEMENT_METHODS: SettlementMethod[] = ['cash', 'upi', 'bank_transfer'];
+
+const CATEGORY_SPLIT_MODES: CategorySplitMode[] = ['percentage', 'shares'];
+const RECURRING_FREQUENCIES: RecurringFrequency[] = ['weekly', 'monthly', 'yearly'];
+export const ACCOUNT_KINDS: AccountKind[] = ['bank', 'credit_card', 'cash', 'upi'];
+const RESTORE_MODES: RestoreMode[] = ['merge', 'replace'];
+
+const MAX_NOTE_LENGTH = 500;
+const MAX_TODO_LENGTH = 500;
+const MAX_NAME_LENGTH = 100;
+
+const version = () => optional(number({ min: 0, integer: true }));
+// Empty means the base currency
+const currency = () => string({ pattern: /^([A-Za-z]{3})?$/, message: 'Currency must be a 3-letter code' });
+const color = () => string({ pattern: HEX_COLOR, message: 'Colour must be #rrggbb' });
+const splitValue = () => object<SplitValue>({ member: string({ min: 1 }), value: number({ min: 0 }) });
+
+const transactionFields: Shape<TransactionInput> = {
+    _id: optional(objectId()),
+    amount: number({ min: 0, integer: true }),
+    currency: optional(currency()),
+    category: optional(string({ max: 100 })),
+    date: dateKey(),
+    note: optional(string({ max: MAX_NOTE_LENGTH })),
+    tags: optional(array(string({ max: 100 }), { max: 100 })), // Normalised by the model (see lib/tags.ts)
+    type: oneOf(TRANSACTION_TYPES),
+    split: optional(oneOf(SPLIT_TYPES)),
+    splitAmong: optional(array(string({ min: 1 }))),
+    splitMode: optional(oneOf(SPLIT_MODES)),
+    splitValues: optional(array(splitValue())),
+    from: optional(string()),
+    to: optional(string()),
+    method: optional(oneOf(SETTLEMENT_METHODS)),
+    accountId: optional(string()),
+    toAccountId: optional(string()),
+    goalId: optional(string())
+};
+
+// Rules that span fields. Whether members, accounts and goals belong to the household is checked
+// against the database afterwards (lib/household.ts, lib/accounts.ts, lib/goals.ts).
+export const transactionRules: Rules<Partial<TransactionInput>> = (tx, issue) => {
+    // Transfers are filed under their own category by the server
+    if (tx.type !== 'transfer' && !tx.category) issue('category', 'Category is required');
+    if (tx.goalId && tx.type !== 'expense') issue('goalId', 'Only expenses can count towards a savings goal');
+    if (tx.type !== 'settlement') return;
+    if (!tx.from) issue('from', 'A settlement needs the member who paid');
+    if (!tx.to) issue('to', 'A settlement needs the member who was paid');
+    if (tx.from && tx.from === tx.to) issue('to', 'A settlement must be between two different members');
+    if (tx.amount === 0) issue('amount', 'A settlement must be for more than zero');
+};
+
+export const transactionSchema = object<TransactionInput>(transactionFields, transactionRules);
+
+// Cross-field rules are checked on the update merged over the stored entry (see checkRules)
+export const transactionUpdateSchema = object<TransactionUpdate>({ ...optionalFields(transactionFields), _id: objectId(), version: version() });
+
+export const todoSchema = object<TodoInput>({
+    _id: optional(objectId()),
+    text: string({ min: 1, max: MAX_TODO_LENGTH })
+});
+
+export const todoUpdateSchema = object<TodoUpdate>({
+    _id: objectId(),
+    version: version(),
+    text: optional(string({ min: 1, max: MAX_TODO_LENGTH })),
+    completed: optional(boolean())
+});
+
+export const budgetSchema = object<BudgetInput>({
+    category: string({ min: 1, max: 100 }),
+    owner: string({ min: 1 }),
+    amount: number({ min: 0, integer: true }),
+    period: optional(oneOf(BUDGET_PERIODS)),
+    rollover: optional(boolean()),
+    version: version()
+});
+
+const goalFields: Shape<GoalInput> = {
+    name: string({ min: 1, max: 100 }),
+    targetAmount: number({ min: 1, integer: true }),
+    deadline: dateKey(),
+    owner: string({ min: 1 })
+};
+
+export const goalSchema = object<GoalInput>(goalFields);
+
+export const goalUpdateSchema = object<GoalUpdate>({ ...optionalFields(goalFields), _id: objectId() });
+
+export const trashItemSchema = object<TrashItemInput>({
+    collection: oneOf(TRASH_COLLECTIONS),
+    _id: objectId()
+});
+
+export const registerSchema = object<RegisterInput>({
+    name: string({ min: 1, max: MAX_NAME_LENGTH }),
+    email: string({ min: 1, max: 254, pattern: /^[^\s@]+@[^\s@]+$/, message: 'Email is not valid' }),
+    password: string({ min: MIN_PASSWORD_LENGTH, trim: false }),
+    inviteCode: optional(string({ max: 32 }))
+});
+
+export const loginSchema = object<LoginInput>({
+    email: string({ min: 1 }),
+    password: string({ min: 1, trim: false })
+});
+
+export const householdUpdateSchema = object<HouseholdUpdate>({
+    name: optional(string({ min: 1, max: MAX_NAME_LENGTH })),
+    members: optional(array(object<MemberProfileInput>({
+        key: string({ min: 1 }),
+        name: optional(string({ max: MAX_NAME_LENGTH })),
+        initials: optional(string({ max: MAX_INITIALS })),
+        // Empty falls back to the member's default colour
+        color: optional(string({ pattern: new RegExp(`^$|${HEX_COLOR.source}`, 'i'), message: 'Colour must be #rrggbb' }))
+    }))),
+    categorySplits: optional(array(object<CategorySplit>({
+        category: string({ min: 1, max: MAX_NAME_LENGTH }),
+        mode: oneOf(CATEGORY_SPLIT_MODES),
+        values: array(splitValue())
+    }))),
+    baseCurrency: optional(string({ pattern: /^[A-Za-z]{3}$/, message: 'Currency must be a 3-letter code' }))
+});
+
+const recurringTemplateSchema = object<RecurringTemplateInput>({
+    amount: number({ min: 0, integer: true }),
+    currency: optional(currency()),
+    category: string({ min: 1, max: MAX_NAME_LENGTH }),
+    note: optional(string({ max: MAX_NOTE_LENGTH })),
+    type: oneOf(['income', 'expense'] as const),
+    split: optional(oneOf(SPLIT_TYPES)),
+    splitAmong: optional(array(string({ min: 1 }))),
+    splitMode: optional(oneOf(SPLIT_MODES)),
+    splitValues: optional(array(splitValue()))
+});
+
+export const recurringSchema = object<RecurringInput>({
+    template: recurringTemplateSchema,
+    frequency: oneOf(RECURRING_FREQUENCIES),
+    dayOfWeek: optional(number({ min: 0, max: 6, integer: true })),
+    dayOfMonth: optional(number({ min: 1, max: 31, integer: true })),
+    month: optional(number({ min: 1, max: 12, integer: true })),
+    startDate: optional(dateKey())
+});
+
+export const recurringUpdateSchema = object<RecurringUpdate>({
+    _id: objectId(),
+    paused: optional(boolean()),
+    skipDate: optional(dateKey()),
+    unskipDate: optional(dateKey())
+});
+
+export const rateSchema = object<RateInput>({
+    currency: string({ pattern: /^[A-Za-z]{3}$/, message: 'Currency must be a 3-letter code' }),
+    date: dateKey(),
+    rate: number({ min: Number.MIN_VALUE })
+});
+
+const categoryFields: Shape<Omit<CategoryInput, 'kind'>> = {
+    name: string({ min: 1, max: MAX_NAME_LENGTH }),
+    icon: optional(oneOf(CATEGORY_ICONS)),
+    color: color(),
+    parentId: optional(string({ pattern: /^([0-9a-f]{24})?$/i, message: 'Not a valid id' })),
+    budgeted: optional(boolean())
+};
+
+export const categorySchema = object<CategoryInput>({ ...categoryFields, kind: oneOf(CATEGORY_KINDS) });
+
+export const categoryUpdateSchema = object<CategoryUpdate>({ ...optionalFields(categoryFields), _id: objectId() });
+
+export const categoryMergeSchema = object<CategoryMergeInput>({
+    sourceId: objectId(),
+    targetId: objectId()
+});
+
+const accountFields: Shape<AccountInput> = {
+    name: string({ min: 1, max: MAX_NAME_LENGTH }),
+    kind: oneOf(ACCOUNT_KINDS),
+    owner: optional(string({ min: 1 })),
+    // Negative for a credit card that starts with dues
+    openingBalance: optional(number({ integer: true }))
+};
+
+export const accountSchema = object<AccountInput>(accountFields);
+
+export const accountUpdateSchema = object<AccountUpdate>({ ...optionalFields(accountFields), _id: objectId() });
+
+export const restoreSchema = object<RestoreInput>({
+    mode: oneOf(RESTORE_MODES),
+    archive: present()
+});
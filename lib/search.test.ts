@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery } from '@/lib/search';
+
+// Every parameter with all of its values
+const paramsOf = (input: string) => {
+    const params = parseSearchQuery(input);
+    return Object.fromEntries([...new Set(params.keys())].map(key => [key, params.getAll(key)]));
+};
+
+describe('parseSearchQuery', () => {
+    it('splits tags, amount bounds and words', () => {
+        expect(paramsOf('#Goa-Trip dinner >500 <2000.5 beach')).toEqual({
+            tag: ['goa-trip'],
+            minAmount: ['50000'],
+            maxAmount: ['200050'],
+            q: ['dinner beach']
+        });
+    });
+
+    it('reads a range as both bounds', () => {
+        expect(paramsOf('500-2000')).toEqual({ minAmount: ['50000'], maxAmount: ['200000'] });
+    });
+
+    it('keeps several tags', () => {
+        expect(parseSearchQuery('#a #b').getAll('tag')).toEqual(['a', 'b']);
+    });
+
+    it('treats a lone # as a word', () => {
+        expect(paramsOf('#')).toEqual({ q: ['#'] });
+    });
+
+    it('returns nothing for a blank query', () => {
+        expect(parseSearchQuery('   ').toString()).toBe('');
+    });
+});
@@ -0,0 +1,30 @@
+import { toMinorUnits } from '@/lib/money';
+import { normalizeTag } from '@/lib/tags';
+
+// Turns what's typed in the search bar into GET /api/transactions parameters:
+//   #goa-trip   a tag (repeat for entries carrying several)
+//   >500 <2000  amount bounds in the base currency; 500-2000 is shorthand for both
+// Everything else is matched as words against notes, categories and tags.
+export const parseSearchQuery = (input: string): URLSearchParams => {
+    const params = new URLSearchParams();
+    const words: string[] = [];
+
+    for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+        const range = token.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+        if (token.startsWith('#') && normalizeTag(token)) {
+            params.append('tag', normalizeTag(token));
+        } else if (/^>=?\d+(\.\d+)?$/.test(token)) {
+            params.set('minAmount', String(toMinorUnits(token.replace(/^>=?/, ''))));
+        } else if (/^<=?\d+(\.\d+)?$/.test(token)) {
+            params.set('maxAmount', String(toMinorUnits(token.replace(/^<=?/, ''))));
+        } else if (range) {
+            params.set('minAmount', String(toMinorUnits(range[1])));
+            params.set('maxAmount', String(toMinorUnits(range[2])));
+        } else {
+            words.push(token);
+        }
+    }
+
+    if (words.length > 0) params.set('q', words.join(' '));
+    return params;
+};
@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+import Transaction from '@/models/transactions';
+import { baseAmountOf } from '@/lib/money';
+import { Debt, LedgerEntry, Owner, Transaction as TransactionItem } from '@/types';
+
+// The raw debts a single transaction creates, with the same conventions as getDebts in lib/summary.ts
+const debtsOf = (tx: TransactionItem): Debt[] => {
+    if (tx.type === 'settlement') return tx.from && tx.to ? [{ from: tx.to, to: tx.from, amount: baseAmountOf(tx) }] : [];
+    return (tx.shares || [])
+        .filter(s => s.member !== tx.owner)
+        .map(s => ({ from: s.member, to: tx.owner, amount: s.amount }));
+};
+
+// Every settlement, newest first, with what was still outstanding between its two members right
+// after it. Shared expenses and settlements are replayed in (date, _id) order, so a backdated entry
+// counts from its date. The figures are pairwise: with more than two members the dashboard's
+// suggested payments may route the same debt through someone else.
+export async function getSettlementLedger(householdId: mongoose.Types.ObjectId): Promise<LedgerEntry[]> {
+    const transactions = await Transaction.find({
+        householdId,
+        $or: [{ type: 'settlement' }, { type: 'expense', split: 'shared' }]
+    }).sort({ date: 1, _id: 1 }).lean<TransactionItem[]>();
+
+    const owed = new Map<string, number>();
+    const pairKey = (from: Owner, to: Owner) => JSON.stringify([from, to]);
+    const owedBy = (from: Owner, to: Owner) => owed.get(pairKey(from, to)) || 0;
+
+    const entries: LedgerEntry[] = [];
+    for (const tx of transactions) {
+        debtsOf(tx).forEach(({ from, to, amount }) => owed.set(pairKey(from, to), owedBy(from, to) + amount));
+        if (tx.type !== 'settlement' || !tx.from || !tx.to) continue;
+
+        const net = owedBy(tx.from, tx.to) - owedBy(tx.to, tx.from);
+        entries.push({
+            transaction: tx,
+            outstanding: net >= 0 ? { from: tx.from, to: tx.to, amount: net } : { from: tx.to, to: tx.from, amount: -net }
+        });
+    }
+    return entries.reverse();
+}
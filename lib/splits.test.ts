@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseSplitValues, sharesFor, splitByWeights, splitEqually, splitError } from '@/lib/splits';
+
+const total = (shares: { amount: number }[]) => shares.reduce((sum, s) => sum + s.amount, 0);
+
+describe('splitEqually', () => {
+    it('gives leftover paise to the first members', () => {
+        expect(splitEqually(100, ['a', 'b', 'c'])).toEqual([
+            { member: 'a', amount: 34 },
+            { member: 'b', amount: 33 },
+            { member: 'c', amount: 33 }
+        ]);
+    });
+
+    it('returns nothing for nobody', () => {
+        expect(splitEqually(100, [])).toEqual([]);
+    });
+});
+
+describe('splitByWeights', () => {
+    it('always adds up to the amount', () => {
+        const shares = splitByWeights(1001, [{ member: 'a', value: 33.33 }, { member: 'b', value: 33.33 }, { member: 'c', value: 33.34 }]);
+        expect(total(shares)).toBe(1001);
+    });
+
+    it('gives leftover paise to the largest remainders', () => {
+        expect(splitByWeights(10, [{ member: 'a', value: 1 }, { member: 'b', value: 2 }])).toEqual([
+            { member: 'a', amount: 3 },
+            { member: 'b', amount: 7 }
+        ]);
+    });
+});
+
+describe('splitError', () => {
+    it('accepts percentages that add up to 100', () => {
+        expect(splitError('percentage', [{ member: 'a', value: 60 }, { member: 'b', value: 40 }])).toBeNull();
+    });
+
+    it('rejects percentages that do not', () => {
+        expect(splitError('percentage', [{ member: 'a', value: 60 }, { member: 'b', value: 30 }])).toBe('Percentages must add up to 100');
+    });
+
+    it('checks fixed amounts against the transaction amount', () => {
+        const values = [{ member: 'a', value: 700 }, { member: 'b', value: 300 }];
+        expect(splitError('fixed', values, 1000)).toBeNull();
+        expect(splitError('fixed', values, 1200)).toBe('Fixed amounts must add up to the transaction amount');
+    });
+
+    it('rejects a member listed twice', () => {
+        expect(splitError('shares', [{ member: 'a', value: 1 }, { member: 'a', value: 2 }])).toBe('Each member may appear in a split only once');
+    });
+});
+
+describe('sharesFor', () => {
+    it('splits shared expenses in the base currency', () => {
+        expect(sharesFor({ type: 'expense', split: 'shared', amount: 10, baseAmount: 900, splitAmong: ['a', 'b'] })).toEqual([
+            { member: 'a', amount: 450 },
+            { member: 'b', amount: 450 }
+        ]);
+    });
+
+    it('leaves personal entries and income unsplit', () => {
+        expect(sharesFor({ type: 'expense', split: 'personal', amount: 100, splitAmong: ['a', 'b'] })).toEqual([]);
+        expect(sharesFor({ type: 'income', split: 'shared', amount: 100, splitAmong: ['a', 'b'] })).toEqual([]);
+    });
+
+    it('drops members whose portion rounds to nothing', () => {
+        const shares = sharesFor({
+            type: 'expense', split: 'shared', amount: 1, splitMode: 'shares',
+            splitValues: [{ member: 'a', value: 3 }, { member: 'b', value: 1 }]
+        });
+        expect(shares).toEqual([{ member: 'a', amount: 1 }]);
+    });
+});
+
+describe('parseSplitValues', () => {
+    it('reads fixed amounts as paise and skips blanks', () => {
+        expect(parseSplitValues('fixed', { a: '12.50', b: ' ' })).toEqual([{ member: 'a', value: 1250 }]);
+    });
+});
@@ -0,0 +1,85 @@
+import { fromMinorUnits, toMinorUnits } from '@/lib/money';
+import { Owner, Share, SplitMode, SplitType, SplitValue, TransactionType } from '@/types';
+
+export const SPLIT_MODES: SplitMode[] = ['equal', 'percentage', 'fixed', 'shares'];
+
+// Divides `amount` paise in proportion to each member's `value` using the largest remainder
+// method: everyone gets the floor of their exact portion, then the paise left over go one each
+// to the largest fractional parts (earlier members win ties). The shares always add up to `amount`.
+export const splitByWeights = (amount: number, weights: SplitValue[]): Share[] => {
+    const total = weights.reduce((sum, w) => sum + w.value, 0);
+    if (total <= 0) return [];
+    const exact = weights.map(w => amount * w.value / total);
+    const shares = weights.map((w, i) => ({ member: w.member, amount: Math.floor(exact[i]) }));
+    let leftover = amount - shares.reduce((sum, s) => sum + s.amount, 0);
+    const byRemainder = exact.map((x, i) => i).sort((a, b) => (exact[b] % 1) - (exact[a] % 1) || a - b);
+    for (const i of byRemainder) {
+        if (leftover === 0) break;
+        shares[i].amount += 1;
+        leftover -= 1;
+    }
+    return shares;
+};
+
+// Divides `amount` paise equally among `members`. Leftover paise go one each to the first
+// members in the list, so the shares always add up to exactly `amount`.
+export const splitEqually = (amount: number, members: Owner[]): Share[] =>
+    splitByWeights(amount, members.map(member => ({ member, value: 1 })));
+
+// Percentages may carry decimals (33.33/33.33/33.34) but must add up to 100 within this tolerance
+const PERCENT_TOLERANCE = 0.01;
+
+// Why a split can't be applied, or null. `values` is ignored for equal splits; for the others it
+// holds percentages, paise or share counts respectively. Fixed amounts are only checked against
+// `amount` when it is known.
+export const splitError = (mode: SplitMode, values: SplitValue[], amount?: number): string | null => {
+    if (!SPLIT_MODES.includes(mode)) return `Unknown split mode "${mode}"`;
+    if (mode === 'equal') return null;
+    if (values.length === 0) return 'A split needs at least one member';
+    if (new Set(values.map(v => v.member)).size !== values.length) return 'Each member may appear in a split only once';
+    if (values.some(v => typeof v.value !== 'number' || !Number.isFinite(v.value) || v.value < 0)) {
+        return 'Split values must be non-negative numbers';
+    }
+
+    const total = values.reduce((sum, v) => sum + v.value, 0);
+    if (mode === 'percentage' && Math.abs(total - 100) > PERCENT_TOLERANCE) return 'Percentages must add up to 100';
+    if (mode === 'shares' && total <= 0) return 'At least one member needs a share';
+    if (mode === 'fixed') {
+        if (!values.every(v => Number.isInteger(v.value))) return 'Fixed amounts must be whole numbers of paise';
+        if (amount !== undefined && total !== amount) return 'Fixed amounts must add up to the transaction amount';
+    }
+    return null;
+};
+
+interface Splittable {
+    type: TransactionType;
+    amount: number;
+    baseAmount?: number | null;
+    split?: SplitType | null;
+    splitAmong?: Owner[] | null;
+    splitMode?: SplitMode | null;
+    splitValues?: SplitValue[] | null;
+}
+
+// Who bears how much of a transaction, in the base currency. Only shared expenses are divided;
+// everything else is empty. Expects a split that passes splitError. Fixed amounts are in the
+// transaction's own currency, so they are applied as weights. Members whose portion rounds to
+// nothing are left out.
+export const sharesFor = (tx: Splittable): Share[] => {
+    if (tx.type !== 'expense' || tx.split !== 'shared') return [];
+    const amount = tx.baseAmount ?? tx.amount;
+    const shares = (tx.splitMode || 'equal') === 'equal'
+        ? splitEqually(amount, tx.splitAmong || [])
+        : splitByWeights(amount, tx.splitValues || []);
+    return shares.filter(s => s.amount > 0);
+};
+
+// The entry form keeps split values as typed, with fixed amounts in whole currency units. Blank entries are
+// left out of the split.
+export const parseSplitValues = (mode: SplitMode, typed: Record<Owner, string>): SplitValue[] =>
+    Object.entries(typed)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([member, value]) => ({ member, value: mode === 'fixed' ? toMinorUnits(value) : Number(value) }));
+
+export const formatSplitValues = (mode: SplitMode, values: SplitValue[]): Record<Owner, string> =>
+    Object.fromEntries(values.map(v => [v.member, String(mode === 'fixed' ? fromMinorUnits(v.value) : v.value)]));
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { duplicateKey, parseStatementAmount, parseStatementDate } from '@/lib/statement-import';
+
+describe('parseStatementDate', () => {
+    it.each([
+        ['2026-03-05', '2026-03-05'],
+        ['2026-03-05T10:00:00', '2026-03-05'],
+        ['05/03/2026', '2026-03-05'],
+        ['5-3-26', '2026-03-05'],
+        ['05.03.2026', '2026-03-05'],
+        ['05 Mar 2026', '2026-03-05'],
+        ['5-March-26', '2026-03-05']
+    ])('reads %s day first', (raw, expected) => {
+        expect(parseStatementDate(raw)).toBe(expected);
+    });
+
+    it('rejects dates that do not exist rather than rolling them over', () => {
+        expect(parseStatementDate('31/02/2026')).toBeNull();
+        expect(parseStatementDate('2026-13-01')).toBeNull();
+    });
+
+    it('rejects what it cannot read', () => {
+        expect(parseStatementDate('05 Foo 2026')).toBeNull();
+        expect(parseStatementDate('yesterday')).toBeNull();
+    });
+});
+
+describe('parseStatementAmount', () => {
+    it.each([
+        ['1,250.50', 125050],
+        ['₹ 1,250.50', 125050],
+        ['Rs. 99', 9900],
+        ['INR 10', 1000],
+        ['(1,200.00)', -120000],
+        ['500 Dr', -50000],
+        ['500 Cr', 50000],
+        ['-42.1', -4210]
+    ])('reads %s', (raw, expected) => {
+        expect(parseStatementAmount(raw)).toBe(expected);
+    });
+
+    it('gives NaN for a blank cell', () => {
+        expect(parseStatementAmount('  ')).toBeNaN();
+    });
+});
+
+describe('duplicateKey', () => {
+    it('ignores case and spacing in the note', () => {
+        expect(duplicateKey({ date: '2026-03-05', amount: 100, note: '  UPI   Coffee ' }))
+            .toBe(duplicateKey({ date: '2026-03-05', amount: 100, note: 'upi coffee' }));
+    });
+});
@@ -0,0 +1,64 @@
+import { Transaction } from '@/types';
+import { toDateKey } from '@/lib/dates';
+import { toMinorUnits } from '@/lib/money';
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const validDate = (y: number, m: number, d: number): string | null => {
+    const date = new Date(y, m - 1, d);
+    // Rejects 31/02 and friends, which Date would silently roll over
+    if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+    return toDateKey(date);
+};
+
+// Bank statement dates into 'YYYY-MM-DD'. Indian banks export day-first, so slashed and dashed
+// numeric dates are read as DD/MM/YYYY; ISO dates and "05 Mar 2026" are also accepted.
+export const parseStatementDate = (raw: string): string | null => {
+    const value = raw.trim();
+
+    let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (match) return validDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+    match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    if (match) {
+        const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+        return validDate(year, Number(match[2]), Number(match[1]));
+    }
+
+    match = value.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2}|\d{4})$/);
+    if (match) {
+        const month = MONTH_NAMES.indexOf(match[2].toLowerCase()) + 1;
+        const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+        return month > 0 ? validDate(year, month, Number(match[1])) : null;
+    }
+
+    return null;
+};
+
+// Signed paise from a statement cell: drops currency symbols and thousands separators,
+// and reads "(1,200.00)" and trailing "Dr" as negative.
+export const parseStatementAmount = (raw: string): number => {
+    let value = raw.trim();
+    let negative = false;
+    if (/^\(.*\)$/.test(value)) {
+        negative = true;
+        value = value.slice(1, -1);
+    }
+    if (/\s*dr\.?$/i.test(value)) {
+        negative = true;
+        value = value.replace(/\s*dr\.?$/i, '');
+    }
+    value = value.replace(/\s*cr\.?$/i, '').replace(/[₹$€£,\s]|INR|Rs\.?/gi, '');
+    const paise = toMinorUnits(value);
+    return negative ? -paise : paise;
+};
+
+const normalizeNote = (note: string | undefined): string =>
+    (note || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const duplicateKey = (t: { date: string; amount: number; note?: string }): string =>
+    `${t.date}|${t.amount}|${normalizeNote(t.note)}`;
+
+// Keys of existing transactions that an imported row would likely duplicate (same date, amount and note)
+export const existingKeys = (existing: Transaction[]): Set<string> =>
+    new Set(existing.map(duplicateKey));
@@ -0,0 +1,100 @@
+import mongoose from 'mongoose';
+import Transaction from '@/models/transactions';
+import { buildBalanceMatrix, simplifyDebts } from '@/lib/balances';
+import { JOINT_BUDGET } from '@/lib/budgets';
+import { BudgetOwner, CategorySpend, Debt, Owner, Summary, TagTotal } from '@/types';
+
+type DebtRow = { _id: { from: Owner; to: Owner }; amount: number };
+
+// A transaction's amount in the base currency; see baseAmountOf in lib/money.ts
+export const BASE_AMOUNT = { $ifNull: ['$baseAmount', '$amount'] };
+
+// Every debt ever recorded in the household, before netting. Each member in a shared expense's
+// split owes the payer their share; a settlement from A to B cancels that much of A's debt to B,
+// which is the same as B owing A that amount.
+async function getDebts(householdId: mongoose.Types.ObjectId): Promise<Debt[]> {
+    const [shareRows, settlementRows] = await Promise.all([
+        Transaction.aggregate<DebtRow>([
+            { $match: { householdId, type: 'expense', split: 'shared' } },
+            { $unwind: '$shares' },
+            { $match: { $expr: { $ne: ['$shares.member', '$owner'] } } },
+            { $group: { _id: { from: '$shares.member', to: '$owner' }, amount: { $sum: '$shares.amount' } } }
+        ]),
+        Transaction.aggregate<DebtRow>([
+            { $match: { householdId, type: 'settlement' } },
+            { $group: { _id: { from: '$to', to: '$from' }, amount: { $sum: BASE_AMOUNT } } }
+        ])
+    ]);
+    return [...shareRows, ...settlementRows].map(row => ({ from: row._id.from, to: row._id.to, amount: row.amount }));
+}
+
+// Expense totals per category for the period matched by `dateFilter`, attributed to budgets:
+// shared expenses count against the joint budget, personal ones against whoever paid.
+// Aggregations skip schema casting, so `householdId` must already be an ObjectId.
+export async function getCategorySpend(householdId: mongoose.Types.ObjectId, dateFilter: Record<string, unknown>): Promise<CategorySpend[]> {
+    const rows = await Transaction.aggregate<{ _id: { category: string; owner: BudgetOwner }; amount: number }>([
+        { $match: { ...dateFilter, householdId, type: 'expense' } },
+        {
+            $group: {
+                _id: {
+                    category: '$category',
+                    owner: { $cond: [{ $eq: ['$split', 'shared'] }, JOINT_BUDGET, '$owner'] }
+                },
+                amount: { $sum: BASE_AMOUNT }
+            }
+        }
+    ]);
+
+    return rows
+        .map(row => ({ category: row._id.category, owner: row._id.owner, amount: row.amount }))
+        .sort((a, b) => b.amount - a.amount);
+}
+
+// Income/expense and per-category spend for the period matched by `dateFilter`,
+// plus who owes whom, which always spans all time.
+export async function getSummary(householdId: mongoose.Types.ObjectId, dateFilter: Record<string, unknown>): Promise<Summary> {
+    const [categories, incomeRows, debts] = await Promise.all([
+        getCategorySpend(householdId, dateFilter),
+        Transaction.aggregate<{ amount: number }>([
+            { $match: { ...dateFilter, householdId, type: 'income' } },
+            { $group: { _id: null, amount: { $sum: BASE_AMOUNT } } }
+        ]),
+        getDebts(householdId)
+    ]);
+
+    const income = incomeRows[0]?.amount ?? 0;
+    const expense = categories.reduce((sum, c) => sum + c.amount, 0);
+
+    const balances = buildBalanceMatrix(debts);
+
+    return {
+        financials: {
+            income,
+            expense,
+            balance: income - expense,
+            balances,
+            payments: simplifyDebts(balances)
+        },
+        categories
+    };
+}
+
+// Income and expense per tag for the period matched by `dateFilter`. An entry with several tags
+// counts in full towards each, so the totals can add up to more than was spent.
+export async function getTagTotals(householdId: mongoose.Types.ObjectId, dateFilter: Record<string, unknown>): Promise<TagTotal[]> {
+    const rows = await Transaction.aggregate<TagTotal & { _id: string }>([
+        { $match: { ...dateFilter, householdId, type: { $in: ['income', 'expense'] }, tags: { $exists: true, $ne: [] } } },
+        { $unwind: '$tags' },
+        {
+            $group: {
+                _id: '$tags',
+                expense: { $sum: { $cond: [{ $eq: ['$type', 'expense'] }, BASE_AMOUNT, 0] } },
+                income: { $sum: { $cond: [{ $eq: ['$type', 'income'] }, BASE_AMOUNT, 0] } },
+                count: { $sum: 1 }
+            }
+        },
+        { $sort: { expense: -1, _id: 1 } }
+    ]);
+
+    return rows.map(({ _id, expense, income, count }) => ({ tag: _id, expense, income, count }));
+}
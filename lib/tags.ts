@@ -0,0 +1,14 @@
+// Tags are free-form labels like "goa-trip". They are stored normalised so that "Goa Trip",
+// "#goa-trip" and "goa-trip " all land on the same tag.
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+export const normalizeTag = (raw: string): string =>
+    raw.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH);
+
+// Accepts an array or a comma separated string, as typed in the entry form
+export const normalizeTags = (raw: unknown): string[] => {
+    const parts = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+    const tags = parts.filter((p): p is string => typeof p === 'string').map(normalizeTag).filter(Boolean);
+    return [...new Set(tags)].slice(0, MAX_TAGS);
+};
@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import { normalizeTags } from '@/lib/tags';
+import { InputError } from '@/lib/validation';
+import { TRANSACTION_TYPES } from '@/lib/request-schemas';
+import { TransactionType } from '@/types';
+
+// Transaction dates are stored as 'YYYY-MM-DD' strings, so range filters compare lexically.
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const MAX_PAGE_SIZE = 200;
+
+export interface TransactionCursor {
+    date: string;
+    id: string;
+}
+
+export class FilterError extends InputError {}
+
+// Cursors are opaque to clients: base64url of the last row's sort key
+export const encodeCursor = (cursor: TransactionCursor): string =>
+    Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (raw: string): TransactionCursor => {
+    try {
+        const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString());
+        if (DATE_KEY.test(cursor.date) && mongoose.isValidObjectId(cursor.id)) return cursor;
+    } catch {
+        // fall through
+    }
+    throw new FilterError('Invalid cursor');
+};
+
+// Date range only; shared with /api/summary
+export const buildDateFilter = (params: URLSearchParams): Record<string, unknown> => {
+    const from = params.get('from');
+    const to = params.get('to');
+    if (from && !DATE_KEY.test(from)) throw new FilterError('`from` must be YYYY-MM-DD');
+    if (to && !DATE_KEY.test(to)) throw new FilterError('`to` must be YYYY-MM-DD');
+
+    if (!from && !to) return {};
+    return { date: { ...(from && { $gte: from }), ...(to && { $lte: to }) } };
+};
+
+const parseAmountBound = (params: URLSearchParams, name: string): number | undefined => {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return undefined;
+    const amount = Number(raw);
+    if (!Number.isInteger(amount) || amount < 0) throw new FilterError(`\`${name}\` must be a whole number of paise`);
+    return amount;
+};
+
+// Translates the query string of GET /api/transactions into a Mongo filter.
+// Supported: from, to, type, owner, category, q, tag (repeatable), minAmount, maxAmount, cursor
+export const buildTransactionFilter = (params: URLSearchParams): Record<string, unknown> => {
+    const filter: Record<string, unknown> = buildDateFilter(params);
+
+    const type = params.get('type');
+    if (type) {
+        if (!TRANSACTION_TYPES.includes(type as TransactionType)) throw new FilterError(`\`type\` must be one of ${TRANSACTION_TYPES.join(', ')}`);
+        filter.type = type;
+    }
+
+    // Any member key; unknown keys simply match nothing
+    const owner = params.get('owner');
+    if (owner) filter.owner = owner;
+
+    const category = params.get('category');
+    if (category) filter.category = category;
+
+    // Words in the note, category or tags, through the text index
+    const q = params.get('q')?.trim();
+    if (q) filter.$text = { $search: q };
+
+    // Entries carrying every listed tag
+    const tags = normalizeTags(params.getAll('tag'));
+    if (tags.length > 0) filter.tags = { $all: tags };
+
+    // Bounds are in hundredths of the base currency, so foreign entries compare by their converted amount
+    const minAmount = parseAmountBound(params, 'minAmount');
+    const maxAmount = parseAmountBound(params, 'maxAmount');
+    if (minAmount !== undefined || maxAmount !== undefined) {
+        const range = { ...(minAmount !== undefined && { $gte: minAmount }), ...(maxAmount !== undefined && { $lte: maxAmount }) };
+        // In $and because the cursor below claims the top-level $or
+        filter.$and = [{ $or: [{ baseAmount: range }, { baseAmount: { $exists: false }, amount: range }] }];
+    }
+
+    const rawCursor = params.get('cursor');
+    if (rawCursor) {
+        const cursor = decodeCursor(rawCursor);
+        const id = new mongoose.Types.ObjectId(cursor.id);
+        // Rows strictly after the cursor in (date desc, _id desc) order
+        filter.$or = [
+            { date: { $lt: cursor.date } },
+            { date: cursor.date, _id: { $lt: id } }
+        ];
+    }
+
+    return filter;
+};
+
+// `limit` is optional: without it the whole (filtered) result is returned, as before pagination existed
+export const parseLimit = (params: URLSearchParams): number | null => {
+    const raw = params.get('limit');
+    if (raw === null) return null;
+    const limit = Number(raw);
+    if (!Number.isInteger(limit) || limit < 1) throw new FilterError('`limit` must be a positive integer');
+    return Math.min(limit, MAX_PAGE_SIZE);
+};
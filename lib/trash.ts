@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import { TrashCollection } from '@/types';
+
+// Deleted transactions and todos are kept for this long so they can be restored, then MongoDB
+// removes them (a TTL index on `deletedAt`)
+export const TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_COLLECTIONS: TrashCollection[] = ['transactions', 'todos'];
+
+const NOT_DELETED = { deletedAt: null }; // Also matches documents that were never deleted
+
+type SoftDeleteQuery = mongoose.Query<unknown, unknown>;
+
+// Leaves alone queries that say which deletedAt they want, like the trash's own, and those
+// run with the `withDeleted` option
+function hideDeleted(this: SoftDeleteQuery) {
+    if (!this.getOptions().withDeleted && !('deletedAt' in this.getFilter())) this.where(NOT_DELETED);
+}
+
+// Schema plugin for collections with a trash. Deleting sets `deletedAt` instead of removing the
+// document, and every find, findOne, exists, count, findOneAnd... and aggregate skips deleted
+// documents unless it filters on deletedAt itself (or sets `withDeleted`), so totals, balances and budgets never see them.
+// updateOne/updateMany are left alone: a category rename should reach the trash too, and the
+// recurring generator's upsert relies on a deleted occurrence still being there.
+export const softDelete = (schema: mongoose.Schema) => {
+    schema.add({
+        deletedAt: { type: Date, expires: TRASH_RETENTION_DAYS * 24 * 60 * 60 },
+        deletedBy: { type: String } // Member key
+    });
+    schema.pre(['find', 'findOne', 'countDocuments', 'findOneAndUpdate', 'findOneAndDelete'], hideDeleted);
+    schema.pre('aggregate', function () {
+        const [first] = this.pipeline();
+        // Merged into a leading $match rather than put before it, which $text requires to be first
+        if (first && '$match' in first) {
+            if (!('deletedAt' in first.$match)) Object.assign(first.$match, NOT_DELETED);
+        } else {
+            this.pipeline().unshift({ $match: NOT_DELETED });
+        }
+    });
+    schema.index({ householdId: 1, deletedAt: -1 }, { partialFilterExpression: { deletedAt: { $type: 'date' } } });
+};
+
+type TrashModel = mongoose.Model<mongoose.Document>;
+
+// Each returns the document, or null when the household has no such one in the state required.
+// Moving in and out of the trash counts as an edit for lib/versioning.ts.
+export const moveToTrash = (model: TrashModel, householdId: mongoose.Types.ObjectId, id: string, member: string) =>
+    model.findOneAndUpdate({ _id: id, householdId }, { $set: { deletedAt: new Date(), deletedBy: member }, $inc: { version: 1 } }, { new: true });
+
+export const restoreFromTrash = (model: TrashModel, householdId: mongoose.Types.ObjectId, id: string) =>
+    model.findOneAndUpdate({ _id: id, householdId, deletedAt: { $ne: null } }, { $unset: { deletedAt: 1, deletedBy: 1 }, $inc: { version: 1 } }, { new: true });
+
+export const purgeFromTrash = (model: TrashModel, householdId: mongoose.Types.ObjectId, id: string) =>
+    model.findOneAndDelete({ _id: id, householdId, deletedAt: { $ne: null } });
+
+// Most recently deleted first
+export const listTrash = (model: TrashModel, householdId: mongoose.Types.ObjectId) =>
+    model.find({ householdId, deletedAt: { $ne: null } }).sort({ deletedAt: -1 });
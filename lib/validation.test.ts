@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { array, checkRules, number, object, optional, optionalFields, parse, string, ValidationError } from '@/lib/validation';
+
+const issuesOf = (run: () => unknown) => {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof ValidationError) return error.fields;
+        throw error;
+    }
+    return {};
+};
+
+describe('parse', () => {
+    const schema = object<{ name: string; age?: number; tags: string[] }>({
+        name: string({ min: 1, max: 5 }),
+        age: optional(number({ min: 0, integer: true })),
+        tags: array(string())
+    });
+
+    it('returns only the declared fields, trimmed', () => {
+        expect(parse(schema, { name: ' Ann ', tags: ['x'], householdId: 'nope' })).toEqual({ name: 'Ann', tags: ['x'] });
+    });
+
+    it('collects every problem under its dotted path', () => {
+        expect(issuesOf(() => parse(schema, { name: 'Too long', age: 1.5, tags: ['ok', 3] }))).toEqual({
+            name: 'Name must be at most 5 characters',
+            age: 'Age must be a whole number',
+            'tags.1': 'Tags.1 must be text'
+        });
+    });
+
+    it('reports missing required fields', () => {
+        expect(issuesOf(() => parse(schema, {}))).toEqual({ name: 'Name is required', tags: 'Tags is required' });
+    });
+
+    it('accepts null for optional fields and leaves them out', () => {
+        expect(parse(schema, { name: 'Ann', age: null, tags: [] })).toEqual({ name: 'Ann', tags: [] });
+    });
+
+    it('rejects a body that is not an object', () => {
+        expect(issuesOf(() => parse(schema, []))).toEqual({ '': 'Request body must be an object' });
+    });
+});
+
+describe('string', () => {
+    it('keeps surrounding whitespace when asked to', () => {
+        expect(parse(string({ trim: false }), ' secret ')).toBe(' secret ');
+    });
+});
+
+describe('object rules', () => {
+    const schema = object<{ from: number; to: number }>(
+        { from: number(), to: number() },
+        (range, issue) => {
+            if (range.from > range.to) issue('to', 'To must not be before from');
+        }
+    );
+
+    it('runs once the fields are valid', () => {
+        expect(issuesOf(() => parse(schema, { from: 2, to: 1 }))).toEqual({ to: 'To must not be before from' });
+    });
+
+    it('is skipped while a field is invalid', () => {
+        expect(issuesOf(() => parse(schema, { from: 'x', to: 1 }))).toEqual({ from: 'From must be a number' });
+    });
+});
+
+describe('optionalFields', () => {
+    it('makes every field optional for partial updates', () => {
+        const update = object(optionalFields<{ name: string; age: number }>({ name: string({ min: 1 }), age: number() }));
+        expect(parse(update, { age: 3 })).toEqual({ age: 3 });
+    });
+});
+
+describe('checkRules', () => {
+    it('throws with the issues found', () => {
+        expect(() => checkRules<{ n: number }>((v, issue) => v.n < 0 && issue('n', 'Negative'), { n: -1 })).toThrow('Negative');
+    });
+});
@@ -0,0 +1,155 @@
+// Request body schemas. A schema checks untrusted input and returns a clean copy holding only the
+// fields it declares, so a client can't set anything else (householdId, shares, owner...).
+// Every problem is collected under its dotted path rather than stopping at the first.
+
+// Input the client can fix by sending something else; the API answers these with 422
+export class InputError extends Error {}
+
+export type FieldErrors = Record<string, string>;
+
+export class ValidationError extends InputError {
+    constructor(readonly fields: FieldErrors) {
+        super(Object.values(fields)[0] ?? 'Invalid request');
+    }
+}
+
+export interface Schema<T> {
+    // Returns the cleaned value, adding any problems to `issues` under `path`
+    check(input: unknown, path: string, issues: FieldErrors): T;
+}
+
+// Cross-field rules, run once the fields themselves are valid
+export type Rules<T> = (value: T, issue: (path: string, message: string) => void) => void;
+
+const labelOf = (path: string) => path ? path[0].toUpperCase() + path.slice(1) : 'Request body';
+
+// Records a missing required value; true when there is one
+const isMissing = (input: unknown, path: string, issues: FieldErrors) => {
+    if (input !== undefined && input !== null) return false;
+    issues[path] = `${labelOf(path)} is required`;
+    return true;
+};
+
+// Surrounding whitespace is trimmed unless `trim` is false (passwords)
+export const string = ({ min = 0, max = Infinity, pattern, message, trim = true }: { min?: number; max?: number; pattern?: RegExp; message?: string; trim?: boolean } = {}): Schema<string> => ({
+    check(input, path, issues) {
+        if (isMissing(input, path, issues)) return '';
+        if (typeof input !== 'string') {
+            issues[path] = `${labelOf(path)} must be text`;
+            return '';
+        }
+        const value = trim ? input.trim() : input;
+        if (value.length < min) issues[path] = min === 1 ? `${labelOf(path)} is required` : `${labelOf(path)} must be at least ${min} characters`;
+        else if (value.length > max) issues[path] = `${labelOf(path)} must be at most ${max} characters`;
+        else if (pattern && !pattern.test(value)) issues[path] = message ?? `${labelOf(path)} is not valid`;
+        return value;
+    }
+});
+
+export const dateKey = (): Schema<string> => string({ pattern: /^\d{4}-\d{2}-\d{2}$/, message: 'Date must be YYYY-MM-DD' });
+
+export const objectId = (): Schema<string> => string({ pattern: /^[0-9a-f]{24}$/i, message: 'Not a valid id' });
+
+export const number = ({ min = -Infinity, max = Infinity, integer = false }: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => ({
+    check(input, path, issues) {
+        if (isMissing(input, path, issues)) return 0;
+        if (typeof input !== 'number' || !Number.isFinite(input)) {
+            issues[path] = `${labelOf(path)} must be a number`;
+            return 0;
+        }
+        if (integer && !Number.isInteger(input)) issues[path] = `${labelOf(path)} must be a whole number`;
+        else if (input < min) issues[path] = `${labelOf(path)} must be at least ${min}`;
+        else if (input > max) issues[path] = `${labelOf(path)} must be at most ${max}`;
+        return input;
+    }
+});
+
+export const boolean = (): Schema<boolean> => ({
+    check(input, path, issues) {
+        if (isMissing(input, path, issues)) return false;
+        if (typeof input !== 'boolean') issues[path] = `${labelOf(path)} must be true or false`;
+        return input === true;
+    }
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+    check(input, path, issues) {
+        if (isMissing(input, path, issues)) return input as T;
+        if (!values.includes(input as T)) issues[path] = `${labelOf(path)} must be one of ${values.join(', ')}`;
+        return input as T;
+    }
+});
+
+export const array = <T>(item: Schema<T>, { max = Infinity }: { max?: number } = {}): Schema<T[]> => ({
+    check(input, path, issues) {
+        if (isMissing(input, path, issues)) return [];
+        if (!Array.isArray(input)) {
+            issues[path] = `${labelOf(path)} must be a list`;
+            return [];
+        }
+        if (input.length > max) issues[path] = `${labelOf(path)} can have at most ${max} entries`;
+        return input.map((value, i) => item.check(value, `${path}.${i}`, issues));
+    }
+});
+
+// Any value at all, for parts of a body checked elsewhere
+export const present = (): Schema<unknown> => ({
+    check(input, path, issues) {
+        isMissing(input, path, issues);
+        return input;
+    }
+});
+
+// Missing and null are both accepted, and come out as undefined
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    check(input, path, issues) {
+        return input === undefined || input === null ? undefined : schema.check(input, path, issues);
+    }
+});
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+// Fields left undefined are omitted from the result, so it can be spread over a stored document
+export const object = <T extends object>(shape: Shape<T>, rules?: Rules<T>): Schema<T> => ({
+    check(input, path, issues) {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+            issues[path] = `${labelOf(path)} must be an object`;
+            return {} as T;
+        }
+        const before = Object.keys(issues).length;
+        const value = {} as T;
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const field = shape[key].check((input as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+            if (field !== undefined) value[key] = field;
+        }
+        if (rules && Object.keys(issues).length === before) {
+            rules(value, (field, message) => {
+                issues[path ? `${path}.${field}` : field] = message;
+            });
+        }
+        return value;
+    }
+});
+
+// The same fields, all optional, for partial updates
+export const optionalFields = <T extends object>(shape: Shape<T>): Shape<Partial<T>> => {
+    const loose = {} as Shape<Partial<T>>;
+    for (const key of Object.keys(shape) as (keyof T)[]) loose[key] = optional(shape[key]);
+    return loose;
+};
+
+export function parse<T>(schema: Schema<T>, input: unknown): T {
+    const issues: FieldErrors = {};
+    const value = schema.check(input, '', issues);
+    if (Object.keys(issues).length > 0) throw new ValidationError(issues);
+    return value;
+}
+
+// Runs cross-field rules on their own, e.g. on an update merged over the stored document
+export function checkRules<T>(rules: Rules<T>, value: T): void {
+    const issues: FieldErrors = {};
+    rules(value, (path, message) => {
+        issues[path] = message;
+    });
+    if (Object.keys(issues).length > 0) throw new ValidationError(issues);
+}
@@ -0,0 +1,30 @@
+import mongoose from 'mongoose';
+
+// A write based on an older version of a document than the one stored: someone else changed it first.
+// The API answers these with 409 and the client refetches.
+export class VersionConflictError extends Error {
+    constructor(what: string) {
+        super(`${what} was changed by someone else in the meantime`);
+    }
+}
+
+// Documents written before versions existed have none, which counts as 0
+export const versionFilter = (version: number) => version === 0 ? { version: { $in: [0, null] } } : { version };
+
+// Schema plugin adding a `version` counter. Every save() of an existing document increments it and only
+// goes through if the stored version is still the one that was loaded; otherwise Mongoose throws a
+// DocumentNotFoundError. findOneAndUpdate callers increment it themselves (`$inc: { version: 1 }`).
+export const versioned = (schema: mongoose.Schema) => {
+    schema.add({ version: { type: Number, default: 0 } });
+    schema.pre('save', function () {
+        if (this.isNew || !this.isModified()) return;
+        const loaded = Number(this.get('version') ?? 0);
+        this.$where = { ...this.$where, ...versionFilter(loaded) };
+        this.set('version', loaded + 1);
+    });
+};
+
+// For edits that say which version they were based on; those that don't are applied regardless
+export const checkVersion = (doc: mongoose.Document, expected: number | undefined, what: string) => {
+    if (expected !== undefined && (doc.get('version') ?? 0) !== expected) throw new VersionConflictError(what);
+};
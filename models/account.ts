@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+
+// Where money is held: transactions name the account they were paid from or into (accountId), and
+// transfers move money between two of them. The current balance is never stored; lib/accounts.ts
+// replays the opening balance and every transaction that touches the account.
+const AccountSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    name: { type: String, required: true, trim: true },
+    kind: { type: String, enum: ['bank', 'credit_card', 'cash', 'upi'], required: true },
+    owner: { type: String, default: 'joint', required: true }, // A member key, or 'joint'
+    // Integer hundredths of the base currency; negative for a credit card that starts with dues
+    openingBalance: {
+        type: Number,
+        default: 0,
+        validate: { validator: Number.isInteger, message: 'Opening balance must be a whole number of paise' }
+    },
+}, { timestamps: true });
+
+AccountSchema.index({ householdId: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.Account || mongoose.model('Account', AccountSchema);
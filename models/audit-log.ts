@@ -0,0 +1,20 @@
+import mongoose from 'mongoose';
+
+// Who changed what: one entry per write made through the transactions, budgets, todos and trash
+// routes (see lib/audit.ts). Kept for good, unlike the change feed.
+const AuditLogSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    actor: { type: String, required: true }, // Member key
+    action: { type: String, enum: ['create', 'update', 'delete', 'restore', 'purge'], required: true },
+    entity: { type: String, enum: ['transaction', 'budget', 'todo'], required: true },
+    entityId: { type: mongoose.Schema.Types.ObjectId, required: true },
+    // The document's fields before and after the write; missing on the side where it didn't exist
+    before: { type: mongoose.Schema.Types.Mixed },
+    after: { type: mongoose.Schema.Types.Mixed },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+// The household's feed, newest first, and one entity's history
+AuditLogSchema.index({ householdId: 1, _id: -1 });
+AuditLogSchema.index({ householdId: 1, entityId: 1, _id: -1 });
+
+export default mongoose.models.AuditLog || mongoose.model('AuditLog', AuditLogSchema);
@@ -0,0 +1,17 @@
+import mongoose from 'mongoose';
+
+// The budget as it applied from one calendar month on, written whenever the Budget is. Past months
+// read from here so that editing a Budget today doesn't rewrite history (see lib/budget-snapshots.ts).
+const BudgetSnapshotSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    category: { type: String, required: true },
+    owner: { type: String, required: true },
+    month: { type: String, required: true }, // 'YYYY-MM'
+    amount: { type: Number, required: true }, // Integer paise, per `period`
+    period: { type: String, enum: ['weekly', 'monthly', 'yearly'], default: 'monthly' },
+    rollover: { type: Boolean, default: false },
+}, { timestamps: true });
+
+BudgetSnapshotSchema.index({ householdId: 1, category: 1, owner: 1, month: 1 }, { unique: true });
+
+export default mongoose.models.BudgetSnapshot || mongoose.model('BudgetSnapshot', BudgetSnapshotSchema);
@@ -1,14 +1,33 @@
 import mongoose from 'mongoose';
+import { changeFeed } from '@/lib/change-feed';
+import { versioned } from '@/lib/versioning';
 
 const BudgetSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
     category: { type: String, required: true },
-    amount: { type: Number, required: true },
-    owner: { type: String, enum: ['me', 'her', 'joint'], default: 'joint', required: true }
-});
+    // Limit per `period` in integer paise, same units as Transaction.amount
+    amount: {
+        type: Number,
+        required: true,
+        min: [0, 'Amount cannot be negative'],
+        validate: { validator: Number.isInteger, message: 'Amount must be a whole number of paise' }
+    },
+    owner: { type: String, default: 'joint', required: true }, // A member key, or 'joint'
+    // The limit is prorated from this period to whatever date range is being viewed
+    period: { type: String, enum: ['weekly', 'monthly', 'yearly'], default: 'monthly' },
+    // Carry unspent/overspent amounts into next month's limit (tracked in BudgetSnapshot)
+    rollover: { type: Boolean, default: false }
+}, { timestamps: true }); // createdAt keeps a budget out of the months before it existed
 
-// Create a compound index so (Category + Owner) is unique
+// Create a compound index so (Category + Owner) is unique within a household
 // e.g. You can't have two "Food" budgets for "Me"
-// Note: You might need to drop the existing 'category_1' index in MongoDB Atlas if you get duplicate key errors.
-BudgetSchema.index({ category: 1, owner: 1 }, { unique: true });
+// Note: scripts/migrate-households.mjs drops the older 'category_1' and 'category_1_owner_1' indexes.
+BudgetSchema.index({ householdId: 1, category: 1, owner: 1 }, { unique: true });
+
+// Edits can say which version they were based on; see lib/versioning.ts
+BudgetSchema.plugin(versioned);
+
+// Pushed to open pages by GET /api/stream
+BudgetSchema.plugin(changeFeed('budgets'));
 
 export default mongoose.models.Budget || mongoose.model('Budget', BudgetSchema);
\ No newline at end of file
@@ -0,0 +1,19 @@
+import mongoose from 'mongoose';
+import { HEX_COLOR } from '@/lib/members';
+import { CATEGORY_ICONS, CATEGORY_KINDS } from '@/lib/categories';
+
+// A household's categories. Transactions, budgets, recurring templates and default splits store
+// the name rather than this _id, so lib/household-categories.ts rewrites them on rename and merge.
+const CategorySchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    name: { type: String, required: true, trim: true },
+    kind: { type: String, enum: CATEGORY_KINDS, required: true },
+    icon: { type: String, enum: CATEGORY_ICONS, default: 'tag' },
+    color: { type: String, required: true, match: [HEX_COLOR, 'Colour must be #rrggbb'] },
+    parentId: { type: mongoose.Schema.Types.ObjectId, ref: 'Category' },
+    budgeted: { type: Boolean, default: true },
+}, { timestamps: true });
+
+CategorySchema.index({ householdId: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.Category || mongoose.model('Category', CategorySchema);
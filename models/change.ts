@@ -0,0 +1,19 @@
+import mongoose from 'mongoose';
+
+// One entry per write to a synced collection, tailed by GET /api/stream (see lib/change-feed.ts).
+// Entries only need to outlive a dropped connection, so they expire after an hour.
+const ChangeSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    // Not `collection`, which Mongoose reserves
+    collectionName: { type: String, enum: ['transactions', 'budgets', 'todos'], required: true },
+    op: { type: String, enum: ['upsert', 'delete', 'reset'], required: true },
+    docId: { type: mongoose.Schema.Types.ObjectId },
+    doc: { type: mongoose.Schema.Types.Mixed },
+    version: { type: Number }, // Of the deleted document, for deletes
+    createdAt: { type: Date, default: Date.now, expires: 60 * 60 },
+});
+
+// Catching up after a reconnect, and the polling fallback, read a household's entries in _id order
+ChangeSchema.index({ householdId: 1, _id: 1 });
+
+export default mongoose.models.Change || mongoose.model('Change', ChangeSchema);
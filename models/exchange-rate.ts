@@ -0,0 +1,19 @@
+import mongoose from 'mongoose';
+
+// One day's rate for converting `currency` into the household's base currency, entered by hand
+// or imported from a file. A transaction uses the latest rate dated on or before its own date.
+const ExchangeRateSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    currency: { type: String, required: true, uppercase: true, trim: true, match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter code'] },
+    date: { type: String, required: true, match: [/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'] },
+    // Base-currency units one unit of `currency` buys (83.2 for USD into INR)
+    rate: {
+        type: Number,
+        required: true,
+        validate: { validator: (r: number) => Number.isFinite(r) && r > 0, message: 'Rate must be a positive number' }
+    },
+}, { timestamps: true });
+
+ExchangeRateSchema.index({ householdId: 1, currency: 1, date: -1 }, { unique: true });
+
+export default mongoose.models.ExchangeRate || mongoose.model('ExchangeRate', ExchangeRateSchema);
@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+
+// Something the household is saving towards. What has been saved is never stored: expenses name the
+// goal they contribute to (goalId) and lib/goals.ts adds them up.
+const GoalSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    name: { type: String, required: true, trim: true },
+    // Integer hundredths of the base currency
+    targetAmount: {
+        type: Number,
+        required: true,
+        min: [1, 'A goal needs a target above zero'],
+        validate: { validator: Number.isInteger, message: 'Target must be a whole number of paise' }
+    },
+    deadline: { type: String, required: true }, // YYYY-MM-DD
+    owner: { type: String, default: 'joint', required: true }, // A member key, or 'joint'
+}, { timestamps: true });
+
+GoalSchema.index({ householdId: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.Goal || mongoose.model('Goal', GoalSchema);
@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+import { HEX_COLOR, MAX_INITIALS, MAX_MEMBERS } from '@/lib/members';
+import { DEFAULT_CURRENCY } from '@/lib/money';
+
+// People sharing one set of books. Each member keeps a stable key, which is what
+// Transaction.owner, Budget.owner and Todo.createdBy store: households from before N-member
+// support use 'me' and 'her', later members get generated keys (see newMemberKey).
+// The profile fields are display-only and editable; blanks are filled in by resolveMember.
+const MemberSchema = new mongoose.Schema({
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    key: { type: String, required: true },
+    name: { type: String, trim: true },
+    initials: { type: String, trim: true, uppercase: true, maxlength: MAX_INITIALS },
+    color: { type: String, match: [HEX_COLOR, 'Colour must be #rrggbb'] },
+}, { _id: false });
+
+const SplitValueSchema = new mongoose.Schema({
+    member: { type: String, required: true },
+    value: { type: Number, required: true, min: 0 },
+}, { _id: false });
+
+// Default split for shared expenses in a category; see CategorySplit in types and lib/splits.ts
+const CategorySplitSchema = new mongoose.Schema({
+    category: { type: String, required: true },
+    mode: { type: String, enum: ['percentage', 'shares'], required: true },
+    values: { type: [SplitValueSchema], required: true },
+}, { _id: false });
+
+const HouseholdSchema = new mongoose.Schema({
+    name: { type: String, required: true },
+    members: {
+        type: [MemberSchema],
+        validate: { validator: (m: unknown[]) => m.length <= MAX_MEMBERS, message: `A household has at most ${MAX_MEMBERS} members` }
+    },
+    // Shared with the others so they can join at sign-up
+    inviteCode: { type: String, required: true, unique: true },
+    categorySplits: { type: [CategorySplitSchema], default: [] },
+    // Totals, budgets and balances are kept in this currency; fixed once transactions exist
+    baseCurrency: { type: String, uppercase: true, default: DEFAULT_CURRENCY },
+}, { timestamps: true });
+
+export default mongoose.models.Household || mongoose.model('Household', HouseholdSchema);
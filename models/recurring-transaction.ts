@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+import { SPLIT_MODES } from '@/lib/splits';
+
+// Mirrors TransactionFormState (minus date); copied onto every generated Transaction
+const TemplateSchema = new mongoose.Schema({
+    amount: {
+        type: Number,
+        required: true,
+        min: [0, 'Amount cannot be negative'],
+        validate: { validator: Number.isInteger, message: 'Amount must be a whole number of paise' }
+    },
+    currency: { type: String, uppercase: true }, // Converted at each occurrence's date; missing means the base currency
+    category: { type: String, required: true },
+    note: { type: String },
+    type: { type: String, enum: ['income', 'expense'], required: true },
+    owner: { type: String, required: true },
+    split: { type: String, enum: ['personal', 'shared'], default: 'personal' },
+    splitAmong: { type: [String], default: undefined },
+    splitMode: { type: String, enum: SPLIT_MODES },
+    splitValues: {
+        type: [{ _id: false, member: { type: String, required: true }, value: { type: Number, required: true } }],
+        default: undefined
+    },
+}, { _id: false });
+
+const RecurringTransactionSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true, index: true },
+    template: { type: TemplateSchema, required: true },
+    frequency: { type: String, enum: ['weekly', 'monthly', 'yearly'], required: true },
+    dayOfWeek: { type: Number, min: 0, max: 6, default: 1 },
+    dayOfMonth: { type: Number, min: 1, max: 31, default: 1 },
+    month: { type: Number, min: 1, max: 12, default: 1 },
+    startDate: { type: String, required: true },
+    nextDate: { type: String, required: true }, // 'YYYY-MM-DD' of the first occurrence not yet generated
+    paused: { type: Boolean, default: false },
+    skipDates: { type: [String], default: [] },
+}, { timestamps: true });
+
+export default mongoose.models.RecurringTransaction || mongoose.model('RecurringTransaction', RecurringTransactionSchema);
@@ -0,0 +1,16 @@
+import mongoose from 'mongoose';
+
+// A signed-in browser. The cookie holds a random token; only its SHA-256 is stored here.
+// householdId and member are copied from the user at sign-in so requests need a single lookup.
+const SessionSchema = new mongoose.Schema({
+    tokenHash: { type: String, required: true, unique: true },
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    member: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+}, { timestamps: true });
+
+// MongoDB removes expired sessions on its own
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.Session || mongoose.model('Session', SessionSchema);
@@ -1,9 +1,22 @@
 import mongoose from 'mongoose';
+import { changeFeed } from '@/lib/change-feed';
+import { versioned } from '@/lib/versioning';
+import { softDelete } from '@/lib/trash';
 
 const TodoSchema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true, index: true },
     text: { type: String, required: true },
     completed: { type: Boolean, default: false },
-    createdBy: { type: String, enum: ['me', 'her'], default: 'me' },
+    createdBy: { type: String, required: true }, // Member key
 }, { timestamps: true });
 
+// Deleting moves to the trash; hidden from every query but the trash's own
+TodoSchema.plugin(softDelete);
+
+// Edits can say which version they were based on; see lib/versioning.ts
+TodoSchema.plugin(versioned);
+
+// Pushed to open pages by GET /api/stream
+TodoSchema.plugin(changeFeed('todos'));
+
 export default mongoose.models.Todo || mongoose.model('Todo', TodoSchema);
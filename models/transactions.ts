@@ -1,15 +1,100 @@
 import mongoose from 'mongoose';
+import { changeFeed } from '@/lib/change-feed';
+import { versioned } from '@/lib/versioning';
+import { softDelete } from '@/lib/trash';
+import { SPLIT_MODES, sharesFor, splitError } from '@/lib/splits';
+import { normalizeTags } from '@/lib/tags';
 
 const TransactionSchema = new mongoose.Schema({
-    amount: { type: String, required: true },
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    // Integer hundredths of `currency` (₹12.50 is stored as 1250). See lib/money.ts
+    amount: {
+        type: Number,
+        required: true,
+        min: [0, 'Amount cannot be negative'],
+        validate: { validator: Number.isInteger, message: 'Amount must be a whole number of paise' }
+    },
+    currency: { type: String, uppercase: true },
+    // `amount` in the household's base currency at the rate on `date` (see lib/exchange-rates.ts).
+    // Totals, budgets and shares use this; entries from before currencies existed don't have it.
+    baseAmount: {
+        type: Number,
+        validate: { validator: Number.isInteger, message: 'Base amount must be a whole number' }
+    },
     category: { type: String, required: true },
     date: { type: String, required: true },
     note: { type: String },
-    type: { type: String, enum: ['income', 'expense', 'settlement'], required: true },
-    owner: { type: String, enum: ['me', 'her'], required: true },
+    // Normalised on every write (see lib/tags.ts); an empty list is stored as no tags at all
+    tags: {
+        type: [String],
+        default: undefined,
+        set: (raw: unknown) => {
+            const tags = normalizeTags(raw);
+            return tags.length > 0 ? tags : undefined;
+        }
+    },
+    type: { type: String, enum: ['income', 'expense', 'settlement', 'transfer'], required: true },
+    owner: { type: String, required: true }, // Household member key of whoever paid
     split: { type: String, enum: ['personal', 'shared'] },
+    splitAmong: { type: [String], default: undefined }, // Member keys sharing a shared expense
+    splitMode: { type: String, enum: SPLIT_MODES },
+    // Percentages, paise or share counts per member, depending on splitMode; unused for equal splits
+    splitValues: {
+        type: [{ _id: false, member: { type: String, required: true }, value: { type: Number, required: true } }],
+        default: undefined
+    },
+    // Derived from amount and the split on every save; what /api/summary nets into balances
+    shares: {
+        type: [{ _id: false, member: { type: String, required: true }, amount: { type: Number, required: true } }],
+        default: undefined
+    },
     from: { type: String }, // For settlements
     to: { type: String },   // For settlements
+    method: { type: String, enum: ['cash', 'upi', 'bank_transfer'] }, // For settlements
+    // Where the money came from (went into, for income); see lib/accounts.ts
+    accountId: { type: mongoose.Schema.Types.ObjectId, ref: 'Account' },
+    toAccountId: { type: mongoose.Schema.Types.ObjectId, ref: 'Account' }, // For transfers
+    goalId: { type: mongoose.Schema.Types.ObjectId, ref: 'Goal' }, // Savings goal an expense contributes to
+    recurringId: { type: mongoose.Schema.Types.ObjectId, ref: 'RecurringTransaction' },
 }, { timestamps: true });
 
+// Runs before validation on create, save and insertMany (not on findOneAndUpdate, so edits load and save)
+TransactionSchema.pre('validate', function () {
+    const tx = this.toObject();
+    const error = tx.split === 'shared' && tx.type === 'expense' ? splitError(tx.splitMode || 'equal', tx.splitValues || [], tx.amount) : null;
+    if (error) {
+        this.invalidate('splitValues', error);
+        return;
+    }
+    const shares = sharesFor(tx);
+    this.set('shares', shares.length > 0 ? shares : undefined);
+});
+
+// Serves both the period filters and the (date, _id) cursor order used by GET /api/transactions
+TransactionSchema.index({ householdId: 1, date: -1, _id: -1 });
+
+// Free-text search (?q= on GET /api/transactions). Mongo allows one text index per collection.
+TransactionSchema.index({ note: 'text', category: 'text', tags: 'text' }, { weights: { tags: 3, category: 2, note: 1 } });
+
+// Tag totals, and ?tag= filters
+TransactionSchema.index({ householdId: 1, tags: 1 });
+
+// Goal progress (lib/goals.ts)
+TransactionSchema.index({ householdId: 1, goalId: 1 }, { partialFilterExpression: { goalId: { $exists: true } } });
+
+// One transaction per occurrence: makes the recurring generator idempotent
+TransactionSchema.index(
+    { recurringId: 1, date: 1 },
+    { unique: true, partialFilterExpression: { recurringId: { $exists: true } } }
+);
+
+// Deleting moves to the trash; hidden from every query but the trash's own
+TransactionSchema.plugin(softDelete);
+
+// Edits can say which version they were based on; see lib/versioning.ts
+TransactionSchema.plugin(versioned);
+
+// Pushed to open pages by GET /api/stream
+TransactionSchema.plugin(changeFeed('transactions'));
+
 export default mongoose.models.Transaction || mongoose.model('Transaction', TransactionSchema);
\ No newline at end of file
@@ -0,0 +1,10 @@
+import mongoose from 'mongoose';
+
+const UserSchema = new mongoose.Schema({
+    name: { type: String, required: true, trim: true },
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    passwordHash: { type: String, required: true }, // See hashPassword in lib/auth.ts
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+}, { timestamps: true });
+
+export default mongoose.models.User || mongoose.model('User', UserSchema);
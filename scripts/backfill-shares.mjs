@@ -0,0 +1,52 @@
+// One-off migration: records who each existing shared expense is split among.
+//
+//   npm run backfill:shares
+//
+// Run after migrate:households. Shared expenses from before per-member shares existed
+// are split equally among their household's current members, with leftover paise going
+// to the first members, matching lib/splits.ts.
+// Safe to re-run: only documents without shares (or templates without splitAmong) are touched.
+import mongoose from 'mongoose';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+if (!MONGODB_URI) {
+    console.error('Please define the MONGODB_URI environment variable inside .env.local');
+    process.exit(1);
+}
+
+const splitEqually = (amount, members) => {
+    const base = Math.floor(amount / members.length);
+    const remainder = amount - base * members.length;
+    return members.map((member, i) => ({ member, amount: base + (i < remainder ? 1 : 0) }));
+};
+
+await mongoose.connect(MONGODB_URI);
+const db = mongoose.connection.db;
+const transactions = db.collection('transactions');
+const recurring = db.collection('recurringtransactions');
+
+for (const household of await db.collection('households').find().toArray()) {
+    const keys = household.members.map((m) => m.key);
+    if (keys.length === 0) continue;
+
+    const pending = await transactions.find(
+        { householdId: household._id, type: 'expense', split: 'shared', shares: { $exists: false } },
+        { projection: { amount: 1 } }
+    ).toArray();
+    if (pending.length > 0) {
+        await transactions.bulkWrite(pending.map((t) => ({
+            updateOne: {
+                filter: { _id: t._id },
+                update: { $set: { splitAmong: keys, shares: splitEqually(t.amount, keys) } }
+            }
+        })));
+    }
+
+    const templates = await recurring.updateMany(
+        { householdId: household._id, 'template.split': 'shared', 'template.splitAmong': { $exists: false } },
+        { $set: { 'template.splitAmong': keys } }
+    );
+    console.log(`${household.name || household._id}: ${pending.length} transactions, ${templates.modifiedCount} recurring templates`);
+}
+
+await mongoose.disconnect();
@@ -0,0 +1,52 @@
+// One-off migration: converts Transaction.amount from rupee strings to integer paise
+// and Budget.amount from rupees to integer paise.
+//
+//   npm run migrate:amounts
+//
+// Safe to re-run: transactions are matched by their string type, and the budget step
+// records itself in the `migrations` collection so it never multiplies twice.
+import mongoose from 'mongoose';
+
+const MIGRATION_ID = 'amounts-to-minor-units';
+const NUMERIC = /^\s*\d+(\.\d+)?\s*$/;
+
+const MONGODB_URI = process.env.MONGODB_URI;
+if (!MONGODB_URI) {
+    console.error('Please define the MONGODB_URI environment variable inside .env.local');
+    process.exit(1);
+}
+
+await mongoose.connect(MONGODB_URI);
+const db = mongoose.connection.db;
+const transactions = db.collection('transactions');
+const budgets = db.collection('budgets');
+const migrations = db.collection('migrations');
+
+// Refuse to guess at amounts we can't parse; list them so they can be fixed by hand first
+const stringAmounts = await transactions.find({ amount: { $type: 'string' } }, { projection: { amount: 1 } }).toArray();
+const invalid = stringAmounts.filter((t) => !NUMERIC.test(t.amount));
+if (invalid.length > 0) {
+    console.error(`${invalid.length} transaction(s) have non-numeric or negative amounts:`);
+    invalid.forEach((t) => console.error(`  ${t._id}: ${JSON.stringify(t.amount)}`));
+    await mongoose.disconnect();
+    process.exit(1);
+}
+
+const txResult = await transactions.updateMany(
+    { amount: { $type: 'string' } },
+    [{ $set: { amount: { $toLong: { $round: [{ $multiply: [{ $toDecimal: '$amount' }, 100] }, 0] } } } }]
+);
+console.log(`Transactions converted: ${txResult.modifiedCount}`);
+
+if (await migrations.findOne({ _id: MIGRATION_ID })) {
+    console.log('Budgets already converted, skipping');
+} else {
+    const budgetResult = await budgets.updateMany(
+        {},
+        [{ $set: { amount: { $toLong: { $round: [{ $multiply: [{ $toDecimal: '$amount' }, 100] }, 0] } } } }]
+    );
+    await migrations.insertOne({ _id: MIGRATION_ID, appliedAt: new Date() });
+    console.log(`Budgets converted: ${budgetResult.modifiedCount}`);
+}
+
+await mongoose.disconnect();
@@ -0,0 +1,58 @@
+// One-off migration: assigns every document created before accounts existed to a household.
+//
+//   npm run migrate:households -- you@example.com
+//
+// Sign up first (that creates the household), then pass the email you signed up with.
+// Old documents name their members 'me' and 'her'; the household's first two members get those keys
+// (see newMemberKey in lib/members.ts), so sign up as 'me' and have 'her' join with the invite code.
+// Safe to re-run: only documents without a householdId are touched.
+import mongoose from 'mongoose';
+
+const COLLECTIONS = ['transactions', 'budgets', 'budgetsnapshots', 'todos', 'recurringtransactions'];
+
+// Unique indexes that predate householdId; the models now define household-scoped replacements
+const LEGACY_INDEXES = {
+    budgets: ['category_1', 'category_1_owner_1'],
+    budgetsnapshots: ['category_1_owner_1_month_1'],
+    transactions: ['date_-1__id_-1'],
+};
+
+const email = process.argv[2];
+if (!email) {
+    console.error('Usage: npm run migrate:households -- <email of an existing account>');
+    process.exit(1);
+}
+
+const MONGODB_URI = process.env.MONGODB_URI;
+if (!MONGODB_URI) {
+    console.error('Please define the MONGODB_URI environment variable inside .env.local');
+    process.exit(1);
+}
+
+await mongoose.connect(MONGODB_URI);
+const db = mongoose.connection.db;
+
+const user = await db.collection('users').findOne({ email: email.toLowerCase().trim() });
+if (!user) {
+    console.error(`No account found for ${email}. Sign up in the app first.`);
+    await mongoose.disconnect();
+    process.exit(1);
+}
+
+for (const name of COLLECTIONS) {
+    const result = await db.collection(name).updateMany(
+        { householdId: { $exists: false } },
+        { $set: { householdId: user.householdId } }
+    );
+    console.log(`${name}: ${result.modifiedCount} assigned`);
+}
+
+for (const [name, indexes] of Object.entries(LEGACY_INDEXES)) {
+    const existing = (await db.collection(name).indexes().catch(() => [])).map((i) => i.name);
+    for (const index of indexes.filter((i) => existing.includes(i))) {
+        await db.collection(name).dropIndex(index);
+        console.log(`${name}: dropped index ${index}`);
+    }
+}
+
+await mongoose.disconnect();
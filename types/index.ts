@@ -1,38 +1,131 @@
-export type TransactionType = 'income' | 'expense' | 'settlement';
-export type Owner = 'me' | 'her';
-export type BudgetOwner = 'me' | 'her' | 'joint';
+export type TransactionType = 'income' | 'expense' | 'settlement' | 'transfer';
+// A household member key. Households created before N-member support use 'me' and 'her'.
+export type Owner = string;
+export type BudgetOwner = Owner; // A member key, or 'joint' for budgets covering shared expenses
 export type SplitType = 'personal' | 'shared';
-export type ViewState = 'dashboard' | 'add' | 'budgets' | 'analytics' | 'todos' | 'settings';
+// How a shared expense is divided: equally among splitAmong, or by per-member percentages,
+// fixed amounts or share counts (splitValues)
+export type SplitMode = 'equal' | 'percentage' | 'fixed' | 'shares';
+export type SettlementMethod = 'cash' | 'upi' | 'bank_transfer';
+export type ViewState = 'dashboard' | 'add' | 'budgets' | 'analytics' | 'todos' | 'settings' | 'recurring' | 'import' | 'settlements' | 'currencies' | 'accounts' | 'categories' | 'search' | 'tags' | 'trash' | 'activity' | 'goals';
 export type FilterState = 'weekly' | 'monthly' | 'yearly';
+export type BudgetPeriod = 'weekly' | 'monthly' | 'yearly';
 
 export interface Transaction {
     _id: string;
-    amount: string;
+    amount: number; // Integer hundredths of `currency` (paise for INR)
+    currency?: string; // ISO 4217 code; missing on entries from before multi-currency, which are in the base currency
+    baseAmount?: number; // `amount` converted to the household's base currency on `date`; what totals add up
     category: string;
     date: string;
     note: string;
+    tags?: string[]; // Normalised, see lib/tags.ts
     type: TransactionType;
     owner: Owner;
     split?: SplitType;
+    splitAmong?: Owner[]; // Shared expenses only: who the cost is divided between
+    splitMode?: SplitMode; // Missing means equal
+    splitValues?: SplitValue[];
+    shares?: Share[];     // Computed from amount and the split by the server
     from?: Owner;
     to?: Owner;
+    method?: SettlementMethod; // Settlements only
+    accountId?: string;   // Account paid from (or into, for income); a transfer's source
+    toAccountId?: string; // Transfers only: the account the money went to
+    goalId?: string;      // Expenses only: the savings goal this puts money towards
+    recurringId?: string; // Set when generated from a RecurringTransaction
+    deletedAt?: string; // Only on entries in the trash
+    deletedBy?: Owner;
+    version?: number; // Bumped by every write; missing on entries never edited since versions were added
 }
 
 export interface TransactionFormState {
-    amount: string;
+    amount: string; // As typed, in `currency`; converted to hundredths on save
+    currency: string;
     category: string;
     date: string;
     note: string;
+    tags: string; // As typed, comma separated
     type: TransactionType;
+    split: SplitType; // The payer is the signed-in member, set by the server
+    splitAmong: Owner[]; // Empty means every member
+    splitMode: SplitMode;
+    splitValues: Record<Owner, string>; // As typed, fixed amounts in `currency`; unused for equal splits
+    accountId: string;   // Empty for none; required on transfers
+    toAccountId: string; // Transfers only
+    goalId: string;      // Empty for none; expenses only
+}
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringSchedule {
+    frequency: RecurringFrequency;
+    dayOfWeek: number;  // 0 (Sunday) - 6; weekly only
+    dayOfMonth: number; // 1-31, clamped to short months; monthly and yearly
+    month: number;      // 1-12; yearly only
+}
+
+// What each generated Transaction looks like: the entry form minus the date, amounts in hundredths
+export type RecurringTemplate = Omit<TransactionFormState, 'amount' | 'date' | 'currency' | 'splitMode' | 'splitValues' | 'accountId' | 'toAccountId' | 'goalId' | 'tags'> & {
+    amount: number;
+    currency?: string; // Missing means the base currency
     owner: Owner;
-    split: SplitType;
+    splitMode?: SplitMode;
+    splitValues?: SplitValue[];
+};
+
+export interface RecurringTransaction extends RecurringSchedule {
+    _id: string;
+    template: RecurringTemplate;
+    startDate: string;
+    nextDate: string;    // First occurrence not yet generated
+    paused: boolean;
+    skipDates: string[]; // Occurrences the generator should pass over
 }
 
 export interface Budget {
     _id: string;
     category: string;
-    amount: number;
+    amount: number; // Integer paise, per `period`
     owner: BudgetOwner;
+    period?: BudgetPeriod; // Defaults to monthly
+    rollover?: boolean;
+    carriedIn?: number; // Only set when fetched for a month (GET /api/budgets?month=)
+    version?: number;
+    createdAt?: string;
+}
+
+// A member's display profile; `key` is what stored documents reference
+export interface HouseholdMember {
+    key: Owner;
+    name: string;
+    initials: string; // Shown in avatar badges, up to 3 characters
+    color: string;    // '#rrggbb'
+}
+
+// Response of GET /api/auth/me
+export interface CurrentUser {
+    name: string;
+    email: string;
+    member: Owner; // The signed-in user's key within the household
+    household: {
+        _id: string;
+        name: string;
+        inviteCode: string;
+        members: HouseholdMember[];
+        categorySplits: CategorySplit[];
+        baseCurrency: string; // What totals, budgets and balances are expressed in
+    };
+}
+
+// Fixed amounts depend on the expense, so only proportional modes make sense as a default
+export type CategorySplitMode = Extract<SplitMode, 'percentage' | 'shares'>;
+
+// The split a shared expense in `category` gets unless the entry says otherwise
+export interface CategorySplit {
+    category: string;
+    mode: CategorySplitMode;
+    values: SplitValue[];
 }
 
 export interface Todo {
@@ -40,23 +133,328 @@ export interface Todo {
     text: string;
     completed: boolean;
     createdBy: Owner;
+    deletedAt?: string; // Only on todos in the trash
+    deletedBy?: Owner;
+    version?: number;
+}
+
+export type TrashCollection = 'transactions' | 'todos';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+export type AuditEntity = 'transaction' | 'budget' | 'todo';
+
+// Response of GET /api/activity. `before` and `after` hold the entity's own fields (derived ones
+// like shares left out); `before` is missing on a create, `after` on a delete or purge.
+export interface AuditEntry {
+    _id: string;
+    actor: Owner;
+    action: AuditAction;
+    entity: AuditEntity;
+    entityId: string;
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+    createdAt: string;
+}
+
+// Response of GET /api/trash
+export interface Trash {
+    transactions: Transaction[];
+    todos: Todo[];
+    retentionDays: number; // How long deleted items are kept before they are purged
+}
+
+export type AccountKind = 'bank' | 'credit_card' | 'cash' | 'upi';
+
+// Response of GET /api/accounts
+export interface Account {
+    _id: string;
+    name: string;
+    kind: AccountKind;
+    owner: BudgetOwner; // A member key, or 'joint'
+    openingBalance: number; // Integer hundredths of the base currency
+    balance: number;        // openingBalance plus everything recorded against the account since
+}
+
+export type CategoryKind = 'expense' | 'income';
+
+// Response of GET /api/categories. Transactions, budgets and default splits refer to a category by
+// name; renaming or merging one rewrites those references.
+export interface Category {
+    _id: string;
+    name: string;
+    kind: CategoryKind;
+    icon: string;      // One of CATEGORY_ICONS in lib/categories.ts
+    color: string;     // '#rrggbb', fixed so a category looks the same in every period
+    parentId?: string; // Set on subcategories; only top-level categories can have children
+    budgeted: boolean; // Expense categories offered in the budget planner
+}
+
+// One member's part of what has been put towards a goal
+export interface GoalContribution {
+    member: Owner;
+    amount: number; // Integer hundredths of the base currency
+}
+
+// Response of GET /api/goals. Expenses linked to a goal by `goalId` count as contributions.
+export interface Goal {
+    _id: string;
+    name: string;
+    targetAmount: number; // Integer hundredths of the base currency
+    deadline: string;     // YYYY-MM-DD
+    owner: BudgetOwner;   // A member key, or 'joint'
+    saved: number;        // Everything contributed so far
+    contributions: GoalContribution[];
+    monthsLeft: number;   // Counting the current month; 0 once the deadline has passed
+    monthlyNeeded: number | null; // To reach the target by the deadline; null once it has passed
+}
+
+// Response of GET /api/exchange-rates
+export interface ExchangeRate {
+    _id: string;
+    currency: string;
+    date: string;
+    rate: number; // Base-currency units per unit of `currency`
+}
+
+// All money values below are integer hundredths of the household's base currency
+
+// One member's entry in a non-equal split: a percentage, paise or a share count depending on the mode
+export interface SplitValue {
+    member: Owner;
+    value: number;
+}
+
+// One member's part of a shared expense
+export interface Share {
+    member: Owner;
+    amount: number;
+}
+
+// `from` owes (or should pay) `to`
+export interface Debt {
+    from: Owner;
+    to: Owner;
+    amount: number;
+}
+
+// matrix[a][b] is what a owes b after netting b's debts to a; only positive entries are present
+export type BalanceMatrix = Record<Owner, Record<Owner, number>>;
+
+// Response of GET /api/settlements, one per settlement
+export interface LedgerEntry {
+    transaction: Transaction;
+    outstanding: Debt; // Between the settlement's two members right after it; amount 0 when square
 }
 
 export interface Financials {
     income: number;
     expense: number;
     balance: number;
-    settlement: {
-        amount: number;
-        whoOwes: Owner | 'none';
-        raw: number;
-    };
+    balances: BalanceMatrix; // All time
+    payments: Debt[];        // Fewest payments that would settle `balances`
+}
+
+// Expense total for one category, attributed to the budget it counts against (see lib/budgets.ts)
+export interface CategorySpend {
+    category: string;
+    owner: BudgetOwner;
+    amount: number;
+}
+
+// Response of GET /api/tags, one per tag used in the period
+export interface TagTotal {
+    tag: string;
+    expense: number;
+    income: number;
+    count: number; // Income and expense entries carrying the tag
+}
+
+// Response of GET /api/summary: period totals plus the all-time balances
+export interface Summary {
+    financials: Financials;
+    categories: CategorySpend[];
 }
 
 export interface BudgetStat {
     category: string;
-    monthlyLimit: number;
-    effectiveLimit: number;
+    owner: BudgetOwner;
+    period: BudgetPeriod;
+    limit: number; // As entered, per `period`
+    rollover: boolean;
+    carriedIn: number; // Brought forward from last month; already included in effectiveLimit
+    effectiveLimit: number; // `limit` prorated to the days of the viewed range
     spent: number;
     pct: number;
-}
\ No newline at end of file
+}
+export type SyncedCollection = 'transactions' | 'budgets' | 'todos';
+
+// One event on GET /api/stream. A 'reset' means many documents changed at once (a restore,
+// a category merge) and the collection should be fetched again.
+export interface ChangeEvent {
+    id: string;
+    collection: SyncedCollection;
+    op: 'upsert' | 'delete' | 'reset';
+    docId?: string;
+    doc?: unknown; // The document after the write, for upserts
+    version?: number; // The deleted document's last version, for deletes
+}
+
+// Request bodies, checked by the schemas in lib/request-schemas.ts before a route reads them
+export interface TransactionInput {
+    _id?: string; // Chosen by the client for entries made offline
+    amount: number;
+    currency?: string;
+    category?: string; // Required except on transfers
+    date: string;
+    note?: string;
+    tags?: string[];
+    type: TransactionType;
+    split?: SplitType;
+    splitAmong?: Owner[];
+    splitMode?: SplitMode;
+    splitValues?: SplitValue[];
+    from?: Owner;
+    to?: Owner;
+    method?: SettlementMethod;
+    accountId?: string; // Empty clears it on update
+    toAccountId?: string;
+    goalId?: string;    // Empty clears it on update
+}
+
+// `version` is the one the edit was based on; a stale one is rejected with 409
+export type TransactionUpdate = Partial<TransactionInput> & { _id: string; version?: number };
+
+export interface TodoInput {
+    _id?: string;
+    text: string;
+}
+
+export interface TodoUpdate {
+    _id: string;
+    version?: number;
+    text?: string;
+    completed?: boolean;
+}
+
+// Body of PUT /api/trash (restore)
+export interface TrashItemInput {
+    collection: TrashCollection;
+    _id: string;
+}
+
+export interface BudgetInput {
+    category: string;
+    owner: BudgetOwner;
+    amount: number;
+    period?: BudgetPeriod;
+    rollover?: boolean;
+    version?: number; // Of the budget being edited; left out when creating one
+}
+
+export interface GoalInput {
+    name: string;
+    targetAmount: number;
+    deadline: string;
+    owner: BudgetOwner;
+}
+
+export type GoalUpdate = Partial<GoalInput> & { _id: string };
+
+// Body of POST /api/auth/register. Without an invite code a new household is created.
+export interface RegisterInput {
+    name: string;
+    email: string;
+    password: string;
+    inviteCode?: string;
+}
+
+export interface LoginInput {
+    email: string;
+    password: string;
+}
+
+// A member's display profile; the key picks the member and can't be changed
+export type MemberProfileInput = Pick<HouseholdMember, 'key'> & Partial<Omit<HouseholdMember, 'key'>>;
+
+// Body of PUT /api/household; categorySplits replaces the whole list
+export interface HouseholdUpdate {
+    name?: string;
+    members?: MemberProfileInput[];
+    categorySplits?: CategorySplit[];
+    baseCurrency?: string;
+}
+
+// The payer is whoever creates the schedule, so the template has no owner
+export interface RecurringTemplateInput {
+    amount: number;
+    currency?: string;
+    category: string;
+    note?: string;
+    type: Extract<TransactionType, 'income' | 'expense'>;
+    split?: SplitType;
+    splitAmong?: Owner[];
+    splitMode?: SplitMode;
+    splitValues?: SplitValue[];
+}
+
+export interface RecurringInput extends Partial<RecurringSchedule> {
+    template: RecurringTemplateInput;
+    frequency: RecurringFrequency;
+    startDate?: string; // Defaults to today
+}
+
+export interface RecurringUpdate {
+    _id: string;
+    paused?: boolean;
+    skipDate?: string;
+    unskipDate?: string;
+}
+
+// One row of POST /api/exchange-rates, which also takes a list of them
+export interface RateInput {
+    currency: string;
+    date: string;
+    rate: number; // Base-currency units per unit of `currency`
+}
+
+export interface CategoryInput {
+    name: string;
+    kind: CategoryKind;
+    icon?: string;
+    color: string;
+    parentId?: string; // Empty for a top-level category
+    budgeted?: boolean;
+}
+
+// The kind is fixed once created, so a subcategory and its parent can't drift apart
+export type CategoryUpdate = Partial<Omit<CategoryInput, 'kind'>> & { _id: string };
+
+export interface CategoryMergeInput {
+    sourceId: string;
+    targetId: string;
+}
+
+export interface AccountInput {
+    name: string;
+    kind: AccountKind;
+    owner?: BudgetOwner;     // Defaults to joint
+    openingBalance?: number; // Hundredths of the base currency
+}
+
+export type AccountUpdate = Partial<AccountInput> & { _id: string };
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Body of POST /api/restore; the archive itself is checked document by document (lib/archive.ts)
+export interface RestoreInput {
+    mode: RestoreMode;
+    archive: unknown;
+}
+
+// Every failed API request answers with this. `fields` maps a body path ('splitValues.0.value')
+// to what is wrong with it, for requests that failed validation.
+export interface ApiErrorBody {
+    success: false;
+    message: string;
+    fields?: Record<string, string>;
+}
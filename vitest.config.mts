@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the pure helpers in lib/, next to the module they cover (lib/splits.test.ts)
+export default defineConfig({
+    resolve: {
+        alias: [{ find: /^@\//, replacement: fileURLToPath(new URL('./', import.meta.url)) }]
+    },
+    test: {
+        include: ['lib/**/*.test.ts'],
+        environment: 'node'
+    }
+});